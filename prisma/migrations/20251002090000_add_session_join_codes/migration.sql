@@ -0,0 +1,19 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "joinCode" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" DATETIME
+);
+-- Existing sessions get a random code so the new unique column can be filled. They have no owner to hand the code
+-- to or to end them later, so any still active are closed.
+INSERT INTO "new_Session" ("createdAt", "endedAt", "id", "isActive", "joinCode", "passwordHash") SELECT "createdAt", CASE WHEN "isActive" THEN coalesce("endedAt", CURRENT_TIMESTAMP) ELSE "endedAt" END, "id", false, upper(hex(randomblob(4))), "passwordHash" FROM "Session";
+DROP TABLE "Session";
+ALTER TABLE "new_Session" RENAME TO "Session";
+CREATE UNIQUE INDEX "Session_joinCode_key" ON "Session"("joinCode");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AuthToken" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenHash" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "revokedAt" DATETIME,
+    "teacherId" TEXT,
+    "sessionId" TEXT,
+    "studentId" TEXT,
+    CONSTRAINT "AuthToken_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AuthToken_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AuthToken_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthToken_tokenHash_key" ON "AuthToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "AuthToken_teacherId_idx" ON "AuthToken"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "AuthToken_sessionId_idx" ON "AuthToken"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "AuthToken_studentId_idx" ON "AuthToken"("studentId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "isComplete" BOOLEAN NOT NULL DEFAULT true;
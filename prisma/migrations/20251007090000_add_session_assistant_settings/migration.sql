@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "assistantPersona" TEXT;
+ALTER TABLE "Session" ADD COLUMN "assistantSystemPrompt" TEXT;
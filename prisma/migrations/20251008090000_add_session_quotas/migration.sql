@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "imageLimit" INTEGER;
+ALTER TABLE "Session" ADD COLUMN "refinementLimit" INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE "Session" ADD COLUMN "threadLimit" INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE "Session" ADD COLUMN "messageLimit" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN "imageLimit" INTEGER;
+ALTER TABLE "Student" ADD COLUMN "refinementLimit" INTEGER;
+ALTER TABLE "Student" ADD COLUMN "threadLimit" INTEGER;
+ALTER TABLE "Student" ADD COLUMN "messageLimit" INTEGER;
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing base64 "imageData" rows are copied to the image store and cleared by the app on startup.
+ALTER TABLE "PromptSubmission" ADD COLUMN "imageKey" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "thumbnailKey" TEXT;
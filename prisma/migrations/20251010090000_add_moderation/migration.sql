@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "moderationBlocklist" TEXT;
+
+-- AlterTable
+ALTER TABLE "PromptSubmission" ADD COLUMN "moderationDecision" TEXT NOT NULL DEFAULT 'ALLOWED';
+ALTER TABLE "PromptSubmission" ADD COLUMN "moderationCategory" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "moderationReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "moderationDecision" TEXT NOT NULL DEFAULT 'ALLOWED';
+ALTER TABLE "ChatMessage" ADD COLUMN "moderationCategory" TEXT;
+ALTER TABLE "ChatMessage" ADD COLUMN "moderationReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ModerationRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    CONSTRAINT "ModerationRule_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ModerationLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "studentId" TEXT,
+    "source" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "category" TEXT,
+    "reason" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ModerationLog_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ModerationLog_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ModerationRule_sessionId_category_key" ON "ModerationRule"("sessionId", "category");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_sessionId_createdAt_idx" ON "ModerationLog"("sessionId", "createdAt");
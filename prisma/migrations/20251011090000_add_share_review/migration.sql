@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "requireShareApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PromptSubmission" ADD COLUMN "shareStatus" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "shareReviewNote" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "shareRequestedAt" DATETIME;
+ALTER TABLE "PromptSubmission" ADD COLUMN "shareReviewedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "PromptSubmission_sessionId_shareStatus_idx" ON "PromptSubmission"("sessionId", "shareStatus");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Student" ADD COLUMN "displayName" TEXT;
@@ -0,0 +1,78 @@
+-- CreateTable
+CREATE TABLE "ClassRoster" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "teacherId" TEXT NOT NULL,
+    CONSTRAINT "ClassRoster_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "StudentAccount" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "username" TEXT NOT NULL,
+    "displayName" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rosterId" TEXT NOT NULL,
+    CONSTRAINT "StudentAccount_rosterId_fkey" FOREIGN KEY ("rosterId") REFERENCES "ClassRoster" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "joinCode" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" DATETIME,
+    "assistantPersona" TEXT,
+    "assistantSystemPrompt" TEXT,
+    "imageLimit" INTEGER,
+    "refinementLimit" INTEGER NOT NULL DEFAULT 2,
+    "threadLimit" INTEGER NOT NULL DEFAULT 5,
+    "messageLimit" INTEGER,
+    "moderationBlocklist" TEXT,
+    "requireShareApproval" BOOLEAN NOT NULL DEFAULT false,
+    "teacherId" TEXT,
+    "rosterId" TEXT,
+    CONSTRAINT "Session_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Session_rosterId_fkey" FOREIGN KEY ("rosterId") REFERENCES "ClassRoster" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Session" ("assistantPersona", "assistantSystemPrompt", "createdAt", "endedAt", "id", "imageLimit", "isActive", "joinCode", "messageLimit", "moderationBlocklist", "passwordHash", "refinementLimit", "requireShareApproval", "teacherId", "threadLimit") SELECT "assistantPersona", "assistantSystemPrompt", "createdAt", "endedAt", "id", "imageLimit", "isActive", "joinCode", "messageLimit", "moderationBlocklist", "passwordHash", "refinementLimit", "requireShareApproval", "teacherId", "threadLimit" FROM "Session";
+DROP TABLE "Session";
+ALTER TABLE "new_Session" RENAME TO "Session";
+CREATE UNIQUE INDEX "Session_joinCode_key" ON "Session"("joinCode");
+CREATE INDEX "Session_teacherId_idx" ON "Session"("teacherId");
+CREATE INDEX "Session_rosterId_idx" ON "Session"("rosterId");
+CREATE TABLE "new_Student" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "username" TEXT NOT NULL,
+    "displayName" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "lockedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "imageLimit" INTEGER,
+    "refinementLimit" INTEGER,
+    "threadLimit" INTEGER,
+    "messageLimit" INTEGER,
+    "sessionId" TEXT NOT NULL,
+    "accountId" TEXT,
+    CONSTRAINT "Student_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Student_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "StudentAccount" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Student" ("createdAt", "displayName", "id", "imageLimit", "lockedAt", "messageLimit", "passwordHash", "refinementLimit", "sessionId", "threadLimit", "username") SELECT "createdAt", "displayName", "id", "imageLimit", "lockedAt", "messageLimit", "passwordHash", "refinementLimit", "sessionId", "threadLimit", "username" FROM "Student";
+DROP TABLE "Student";
+ALTER TABLE "new_Student" RENAME TO "Student";
+CREATE UNIQUE INDEX "Student_sessionId_username_key" ON "Student"("sessionId", "username");
+CREATE INDEX "Student_accountId_idx" ON "Student"("accountId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ClassRoster_teacherId_idx" ON "ClassRoster"("teacherId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StudentAccount_rosterId_username_key" ON "StudentAccount"("rosterId", "username");
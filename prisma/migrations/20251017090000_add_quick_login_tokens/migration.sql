@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "QuickLoginToken" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tokenHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME NOT NULL,
+    "usedAt" DATETIME,
+    "studentId" TEXT NOT NULL,
+    CONSTRAINT "QuickLoginToken_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "Student" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuickLoginToken_tokenHash_key" ON "QuickLoginToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "QuickLoginToken_studentId_idx" ON "QuickLoginToken"("studentId");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "RateLimitEntry" (
+    "key" TEXT NOT NULL PRIMARY KEY,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "windowStartedAt" DATETIME NOT NULL,
+    "lockedUntil" DATETIME,
+    "lockouts" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "FailedLogin" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT NOT NULL,
+    "username" TEXT,
+    "ipAddress" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    CONSTRAINT "FailedLogin_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitEntry_updatedAt_idx" ON "RateLimitEntry"("updatedAt");
+
+-- CreateIndex
+CREATE INDEX "FailedLogin_sessionId_createdAt_idx" ON "FailedLogin"("sessionId", "createdAt");
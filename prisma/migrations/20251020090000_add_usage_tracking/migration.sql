@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "budgetUsd" REAL;
+
+-- AlterTable
+ALTER TABLE "PromptSubmission" ADD COLUMN "promptTokens" INTEGER;
+ALTER TABLE "PromptSubmission" ADD COLUMN "completionTokens" INTEGER;
+ALTER TABLE "PromptSubmission" ADD COLUMN "costUsd" REAL;
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "promptTokens" INTEGER;
+ALTER TABLE "ChatMessage" ADD COLUMN "completionTokens" INTEGER;
+ALTER TABLE "ChatMessage" ADD COLUMN "costUsd" REAL;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "stylePresets" TEXT;
+
+-- AlterTable
+ALTER TABLE "PromptSubmission" ADD COLUMN "aspectRatio" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "stylePreset" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "stylePrompt" TEXT;
+ALTER TABLE "PromptSubmission" ADD COLUMN "variantIndex" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "PromptSubmission" ADD COLUMN "variantCount" INTEGER NOT NULL DEFAULT 1;
@@ -2,95 +2,39 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { getSessionFromCookies } from '@/lib/session';
+import { getStudentAllowance, LOCKED_MESSAGE } from '@/lib/quotas';
+import { BUDGET_MESSAGE, ModelUsage, usageFields } from '@/lib/usage';
+import { logModeration, moderateText, moderationFields } from '@/lib/moderation';
+import { publishLiveEvent } from '@/lib/liveEvents';
+import { callChatCompletion, ChatHistoryEntry, ChatStreamError, streamChatCompletion } from '@/lib/chat';
 
 const messageSchema = z.object({
   content: z.string().trim().min(1, 'Message cannot be empty').max(4000, 'Message is too long'),
+  stream: z.boolean().optional(),
 });
 
-const CHAT_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
 const MAX_HISTORY_MESSAGES = 20;
 
-function toOpenRouterMessages(history: Array<{ sender: 'STUDENT' | 'AI'; content: string }>) {
-  return history.map((entry) => ({
-    role: entry.sender === 'STUDENT' ? 'user' : 'assistant',
-    content: entry.content,
-  }));
+type SavedMessage = {
+  id: string;
+  content: string;
+  sender: 'STUDENT' | 'AI';
+  isComplete: boolean;
+  createdAt: Date;
+};
+
+function serializeMessage(message: SavedMessage) {
+  return {
+    id: message.id,
+    content: message.content,
+    sender: message.sender,
+    isComplete: message.isComplete,
+    createdAt: message.createdAt,
+  };
 }
 
-function extractTextFromChoiceMessage(message: unknown) {
-  if (!message || typeof message !== 'object') {
-    return null;
-  }
-
-  // @ts-expect-error -- dynamic structure from OpenRouter
-  const content = message.content;
-  if (typeof content === 'string') {
-    return content.trim();
-  }
-  if (Array.isArray(content)) {
-    const text = content
-      .map((part) => {
-        if (!part) return '';
-        if (typeof part === 'string') return part;
-        if (typeof part.text === 'string') return part.text;
-        if (typeof part.content === 'string') return part.content;
-        if (typeof part.value === 'string') return part.value;
-        return '';
-      })
-      .join(' ')
-      .trim();
-    return text.length > 0 ? text : null;
-  }
-  // Some providers return { text: "..." }
-  // @ts-expect-error dynamic property access
-  if (typeof message.text === 'string') {
-    // @ts-expect-error dynamic property access
-    return message.text.trim();
-  }
-
-  return null;
-}
-
-async function callChatCompletion(history: Array<{ sender: 'STUDENT' | 'AI'; content: string }>) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in your environment.');
-  }
-
-  const model = process.env.OPENROUTER_CHAT_MODEL || process.env.OPENROUTER_MODEL || 'google/gemini-2.5-flash-preview-09-2025';
-
-  const response = await fetch(CHAT_ENDPOINT, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000',
-      'X-Title': 'Classroom Assistant Chat',
-    },
-    body: JSON.stringify({
-      model,
-      messages: toOpenRouterMessages(history),
-      modality: 'text',
-      modalities: ['text'],
-      top_p: 0.9,
-    }),
-  });
-
-  const result = await response.json();
-
-  if (!response.ok) {
-    console.error('OpenRouter chat completion error', result);
-    const message = result?.error?.message ?? 'OpenRouter request failed';
-    throw new Error(message);
-  }
-
-  const choice = result?.choices?.[0]?.message;
-  const aiText = extractTextFromChoiceMessage(choice);
-  if (!aiText || aiText.length === 0) {
-    throw new Error('OpenRouter returned an empty response');
-  }
-
-  return aiText;
+function sseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
 export async function GET(_: Request, context: unknown) {
@@ -118,6 +62,7 @@ export async function GET(_: Request, context: unknown) {
           id: true,
           content: true,
           sender: true,
+          isComplete: true,
           createdAt: true,
         },
       },
@@ -135,12 +80,7 @@ export async function GET(_: Request, context: unknown) {
       createdAt: thread.createdAt,
       updatedAt: thread.updatedAt,
     },
-    messages: thread.messages.map((message) => ({
-      id: message.id,
-      content: message.content,
-      sender: message.sender,
-      createdAt: message.createdAt,
-    })),
+    messages: thread.messages.map(serializeMessage),
   });
 }
 
@@ -166,16 +106,39 @@ export async function POST(request: Request, context: unknown) {
     }
 
     const json = await request.json();
-    const { content } = messageSchema.parse(json);
+    const { content, stream } = messageSchema.parse(json);
+
+    const allowance = await getStudentAllowance(sessionId, studentId);
+    if (allowance?.locked) {
+      return NextResponse.json({ message: LOCKED_MESSAGE }, { status: 403 });
+    }
+    if (allowance?.budgetReached) {
+      return NextResponse.json({ message: BUDGET_MESSAGE }, { status: 403 });
+    }
+    if (!allowance || allowance.messages.remaining === 0) {
+      return NextResponse.json({ message: 'You have used all of your chat messages for this session.' }, { status: 400 });
+    }
+
+    const moderation = await moderateText(sessionId, content, 'CHAT_MESSAGE');
+    await logModeration({ sessionId, studentId, source: 'CHAT_MESSAGE', content, result: moderation });
+
+    if (moderation.decision === 'BLOCKED') {
+      return NextResponse.json(
+        { message: moderation.studentMessage, moderation: { category: moderation.category } },
+        { status: 422 },
+      );
+    }
 
     const studentMessage = await prisma.chatMessage.create({
       data: {
         content,
+        ...moderationFields(moderation),
         sender: 'STUDENT',
         threadId,
         studentId,
       },
     });
+    publishLiveEvent(sessionId, { type: 'chat', threadId, studentId });
 
     const history = await prisma.chatMessage.findMany({
       where: { threadId },
@@ -183,33 +146,89 @@ export async function POST(request: Request, context: unknown) {
       take: MAX_HISTORY_MESSAGES,
     });
 
-    const orderedHistory = history.reverse();
-
-    const aiResponseText = await callChatCompletion(orderedHistory.map((message) => ({
+    const orderedHistory: ChatHistoryEntry[] = history.reverse().map((message) => ({
       sender: message.sender,
       content: message.content,
-    })));
+    }));
+
+    const assistantSettings = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { assistantPersona: true, assistantSystemPrompt: true },
+    }) ?? {};
+
+    const saveAiMessage = async (text: string, isComplete: boolean, usage?: ModelUsage | null) => {
+      const aiMessage = await prisma.chatMessage.create({
+        data: {
+          content: text,
+          sender: 'AI',
+          isComplete,
+          ...usageFields(usage),
+          threadId,
+        },
+      });
+
+      await prisma.chatThread.update({
+        where: { id: threadId },
+        data: { updatedAt: new Date() },
+      });
+      publishLiveEvent(sessionId, { type: 'chat', threadId, studentId });
+
+      return aiMessage;
+    };
+
+    if (stream) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let open = true;
+          const send = (event: string, data: unknown) => {
+            if (!open) return;
+            try {
+              controller.enqueue(encoder.encode(sseEvent(event, data)));
+            } catch {
+              // The student closed the tab; keep consuming the model so the reply is still saved.
+              open = false;
+            }
+          };
+
+          send('student', serializeMessage(studentMessage));
+          try {
+            const reply = await streamChatCompletion(orderedHistory, assistantSettings, (text) => send('delta', { text }));
+            const aiMessage = await saveAiMessage(reply.text, true, reply.usage);
+            send('done', serializeMessage(aiMessage));
+          } catch (streamError) {
+            console.error('Chat stream failed', streamError);
+            const message = streamError instanceof Error ? streamError.message : 'Unable to finish the reply';
+            const partialText = streamError instanceof ChatStreamError ? streamError.partialText : '';
+            const usage = streamError instanceof ChatStreamError ? streamError.usage : null;
+            const partial = partialText.length > 0 ? await saveAiMessage(partialText, false, usage) : null;
+            if (!partial && usage) {
+              // Nothing to show, but the call was billed; the student's message carries its cost instead.
+              await prisma.chatMessage.update({ where: { id: studentMessage.id }, data: usageFields(usage) });
+            }
+            send('error', { message, partial: partial ? serializeMessage(partial) : null });
+          } finally {
+            if (open) {
+              controller.close();
+            }
+          }
+        },
+      });
 
-    const aiMessage = await prisma.chatMessage.create({
-      data: {
-        content: aiResponseText,
-        sender: 'AI',
-        threadId,
-      },
-    });
+      return new Response(body, {
+        headers: {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+        },
+      });
+    }
 
-    await prisma.chatThread.update({
-      where: { id: threadId },
-      data: { updatedAt: new Date() },
-    });
+    const reply = await callChatCompletion(orderedHistory, assistantSettings);
+    const aiMessage = await saveAiMessage(reply.text, true, reply.usage);
 
     return NextResponse.json({
-      messages: [studentMessage, aiMessage].map((message) => ({
-        id: message.id,
-        content: message.content,
-        sender: message.sender,
-        createdAt: message.createdAt,
-      })),
+      messages: [studentMessage, aiMessage].map(serializeMessage),
     });
   } catch (error) {
     console.error('Failed to send chat message', error);
@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { getSessionFromCookies } from '@/lib/session';
-
-const MAX_THREADS_PER_STUDENT = 5;
+import { getStudentAllowance, LOCKED_MESSAGE } from '@/lib/quotas';
+import { BUDGET_MESSAGE } from '@/lib/usage';
+import { publishLiveEvent } from '@/lib/liveEvents';
 
 const createSchema = z.object({
   title: z.string().trim().max(80).optional(),
@@ -30,7 +31,16 @@ export async function GET() {
     },
   });
 
+  const [session, allowance] = await Promise.all([
+    prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { assistantPersona: true },
+    }),
+    getStudentAllowance(sessionId, studentId),
+  ]);
+
   return NextResponse.json({
+    assistantPersona: session?.assistantPersona ?? null,
     threads: threads.map((thread) => ({
       id: thread.id,
       title: thread.title,
@@ -39,7 +49,8 @@ export async function GET() {
       latestMessage: thread.messages[0]?.content ?? null,
       messageCount: thread._count.messages,
     })),
-    limit: MAX_THREADS_PER_STUDENT,
+    limit: allowance?.threads.limit ?? 0,
+    allowance,
   });
 }
 
@@ -54,15 +65,18 @@ export async function POST(request: Request) {
     const json = await request.json().catch(() => ({}));
     const { title } = createSchema.parse(json);
 
-    const threadCount = await prisma.chatThread.count({
-      where: { sessionId, studentId },
-    });
-
-    if (threadCount >= MAX_THREADS_PER_STUDENT) {
+    const allowance = await getStudentAllowance(sessionId, studentId);
+    if (allowance?.locked) {
+      return NextResponse.json({ message: LOCKED_MESSAGE }, { status: 403 });
+    }
+    if (allowance?.budgetReached) {
+      return NextResponse.json({ message: BUDGET_MESSAGE }, { status: 403 });
+    }
+    if (!allowance || allowance.threads.remaining === 0) {
       return NextResponse.json({ message: 'You have reached the chat limit for this session.' }, { status: 400 });
     }
 
-    const threadTitle = title && title.length > 0 ? title : `Conversation ${threadCount + 1}`;
+    const threadTitle = title && title.length > 0 ? title : `Conversation ${allowance.threads.used + 1}`;
 
     const thread = await prisma.chatThread.create({
       data: {
@@ -74,6 +88,7 @@ export async function POST(request: Request) {
         _count: { select: { messages: true } },
       },
     });
+    publishLiveEvent(sessionId, { type: 'chat', threadId: thread.id, studentId });
 
     return NextResponse.json({
       thread: {
@@ -84,7 +99,8 @@ export async function POST(request: Request) {
         latestMessage: null,
         messageCount: thread._count.messages,
       },
-      limit: MAX_THREADS_PER_STUDENT,
+      limit: allowance.threads.limit,
+      allowance: await getStudentAllowance(sessionId, studentId),
     });
   } catch (error) {
     console.error('Failed to create chat thread', error);
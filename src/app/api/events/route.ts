@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { LiveEvent, subscribeLiveEvents } from '@/lib/liveEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Proxies drop idle connections, so a comment line goes out well inside the usual 60 second timeout.
+const HEARTBEAT_MS = 25000;
+
+function sseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: Request) {
+  const { sessionId, role, studentId } = await getSessionFromCookies();
+
+  if (!sessionId || !role) {
+    return NextResponse.json({ message: 'Join the classroom session first.' }, { status: 401 });
+  }
+
+  const isTeacher = role === 'teacher' && (await getTeacherSession()) !== null;
+  if (!isTeacher && !studentId) {
+    return NextResponse.json({ message: 'Join the classroom session first.' }, { status: 401 });
+  }
+
+  // Students only hear about their own images and the shared gallery, never about chats.
+  const forward = (event: LiveEvent) => {
+    if (isTeacher) {
+      return event;
+    }
+    if (event.type === 'submission' && (event.visibleToClass || event.studentId === studentId)) {
+      return { type: event.type, submissionId: event.submissionId };
+    }
+    return null;
+  };
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeLiveEvents(sessionId, (event) => {
+        const payload = forward(event);
+        if (payload) {
+          send(sseEvent(payload.type, payload));
+        }
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime.
+        }
+      });
+
+      send(sseEvent('ready', { role: isTeacher ? 'teacher' : 'student' }));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { ImageVariant, loadSubmissionImage } from '@/lib/images';
+import { getPortfolioStudentIds } from '@/lib/rosters';
+
+// Stored images never change after generation, so browsers may keep them for as long as they like.
+const IMMUTABLE_CACHE = 'private, max-age=31536000, immutable';
+// Rows still waiting to move out of the database get a thumbnail once they do.
+const LEGACY_CACHE = 'private, max-age=300';
+
+export async function GET(request: Request, context: unknown) {
+  const extracted = context as { params: { submissionId: string } | Promise<{ submissionId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { submissionId } = resolvedParams;
+  const { sessionId, role, studentId } = await getSessionFromCookies();
+
+  if (!role || (!sessionId && role !== 'teacher')) {
+    return NextResponse.json({ message: 'Join the classroom session first.' }, { status: 401 });
+  }
+
+  const submission = await prisma.promptSubmission.findUnique({
+    where: { id: submissionId },
+    select: {
+      id: true,
+      sessionId: true,
+      studentId: true,
+      status: true,
+      isShared: true,
+      imageKey: true,
+      thumbnailKey: true,
+      imageMimeType: true,
+      imageData: true,
+    },
+  });
+
+  // Teachers can open images from any session they own, so archived sessions keep their pictures.
+  const isOwningTeacher = role === 'teacher' && submission !== null && (await getTeacherSession(submission.sessionId)) !== null;
+  const canViewInSession = submission
+    && (isOwningTeacher
+      || (submission.sessionId === sessionId
+        && ((studentId !== undefined && submission.studentId === studentId)
+          || (submission.isShared && submission.status === 'SUCCESS'))));
+  // Roster students can open their own images from earlier sessions in their portfolio.
+  const canView = canViewInSession
+    || (submission?.studentId && role === 'student' && studentId
+      && (await getPortfolioStudentIds(studentId)).includes(submission.studentId));
+
+  if (!submission || !canView) {
+    return NextResponse.json({ message: 'Image not found.' }, { status: 404 });
+  }
+
+  const variant: ImageVariant = new URL(request.url).searchParams.get('size') === 'thumbnail' ? 'thumbnail' : 'original';
+  const isLegacy = submission.imageKey === null;
+  const etag = `"${submission.id}-${variant}${isLegacy ? '-inline' : ''}"`;
+  const cacheControl = isLegacy ? LEGACY_CACHE : IMMUTABLE_CACHE;
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag, 'Cache-Control': cacheControl } });
+  }
+
+  const image = await loadSubmissionImage(submission, variant);
+  if (!image) {
+    return NextResponse.json({ message: 'Image not found.' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(image.data), {
+    headers: {
+      'Content-Type': image.contentType,
+      'Content-Length': String(image.data.length),
+      'Cache-Control': cacheControl,
+      ETag: etag,
+    },
+  });
+}
@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { GenerationJobStatus, SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { startGenerationWorker } from '@/lib/generationQueue';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { publishLiveEvent } from '@/lib/liveEvents';
+import { hasStoredImage } from '@/lib/images';
+import { countChainImages, getStudentAllowance, LOCKED_MESSAGE, remainingRefinements } from '@/lib/quotas';
+import { BUDGET_MESSAGE, isBudgetReached, TEACHER_BUDGET_MESSAGE } from '@/lib/usage';
+
+/**
+ * Queues a failed submission again with its stored prompt and parent image. The same row is reused,
+ * so the chain keeps its shape; failed images are not counted, so the retry is checked against the
+ * image and refinement allowances like a new request.
+ */
+export async function POST(_: Request, context: unknown) {
+  const extracted = context as { params: { submissionId: string } | Promise<{ submissionId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { submissionId } = resolvedParams;
+
+  try {
+    const { sessionId, role, studentId } = await getSessionFromCookies();
+    const isTeacher = role === 'teacher' && (await getTeacherSession()) !== null;
+    const ownerStudentId = isTeacher ? null : studentId ?? null;
+
+    if (!sessionId || (!isTeacher && (role !== 'student' || !ownerStudentId))) {
+      return NextResponse.json({ message: 'Join the classroom session first.' }, { status: 403 });
+    }
+
+    const submission = await prisma.promptSubmission.findUnique({
+      where: { id: submissionId },
+      select: {
+        id: true,
+        sessionId: true,
+        role: true,
+        studentId: true,
+        status: true,
+        isShared: true,
+        rootSubmissionId: true,
+        parentSubmission: {
+          select: { id: true, imageKey: true, imageData: true },
+        },
+      },
+    });
+
+    // Teachers retry their own demos; students retry their own images.
+    const ownsSubmission = isTeacher ? submission?.role === 'TEACHER' : submission?.studentId === ownerStudentId;
+    if (!submission || submission.sessionId !== sessionId || !ownsSubmission) {
+      return NextResponse.json({ message: 'Submission not found.' }, { status: 404 });
+    }
+
+    if (submission.status !== SubmissionStatus.ERROR) {
+      return NextResponse.json({ message: 'Only failed images can be retried.' }, { status: 409 });
+    }
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, isActive: true },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ message: 'Session expired. Please ask the teacher to restart.' }, { status: 403 });
+    }
+
+    const allowance = ownerStudentId ? await getStudentAllowance(sessionId, ownerStudentId) : null;
+
+    if (ownerStudentId) {
+      if (!allowance) {
+        return NextResponse.json({ message: 'Session expired. Please ask the teacher to restart.' }, { status: 403 });
+      }
+
+      if (allowance.locked) {
+        return NextResponse.json({ message: LOCKED_MESSAGE }, { status: 403 });
+      }
+
+      if (allowance.budgetReached) {
+        return NextResponse.json({ message: BUDGET_MESSAGE }, { status: 403 });
+      }
+
+      if (allowance.images.remaining === 0) {
+        return NextResponse.json({ message: 'You have used all of your images for this session.' }, { status: 400 });
+      }
+    } else if (await isBudgetReached(sessionId)) {
+      return NextResponse.json({ message: TEACHER_BUDGET_MESSAGE }, { status: 403 });
+    }
+
+    let revisionIndex = 0;
+
+    // Images started from a teacher demo have a parent but begin their own chain.
+    if (submission.parentSubmission && !hasStoredImage(submission.parentSubmission)) {
+      return NextResponse.json({ message: 'Original image data is unavailable for refinement.' }, { status: 422 });
+    }
+
+    if (submission.rootSubmissionId) {
+      const chainCount = await countChainImages(submission.rootSubmissionId);
+
+      if (allowance && remainingRefinements(allowance.refinementLimit, chainCount) === 0) {
+        return NextResponse.json({ message: 'This image has no refinements remaining.' }, { status: 400 });
+      }
+
+      // Other refinements may have taken this position while the submission sat failed.
+      revisionIndex = chainCount;
+    }
+
+    // The status guard keeps a double click from queueing the same submission twice.
+    const claimed = await prisma.promptSubmission.updateMany({
+      where: { id: submission.id, status: SubmissionStatus.ERROR },
+      data: { status: SubmissionStatus.PENDING, errorMessage: null, revisionIndex },
+    });
+
+    if (claimed.count === 0) {
+      return NextResponse.json({ message: 'This image is already being retried.' }, { status: 409 });
+    }
+
+    await prisma.generationJob.upsert({
+      where: { submissionId: submission.id },
+      create: { submissionId: submission.id },
+      update: {
+        status: GenerationJobStatus.QUEUED,
+        attempts: 0,
+        runAfter: new Date(),
+        startedAt: null,
+        finishedAt: null,
+        lastError: null,
+      },
+    });
+
+    startGenerationWorker();
+    publishLiveEvent(sessionId, {
+      type: 'submission',
+      submissionId: submission.id,
+      studentId: submission.studentId,
+      visibleToClass: submission.isShared,
+    });
+
+    return NextResponse.json(
+      { submission: { id: submission.id, status: SubmissionStatus.PENDING, revisionIndex } },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error('Failed to retry image generation', error);
+    return NextResponse.json({ message: 'Unable to retry this image' }, { status: 500 });
+  }
+}
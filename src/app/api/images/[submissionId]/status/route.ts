@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { startGenerationWorker } from '@/lib/generationQueue';
+
+export async function GET(_: Request, context: unknown) {
+  const extracted = context as { params: { submissionId: string } | Promise<{ submissionId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { submissionId } = resolvedParams;
+  const { sessionId, role, studentId } = await getSessionFromCookies();
+
+  if (!sessionId || !role) {
+    return NextResponse.json({ message: 'Join the classroom session first.' }, { status: 401 });
+  }
+
+  const submission = await prisma.promptSubmission.findUnique({
+    where: { id: submissionId },
+    select: {
+      id: true,
+      sessionId: true,
+      studentId: true,
+      status: true,
+      errorMessage: true,
+      createdAt: true,
+      generationJob: {
+        select: {
+          status: true,
+          attempts: true,
+          startedAt: true,
+          finishedAt: true,
+        },
+      },
+    },
+  });
+
+  const isTeacher = role === 'teacher' && (await getTeacherSession()) !== null;
+  const canView = submission
+    && submission.sessionId === sessionId
+    && (isTeacher || (studentId !== undefined && submission.studentId === studentId));
+
+  if (!submission || !canView) {
+    return NextResponse.json({ message: 'Submission not found.' }, { status: 404 });
+  }
+
+  if (submission.status === 'PENDING') {
+    // Polling doubles as a nudge for the worker in case this process has not started it yet.
+    startGenerationWorker();
+  }
+
+  return NextResponse.json({
+    submission: {
+      id: submission.id,
+      status: submission.status,
+      errorMessage: submission.errorMessage,
+      createdAt: submission.createdAt,
+      job: submission.generationJob,
+    },
+  });
+}
@@ -1,245 +1,108 @@
 import { NextResponse } from 'next/server';
-import { Buffer } from 'node:buffer';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
-import { SubmissionStatus } from '@prisma/client';
+import { startGenerationWorker } from '@/lib/generationQueue';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { publishLiveEvent } from '@/lib/liveEvents';
+import { hasStoredImage } from '@/lib/images';
+import { logModeration, moderateText, moderationFields } from '@/lib/moderation';
+import { countChainImages, getStudentAllowance, LOCKED_MESSAGE, remainingRefinements } from '@/lib/quotas';
+import { BUDGET_MESSAGE, isBudgetReached, TEACHER_BUDGET_MESSAGE } from '@/lib/usage';
+import { DEFAULT_ASPECT_RATIO, generationOptionsSchema, readStylePresets } from '@/lib/generationOptions';
+
+const bodySchema = z
+  .object({
+    prompt: z.string().min(5, 'Please write a longer prompt to help the AI.'),
+    parentSubmissionId: z.string().optional(),
+  })
+  .extend(generationOptionsSchema.shape);
 
-const bodySchema = z.object({
-  prompt: z.string().min(5, 'Please write a longer prompt to help the AI.'),
-  parentSubmissionId: z.string().optional(),
-});
-
-const CHAT_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
-const IMAGE_ENDPOINT = 'https://openrouter.ai/api/v1/images';
-
-type CallOptions = {
-  baseImageDataUrl?: string;
-};
+export async function POST(request: Request) {
+  const { sessionId, role, studentId } = await getSessionFromCookies();
 
-function isChatModel(model: string) {
-  const normalized = model.toLowerCase();
-  return normalized.includes('gemini') || normalized.includes('chat') || normalized.startsWith('google/');
-}
+  if (!sessionId || !role) {
+    return NextResponse.json({ message: 'Join the classroom session before generating images.' }, { status: 401 });
+  }
 
-type OpenRouterImage = string | { url?: string; data_url?: string };
+  // Teachers generate demo images from the dashboard; they are shared with the class as they finish.
+  const isTeacher = role === 'teacher' && (await getTeacherSession()) !== null;
+  const ownerStudentId = isTeacher ? null : studentId ?? null;
 
-type OpenRouterContentItem =
-  | { type?: 'image_url'; image_url?: OpenRouterImage }
-  | { type?: 'output_image'; image_url?: string; data?: string }
-  | { type?: string; url?: string; data?: string };
+  if (!isTeacher && (role !== 'student' || !ownerStudentId)) {
+    return NextResponse.json({ message: 'Only students and teachers can generate images.' }, { status: 403 });
+  }
 
-type OpenRouterMessage = {
-  images?: Array<{ image_url?: OpenRouterImage }>;
-  content?: OpenRouterContentItem[];
-};
+  const body = await request.json();
 
-function extractDataUrlFromMessage(message: unknown) {
-  const msg = (message ?? {}) as OpenRouterMessage;
-  const directImage = msg.images?.[0]?.image_url;
+  try {
+    const { prompt, parentSubmissionId, aspectRatio, stylePresetId, variants } = bodySchema.parse(body);
 
-  if (typeof directImage === 'string') {
-    return directImage;
-  }
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, isActive: true },
+    });
 
-  if (directImage && typeof directImage === 'object') {
-    const nested = directImage.url ?? directImage.data_url;
-    if (typeof nested === 'string') {
-      return nested;
+    if (!session) {
+      return NextResponse.json({ message: 'Session expired. Please ask the teacher to restart.' }, { status: 403 });
     }
-  }
 
-  const content = Array.isArray(msg.content) ? msg.content : [];
-  for (const item of content) {
-    if (item?.type === 'image_url' && 'image_url' in item) {
-      const imageUrl = item.image_url;
-      if (typeof imageUrl === 'string') {
-        return imageUrl;
-      }
-      if (imageUrl && typeof imageUrl === 'object') {
-        const url = imageUrl.url ?? (imageUrl as { data_url?: string }).data_url;
-        if (typeof url === 'string') {
-          return url;
-        }
-      }
-    }
+    const allowance = ownerStudentId ? await getStudentAllowance(sessionId, ownerStudentId) : null;
 
-    if (item?.type === 'output_image') {
-      if ('image_url' in item && typeof item.image_url === 'string') {
-        return item.image_url;
+    if (ownerStudentId) {
+      if (!allowance) {
+        return NextResponse.json({ message: 'Session expired. Please ask the teacher to restart.' }, { status: 403 });
       }
-      if ('data' in item && typeof item.data === 'string') {
-        return item.data.startsWith('data:') ? item.data : `data:image/png;base64,${item.data}`;
-      }
-    }
-
-    if ('url' in item && typeof item.url === 'string') {
-      return item.url;
-    }
 
-    if ('data' in item && typeof item.data === 'string') {
-      if (item.data.startsWith('data:')) {
-        return item.data;
-      }
-      if (/^[A-Za-z0-9+/=]+$/.test(item.data)) {
-        return `data:image/png;base64,${item.data}`;
+      if (allowance.locked) {
+        return NextResponse.json({ message: LOCKED_MESSAGE }, { status: 403 });
       }
-    }
 
-    if (item && typeof item === 'object' && 'image_url' in item) {
-      const urlValue = (item as { image_url?: string }).image_url;
-      if (typeof urlValue === 'string') {
-        return urlValue;
+      if (allowance.budgetReached) {
+        return NextResponse.json({ message: BUDGET_MESSAGE }, { status: 403 });
       }
-    }
-  }
-  return null;
-}
 
-async function fetchImageAsBase64(urlOrDataUrl: string) {
-  if (urlOrDataUrl.startsWith('data:')) {
-    const [, meta, data] = urlOrDataUrl.match(/^data:([^;,]+)?(?:;base64)?,(.+)$/) ?? [];
-    if (!data) {
-      throw new Error('Invalid data URL in OpenRouter response');
-    }
-    const mimeType = meta || 'image/png';
-    const imageData = urlOrDataUrl.includes(';base64,') ? data : Buffer.from(decodeURIComponent(data)).toString('base64');
-    return { imageData, mimeType };
-  }
-
-  const response = await fetch(urlOrDataUrl);
-  if (!response.ok) {
-    throw new Error('Failed to download image from OpenRouter response');
-  }
-  const buffer = Buffer.from(await response.arrayBuffer()).toString('base64');
-  const mimeType = response.headers.get('content-type') ?? 'image/png';
-  return { imageData: buffer, mimeType };
-}
-
-async function callOpenRouter(prompt: string, options: CallOptions = {}) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in your environment.');
-  }
-
-  const model = process.env.OPENROUTER_IMAGE_MODEL || process.env.OPENROUTER_MODEL || 'openai/gpt-image-1';
-  const headers = {
-    Authorization: `Bearer ${apiKey}`,
-    'Content-Type': 'application/json',
-    'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000',
-    'X-Title': 'Classroom Image Generator',
-  };
-
-  if (isChatModel(model)) {
-    const messages = options.baseImageDataUrl
-      ? [{
-          role: 'user',
-          content: [
-            { type: 'text', text: prompt },
-            { type: 'image_url', image_url: { url: options.baseImageDataUrl } },
-          ],
-        }]
-      : [{ role: 'user', content: prompt }];
-
-    const response = await fetch(CHAT_ENDPOINT, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        model,
-        messages,
-        modalities: ['image', 'text'],
-      }),
-    });
-
-    const result = await response.json();
+      if (allowance.images.remaining === 0) {
+        return NextResponse.json({ message: 'You have used all of your images for this session.' }, { status: 400 });
+      }
 
-    if (!response.ok) {
-      console.error('OpenRouter chat error', result);
-      const message = result?.error?.message ?? 'OpenRouter chat request failed';
-      throw new Error(message);
+      if (allowance.images.remaining !== null && allowance.images.remaining < variants) {
+        return NextResponse.json(
+          { message: `You only have ${allowance.images.remaining} images left. Ask for fewer variants.` },
+          { status: 400 },
+        );
+      }
+    } else if (await isBudgetReached(sessionId)) {
+      return NextResponse.json({ message: TEACHER_BUDGET_MESSAGE }, { status: 403 });
     }
 
-    const dataUrl = extractDataUrlFromMessage(result?.choices?.[0]?.message);
-    if (!dataUrl) {
-      throw new Error('OpenRouter did not return an image link');
+    let style: { label: string | null; prompt: string | null } = { label: null, prompt: null };
+    if (stylePresetId) {
+      const preset = readStylePresets(session.stylePresets).find((entry) => entry.id === stylePresetId);
+      if (!preset) {
+        return NextResponse.json({ message: 'That style is no longer available. Pick another one.' }, { status: 400 });
+      }
+      style = { label: preset.label, prompt: preset.prompt };
     }
 
-    return fetchImageAsBase64(dataUrl);
-  }
-
-  const response = await fetch(IMAGE_ENDPOINT, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({ model, prompt }),
-  });
-
-  const result = await response.json();
-
-  if (!response.ok) {
-    console.error('OpenRouter image error', result);
-    const message = result?.error?.message ?? 'OpenRouter request failed';
-    throw new Error(message);
-  }
-
-  const imagePayload = result?.data?.[0];
-  if (!imagePayload) {
-    throw new Error('OpenRouter did not return image data');
-  }
-
-  const base64 = imagePayload?.b64_json ?? imagePayload?.b64 ?? imagePayload?.image_base64;
-  const url = imagePayload?.url;
-
-  if (base64) {
-    const mimeType = imagePayload?.mime_type ?? 'image/png';
-    return { imageData: base64 as string, mimeType };
-  }
-
-  if (url) {
-    return fetchImageAsBase64(url as string);
-  }
-
-  throw new Error('OpenRouter response missing base64 or URL data');
-}
-
-export async function POST(request: Request) {
-  const { sessionId, role, studentId } = await getSessionFromCookies();
-
-  if (!sessionId || !role) {
-    return NextResponse.json({ message: 'Join the classroom session before generating images.' }, { status: 401 });
-  }
-
-  if (role !== 'student' || !studentId) {
-    return NextResponse.json({ message: 'Only students can generate images in this view.' }, { status: 403 });
-  }
-
-  const body = await request.json();
-
-  try {
-    const { prompt, parentSubmissionId } = bodySchema.parse(body);
-
-    const session = await prisma.session.findFirst({
-      where: { id: sessionId, isActive: true },
-    });
-
-    if (!session) {
-      return NextResponse.json({ message: 'Session expired. Please ask the teacher to restart.' }, { status: 403 });
-    }
+    let resolvedAspectRatio: string = aspectRatio ?? DEFAULT_ASPECT_RATIO;
 
     let rootSubmissionId: string | null = null;
     let revisionIndex = 0;
 
-    let baseImageDataUrl: string | undefined;
-
     if (parentSubmissionId) {
       const parent = await prisma.promptSubmission.findUnique({
         where: { id: parentSubmissionId },
         select: {
           id: true,
+          role: true,
           studentId: true,
           sessionId: true,
+          isShared: true,
           rootSubmissionId: true,
+          imageKey: true,
           imageData: true,
-          imageMimeType: true,
+          aspectRatio: true,
+          stylePreset: true,
+          stylePrompt: true,
         },
       });
 
@@ -247,79 +110,119 @@ export async function POST(request: Request) {
         return NextResponse.json({ message: 'Original image not found for this session.' }, { status: 404 });
       }
 
-      if (parent.studentId !== studentId) {
+      // Students may start from a teacher demo the class can see; otherwise everyone refines their own images.
+      const fromTeacherDemo = !isTeacher && parent.role === 'TEACHER';
+      if (fromTeacherDemo && !parent.isShared) {
+        return NextResponse.json({ message: 'Original image not found for this session.' }, { status: 404 });
+      }
+
+      const ownsParent = isTeacher ? parent.role === 'TEACHER' : parent.studentId === ownerStudentId;
+      if (!fromTeacherDemo && !ownsParent) {
         return NextResponse.json({ message: 'You can only refine images you created.' }, { status: 403 });
       }
 
-      if (!parent.imageData) {
+      if (!hasStoredImage(parent)) {
         return NextResponse.json({ message: 'Original image data is unavailable for refinement.' }, { status: 422 });
       }
 
-      const rootId = parent.rootSubmissionId ?? parent.id;
-      const chainCount = await prisma.promptSubmission.count({
-        where: {
-          sessionId,
-          OR: [{ id: rootId }, { rootSubmissionId: rootId }],
-          status: { in: [SubmissionStatus.PENDING, SubmissionStatus.SUCCESS] },
-        },
-      });
-
-      if (chainCount >= 3) {
-        return NextResponse.json({ message: 'This image has no refinements remaining.' }, { status: 400 });
+      // A refinement keeps the look of the image it starts from unless the student picks otherwise.
+      resolvedAspectRatio = aspectRatio ?? parent.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+      if (stylePresetId === undefined) {
+        style = { label: parent.stylePreset, prompt: parent.stylePrompt };
       }
 
-      rootSubmissionId = rootId;
-      revisionIndex = chainCount;
-      baseImageDataUrl = `data:${parent.imageMimeType ?? 'image/png'};base64,${parent.imageData}`;
+      // Starting from a demo opens a new chain owned by the student, so the demo's chain is not used up.
+      if (!fromTeacherDemo) {
+        const rootId = parent.rootSubmissionId ?? parent.id;
+        const chainCount = await countChainImages(rootId);
+
+        if (allowance) {
+          const refinementsLeft = remainingRefinements(allowance.refinementLimit, chainCount);
+          if (refinementsLeft === 0) {
+            return NextResponse.json({ message: 'This image has no refinements remaining.' }, { status: 400 });
+          }
+
+          if (refinementsLeft < variants) {
+            return NextResponse.json(
+              { message: `This image only has ${refinementsLeft} refinements left. Ask for fewer variants.` },
+              { status: 400 },
+            );
+          }
+        }
+
+        rootSubmissionId = rootId;
+        revisionIndex = chainCount;
+      }
     }
 
-    const submission = await prisma.promptSubmission.create({
-      data: {
-        sessionId,
-        prompt,
-        role: 'STUDENT',
-        studentId,
-        rootSubmissionId,
-        parentSubmissionId: parentSubmissionId ?? null,
-        revisionIndex,
-      },
-    });
+    // Teachers' demo prompts are not moderated; they are the ones setting the rules.
+    const moderation = ownerStudentId ? await moderateText(sessionId, prompt, 'IMAGE_PROMPT') : null;
+    if (moderation) {
+      await logModeration({ sessionId, studentId: ownerStudentId, source: 'IMAGE_PROMPT', content: prompt, result: moderation });
+    }
 
-    try {
-      const { imageData, mimeType } = await callOpenRouter(prompt, { baseImageDataUrl });
-      const updated = await prisma.promptSubmission.update({
-        where: { id: submission.id },
-        data: {
-          status: SubmissionStatus.SUCCESS,
-          imageData,
-          imageMimeType: mimeType,
-        },
-      });
+    if (moderation?.decision === 'BLOCKED') {
+      return NextResponse.json(
+        { message: moderation.studentMessage, moderation: { category: moderation.category } },
+        { status: 422 },
+      );
+    }
 
-      return NextResponse.json({
-        submission: {
-          id: updated.id,
-          prompt: updated.prompt,
-          createdAt: updated.createdAt,
-          imageData: updated.imageData,
-          imageMimeType: updated.imageMimeType,
-          revisionIndex: updated.revisionIndex,
-          parentSubmissionId: updated.parentSubmissionId,
-          rootSubmissionId: updated.rootSubmissionId ?? updated.id,
-          isShared: updated.isShared,
-        },
-      });
-    } catch (generationError) {
-      const message = generationError instanceof Error ? generationError.message : 'Image generation failed';
-      await prisma.promptSubmission.update({
-        where: { id: submission.id },
-        data: {
-          status: SubmissionStatus.ERROR,
-          errorMessage: message,
-        },
+    // Each variant is its own submission and job, so it counts, fails and retries on its own.
+    // Refinement variants take consecutive places in the chain; original variants each start a chain.
+    const submissions = await prisma.$transaction(
+      Array.from({ length: variants }, (_, variantIndex) =>
+        prisma.promptSubmission.create({
+          data: {
+            sessionId,
+            prompt,
+            ...(moderation ? moderationFields(moderation) : {}),
+            role: isTeacher ? 'TEACHER' : 'STUDENT',
+            studentId: ownerStudentId,
+            isShared: isTeacher,
+            rootSubmissionId,
+            parentSubmissionId: parentSubmissionId ?? null,
+            revisionIndex: rootSubmissionId ? revisionIndex + variantIndex : 0,
+            aspectRatio: resolvedAspectRatio,
+            stylePreset: style.label,
+            stylePrompt: style.prompt,
+            variantIndex,
+            variantCount: variants,
+            generationJob: { create: {} },
+          },
+        }),
+      ),
+    );
+
+    startGenerationWorker();
+    for (const submission of submissions) {
+      publishLiveEvent(sessionId, {
+        type: 'submission',
+        submissionId: submission.id,
+        studentId: ownerStudentId,
+        visibleToClass: submission.isShared,
       });
-      return NextResponse.json({ message }, { status: 502 });
     }
+
+    return NextResponse.json(
+      {
+        submissions: submissions.map((submission) => ({
+          id: submission.id,
+          prompt: submission.prompt,
+          createdAt: submission.createdAt,
+          status: submission.status,
+          revisionIndex: submission.revisionIndex,
+          parentSubmissionId: submission.parentSubmissionId,
+          rootSubmissionId: submission.rootSubmissionId ?? submission.id,
+          isShared: submission.isShared,
+          aspectRatio: submission.aspectRatio,
+          stylePreset: submission.stylePreset,
+          variantIndex: submission.variantIndex,
+          variantCount: submission.variantCount,
+        })),
+      },
+      { status: 202 },
+    );
   } catch (error) {
     console.error('Image generation failed', error);
     if (error instanceof z.ZodError) {
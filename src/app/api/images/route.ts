@@ -1,13 +1,18 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
+import { getSessionFromCookies, getTeacherSession } from '@/lib/session';
+import { countChainImagesByRoot, getStudentAllowance, remainingRefinements } from '@/lib/quotas';
+import { getSubmissionImageUrls } from '@/lib/images';
+import { parseSubmissionListQuery, submissionFilterWhere, submissionPageArgs, toPage } from '@/lib/submissionQuery';
 import { Prisma } from '@prisma/client';
+import { readStylePresets } from '@/lib/generationOptions';
 
-export async function GET() {
+export async function GET(request: Request) {
   const { sessionId, role, studentId } = await getSessionFromCookies();
 
   if (!sessionId) {
-    return NextResponse.json({ submissions: [] });
+    return NextResponse.json({ submissions: [], nextCursor: null });
   }
 
   const session = await prisma.session.findUnique({
@@ -15,62 +20,116 @@ export async function GET() {
   });
 
   if (!session) {
-    return NextResponse.json({ submissions: [] });
+    return NextResponse.json({ submissions: [], nextCursor: null });
   }
 
-  const where: Prisma.PromptSubmissionWhereInput = { sessionId };
-  if (role !== 'teacher') {
-    where.status = 'SUCCESS';
+  let query;
+  try {
+    query = parseSubmissionListQuery(request.url);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid filters' }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const isTeacher = role === 'teacher' && (await getTeacherSession()) !== null;
+
+  const where: Prisma.PromptSubmissionWhereInput = { sessionId, ...submissionFilterWhere(query) };
+  if (!isTeacher) {
+    // Students see classmates' finished shared images plus all of their own, including ones still generating.
     where.OR = [
-      { isShared: true },
+      { isShared: true, status: 'SUCCESS' },
       studentId ? { studentId } : undefined,
     ].filter(Boolean) as Prisma.PromptSubmissionWhereInput[];
   }
 
-  const submissions = await prisma.promptSubmission.findMany({
+  const rows = await prisma.promptSubmission.findMany({
     where,
-    orderBy: { createdAt: 'desc' },
+    ...submissionPageArgs(query),
     select: {
       id: true,
       prompt: true,
+      role: true,
       createdAt: true,
       status: true,
-      imageData: true,
       imageMimeType: true,
+      imageKey: true,
+      thumbnailKey: true,
       revisionIndex: true,
       rootSubmissionId: true,
       parentSubmissionId: true,
       errorMessage: true,
       studentId: true,
       isShared: true,
+      shareStatus: true,
+      shareReviewNote: true,
+      aspectRatio: true,
+      stylePreset: true,
+      variantIndex: true,
+      variantCount: true,
       student: {
         select: {
           username: true,
+          displayName: true,
+          refinementLimit: true,
         },
       },
+      parentSubmission: { select: { role: true } },
     },
   });
 
-  const successCounts = new Map<string, number>();
-  for (const submission of submissions) {
-    if (submission.status !== 'SUCCESS') continue;
-    const rootId = submission.rootSubmissionId ?? submission.id;
-    successCounts.set(rootId, (successCounts.get(rootId) ?? 0) + 1);
-  }
+  const { items: submissions, nextCursor } = toPage(rows, query.limit);
+
+  // Counted across whole chains, not just this page, the same way the generate route counts them.
+  const chainCounts = await countChainImagesByRoot(
+    Array.from(new Set(submissions.map((submission) => submission.rootSubmissionId ?? submission.id))),
+  );
 
   const enriched = submissions.map((submission) => {
+    const ownedByCurrentUser = studentId ? submission.studentId === studentId : false;
+    // Review notes are between the teacher and the image's owner.
+    const canSeeReview = isTeacher || ownedByCurrentUser;
     const rootId = submission.rootSubmissionId ?? submission.id;
-    const successCount = successCounts.get(rootId) ?? (submission.status === 'SUCCESS' ? 1 : 0);
-    const remainingEdits = Math.max(0, 3 - successCount);
+    const refinementLimit = submission.student?.refinementLimit ?? session.refinementLimit;
+    const remainingEdits = remainingRefinements(refinementLimit, chainCounts.get(rootId) ?? 0);
     return {
-      ...submission,
+      id: submission.id,
+      prompt: submission.prompt,
+      role: submission.role,
+      createdAt: submission.createdAt,
+      status: submission.status,
+      imageMimeType: submission.imageMimeType,
+      ...getSubmissionImageUrls(submission),
+      revisionIndex: submission.revisionIndex,
+      rootSubmissionId: submission.rootSubmissionId,
+      parentSubmissionId: submission.parentSubmissionId,
+      errorMessage: submission.errorMessage,
+      studentId: submission.studentId,
       rootId,
       remainingEdits,
       isShared: submission.isShared,
-      ownedByCurrentUser: studentId ? submission.studentId === studentId : false,
+      shareStatus: canSeeReview ? submission.shareStatus : null,
+      shareReviewNote: canSeeReview ? submission.shareReviewNote : null,
+      aspectRatio: submission.aspectRatio,
+      stylePreset: submission.stylePreset,
+      variantIndex: submission.variantIndex,
+      variantCount: submission.variantCount,
+      startedFromTeacherDemo: submission.role === 'STUDENT' && submission.parentSubmission?.role === 'TEACHER',
+      ownedByCurrentUser,
       studentUsername: submission.student?.username ?? null,
+      studentDisplayName: submission.student?.displayName ?? null,
     };
   });
 
-  return NextResponse.json({ submissions: enriched, role });
+  const allowance = !isTeacher && studentId ? await getStudentAllowance(sessionId, studentId) : null;
+
+  return NextResponse.json({
+    submissions: enriched,
+    nextCursor,
+    role,
+    allowance,
+    requireShareApproval: session.requireShareApproval,
+    stylePresets: readStylePresets(session.stylePresets),
+  });
 }
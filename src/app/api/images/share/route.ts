@@ -2,7 +2,8 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { getSessionFromCookies } from '@/lib/session';
-import { SubmissionStatus } from '@prisma/client';
+import { publishLiveEvent } from '@/lib/liveEvents';
+import { ShareReviewStatus, SubmissionStatus } from '@prisma/client';
 
 const bodySchema = z.object({
   submissionId: z.string().cuid(),
@@ -27,6 +28,7 @@ export async function POST(request: Request) {
         studentId: true,
         sessionId: true,
         status: true,
+        isShared: true,
       },
     });
 
@@ -38,13 +40,41 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: 'Only completed images can be shared.' }, { status: 400 });
     }
 
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { requireShareApproval: true },
+    });
+
+    // In review mode a share request waits for the teacher; unsharing or withdrawing always applies at once.
+    const data = share && session?.requireShareApproval
+      ? {
+        isShared: false,
+        shareStatus: ShareReviewStatus.PENDING,
+        shareRequestedAt: new Date(),
+        shareReviewedAt: null,
+        shareReviewNote: null,
+      }
+      : { isShared: share, shareStatus: null, shareRequestedAt: null, shareReviewedAt: null, shareReviewNote: null };
+
     const updated = await prisma.promptSubmission.update({
       where: { id: submission.id },
-      data: { isShared: share },
-      select: { id: true, isShared: true },
+      data,
+      select: { id: true, isShared: true, shareStatus: true, shareReviewNote: true },
     });
 
-    return NextResponse.json({ submissionId: updated.id, isShared: updated.isShared });
+    publishLiveEvent(sessionId, {
+      type: 'submission',
+      submissionId: updated.id,
+      studentId,
+      visibleToClass: submission.isShared || updated.isShared,
+    });
+
+    return NextResponse.json({
+      submissionId: updated.id,
+      isShared: updated.isShared,
+      shareStatus: updated.shareStatus,
+      shareReviewNote: updated.shareReviewNote,
+    });
   } catch (error) {
     console.error('Failed to update share state', error);
     if (error instanceof z.ZodError) {
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies } from '@/lib/session';
+import { getSubmissionImageUrls } from '@/lib/images';
+import { getPortfolioStudentIds } from '@/lib/rosters';
+
+/** The signed-in student's images and chats from every session they joined with the same roster account. */
+export async function GET() {
+  const { role, studentId } = await getSessionFromCookies();
+
+  if (role !== 'student' || !studentId) {
+    return NextResponse.json({ message: 'Student access required.' }, { status: 403 });
+  }
+
+  const studentIds = await getPortfolioStudentIds(studentId);
+
+  const memberships = await prisma.student.findMany({
+    where: { id: { in: studentIds } },
+    orderBy: { session: { createdAt: 'desc' } },
+    select: {
+      id: true,
+      session: { select: { id: true, joinCode: true, createdAt: true, endedAt: true, isActive: true } },
+      submissions: {
+        where: { status: SubmissionStatus.SUCCESS },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          prompt: true,
+          createdAt: true,
+          revisionIndex: true,
+          rootSubmissionId: true,
+          parentSubmissionId: true,
+          isShared: true,
+          imageMimeType: true,
+          imageKey: true,
+          thumbnailKey: true,
+        },
+      },
+      chatThreads: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          updatedAt: true,
+          messages: {
+            where: { isComplete: true },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, content: true, sender: true, createdAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    sessions: memberships.map((membership) => ({
+      ...membership.session,
+      isCurrent: membership.id === studentId,
+      submissions: membership.submissions.map(({ imageKey, thumbnailKey, ...submission }) => ({
+        ...submission,
+        ...getSubmissionImageUrls({ id: submission.id, imageKey, thumbnailKey, imageMimeType: submission.imageMimeType }),
+      })),
+      threads: membership.chatThreads,
+    })),
+  });
+}
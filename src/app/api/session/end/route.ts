@@ -1,23 +1,24 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
-import { roleCookieName, sessionCookieName, studentCookieName } from '@/lib/auth';
+import { getTeacherSession } from '@/lib/session';
+import { issueAuthToken, revokeSessionTokens, setAuthCookie } from '@/lib/tokens';
 
 export async function POST() {
-  const { sessionId, role } = await getSessionFromCookies();
+  const context = await getTeacherSession();
 
-  if (!sessionId || role !== 'teacher') {
+  if (!context) {
     return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
   }
 
   await prisma.session.updateMany({
-    where: { id: sessionId },
+    where: { id: context.session.id, teacherId: context.teacherId },
     data: { isActive: false, endedAt: new Date() },
   });
 
+  // Ending the class signs out every student (and teacher tab) attached to it.
+  await revokeSessionTokens(context.session.id);
+
   const response = NextResponse.json({ success: true });
-  response.cookies.delete(sessionCookieName);
-  response.cookies.delete(roleCookieName);
-  response.cookies.delete(studentCookieName);
+  setAuthCookie(response, await issueAuthToken({ role: 'teacher', teacherId: context.teacherId }));
   return response;
 }
@@ -1,62 +1,87 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { prisma } from '@/lib/prisma';
-import { verifyPassword, roleCookieName, sessionCookieName, studentCookieName } from '@/lib/auth';
+import { getActiveSessionByJoinCode, getSessionFromCookies } from '@/lib/session';
+import { verifyPassword } from '@/lib/auth';
+import {
+  addressLimit,
+  clearRateLimit,
+  clientAddress,
+  getRetryAfter,
+  recordFailedLogin,
+  sessionPasswordLimit,
+  tooManyAttempts,
+} from '@/lib/rateLimit';
+import { issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
 
 const bodySchema = z.object({
+  joinCode: z.string().trim().min(1, 'Join code is required'),
   password: z.string().min(1, 'Password is required'),
   role: z.enum(['student', 'teacher']).default('student'),
-  teacherKey: z.string().optional(),
 });
 
 export async function POST(request: Request) {
   try {
     const json = await request.json();
-    const { password, role, teacherKey } = bodySchema.parse(json);
+    const { joinCode, password, role } = bodySchema.parse(json);
 
-    const activeSession = await prisma.session.findFirst({
-      where: { isActive: true },
-      orderBy: { createdAt: 'desc' },
-    });
+    const ipAddress = clientAddress(request);
+    const address = addressLimit(ipAddress, 'session-join');
+    const addressLockedFor = await getRetryAfter([address]);
+    if (addressLockedFor) {
+      return tooManyAttempts(addressLockedFor);
+    }
+
+    const activeSession = await getActiveSessionByJoinCode(joinCode);
 
     if (!activeSession) {
-      return NextResponse.json({ message: 'No active session. Please ask the teacher to start one.' }, { status: 404 });
+      const retryAfter = await recordFailedLogin([address], { ipAddress, reason: 'unknown-session' });
+      return retryAfter
+        ? tooManyAttempts(retryAfter)
+        : NextResponse.json({ message: 'No active session matches that join code.' }, { status: 404 });
+    }
+
+    // The teacher who owns the session is never locked out of it by students' guesses.
+    const { token, teacherId } = await getSessionFromCookies();
+    const isOwner = Boolean(teacherId) && activeSession.teacherId === teacherId;
+    const sessionPassword = isOwner ? null : sessionPasswordLimit(activeSession.id, ipAddress);
+    const sessionLockedFor = await getRetryAfter([sessionPassword]);
+    if (sessionLockedFor) {
+      await recordFailedLogin([], { ipAddress, sessionId: activeSession.id, reason: 'locked' });
+      return tooManyAttempts(sessionLockedFor);
     }
 
     const isValid = await verifyPassword(password, activeSession.passwordHash);
     if (!isValid) {
-      return NextResponse.json({ message: 'Incorrect password. Try again.' }, { status: 401 });
+      const retryAfter = await recordFailedLogin([address, sessionPassword], {
+        ipAddress,
+        sessionId: activeSession.id,
+        reason: 'wrong-password',
+      });
+      return retryAfter ? tooManyAttempts(retryAfter) : NextResponse.json({ message: 'Incorrect password. Try again.' }, { status: 401 });
     }
+    await clearRateLimit(sessionPassword);
 
     if (role === 'teacher') {
-      const requiredKey = process.env.TEACHER_DASHBOARD_KEY?.trim();
-      if (requiredKey) {
-        if (!teacherKey || teacherKey !== requiredKey) {
-          return NextResponse.json({ message: 'Teacher dashboard key is invalid.' }, { status: 403 });
-        }
+      if (!isOwner) {
+        return NextResponse.json({ message: 'Only the teacher who started this session can open its dashboard.' }, { status: 403 });
       }
     }
 
     const response = NextResponse.json({
       sessionId: activeSession.id,
+      joinCode: activeSession.joinCode,
       role,
       createdAt: activeSession.createdAt,
     });
-    response.cookies.set(sessionCookieName, activeSession.id, {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    response.cookies.set(roleCookieName, role, {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    if (role === 'teacher') {
-      response.cookies.delete(studentCookieName);
-    }
+    await revokeAuthToken(token);
+    setAuthCookie(
+      response,
+      await issueAuthToken(
+        role === 'teacher'
+          ? { role: 'teacher', teacherId, sessionId: activeSession.id }
+          : { role: 'student', sessionId: activeSession.id },
+      ),
+    );
 
     return response;
   } catch (error) {
@@ -1,60 +1,76 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSessionFromCookies } from '@/lib/session';
-import { roleCookieName, sessionCookieName, studentCookieName } from '@/lib/auth';
+import { clearAuthCookie, issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
+
+async function leaveSession(token: string | undefined, teacherId: string | undefined, body: Record<string, unknown>) {
+  await revokeAuthToken(token);
+  const response = NextResponse.json(body);
+  // Teachers keep their account sign-in when they leave a classroom; everyone else is signed out.
+  if (teacherId) {
+    setAuthCookie(response, await issueAuthToken({ role: 'teacher', teacherId }));
+  } else {
+    clearAuthCookie(response);
+  }
+  return response;
+}
 
 export async function GET() {
-  const { sessionId, role, studentId } = await getSessionFromCookies();
+  const { token, sessionId, role, studentId, teacherId } = await getSessionFromCookies();
+
+  if (!token) {
+    const response = NextResponse.json({ session: null, teacher: null });
+    clearAuthCookie(response);
+    return response;
+  }
+
+  const teacher = teacherId
+    ? await prisma.teacher.findUnique({
+        where: { id: teacherId },
+        select: { id: true, email: true, displayName: true },
+      })
+    : null;
 
   if (!sessionId) {
-    return NextResponse.json({ session: null });
+    return NextResponse.json({ session: null, teacher });
   }
 
   const session = await prisma.session.findUnique({
     where: { id: sessionId },
-    select: { id: true, createdAt: true, isActive: true },
+    select: { id: true, joinCode: true, createdAt: true, isActive: true },
   });
 
   if (!session || !session.isActive) {
-    const response = NextResponse.json({ session: null });
-    response.cookies.delete(sessionCookieName);
-    response.cookies.delete(roleCookieName);
-    response.cookies.delete(studentCookieName);
-    return response;
+    return leaveSession(token, teacher?.id, { session: null, teacher });
   }
 
-  let student: { id: string; username: string } | null = null;
+  let student: { id: string; username: string; displayName: string | null } | null = null;
   if (studentId) {
     const record = await prisma.student.findUnique({
       where: { id: studentId },
-      select: { id: true, username: true, sessionId: true },
+      select: { id: true, username: true, displayName: true, sessionId: true },
     });
 
-    if (record && record.sessionId === session.id) {
-      student = { id: record.id, username: record.username };
-    } else {
-      const response = NextResponse.json({ session: null });
-      response.cookies.delete(sessionCookieName);
-      response.cookies.delete(roleCookieName);
-      response.cookies.delete(studentCookieName);
-      return response;
+    if (!record || record.sessionId !== session.id) {
+      return leaveSession(token, teacher?.id, { session: null, teacher });
     }
+
+    student = { id: record.id, username: record.username, displayName: record.displayName };
   }
 
   return NextResponse.json({
     session: {
       id: session.id,
+      joinCode: session.joinCode,
       createdAt: session.createdAt,
       role,
       student,
     },
+    teacher,
   });
 }
 
 export async function DELETE() {
-  const response = NextResponse.json({ success: true });
-  response.cookies.delete(sessionCookieName);
-  response.cookies.delete(roleCookieName);
-  response.cookies.delete(studentCookieName);
-  return response;
+  const { token, teacherId } = await getSessionFromCookies();
+  return leaveSession(token, teacherId, { success: true });
 }
@@ -1,45 +1,58 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { hashPassword, roleCookieName, sessionCookieName, studentCookieName } from '@/lib/auth';
-import { endExistingSessions } from '@/lib/session';
+import { hashPassword } from '@/lib/auth';
+import { endExistingSessions, generateJoinCode, getSessionFromCookies } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
+import { issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
 
 const bodySchema = z.object({
   password: z.string().min(4, 'Password must be at least 4 characters'),
+  rosterId: z.string().nullable().optional(),
 });
 
 export async function POST(request: Request) {
   try {
+    const { token, teacherId } = await getSessionFromCookies();
+    const teacher = teacherId
+      ? await prisma.teacher.findUnique({ where: { id: teacherId }, select: { id: true } })
+      : null;
+
+    if (!teacher) {
+      return NextResponse.json({ message: 'Sign in as a teacher to start a session.' }, { status: 401 });
+    }
+
     const json = await request.json();
-    const { password } = bodySchema.parse(json);
+    const { password, rosterId } = bodySchema.parse(json);
 
-    await endExistingSessions();
+    const roster = rosterId
+      ? await prisma.classRoster.findFirst({ where: { id: rosterId, teacherId: teacher.id }, select: { id: true } })
+      : null;
+    if (rosterId && !roster) {
+      return NextResponse.json({ message: 'Class roster not found.' }, { status: 404 });
+    }
+
+    // Only this teacher's running sessions are closed; other classes keep going.
+    await endExistingSessions(teacher.id);
 
     const passwordHash = await hashPassword(password);
+    const joinCode = await generateJoinCode();
     const session = await prisma.session.create({
       data: {
+        joinCode,
         passwordHash,
         isActive: true,
+        teacherId: teacher.id,
+        rosterId: roster?.id ?? null,
       },
     });
 
     const response = NextResponse.json({
       sessionId: session.id,
+      joinCode: session.joinCode,
       createdAt: session.createdAt,
     });
-    response.cookies.set(sessionCookieName, session.id, {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    response.cookies.set(roleCookieName, 'teacher', {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    response.cookies.delete(studentCookieName);
+    await revokeAuthToken(token);
+    setAuthCookie(response, await issueAuthToken({ role: 'teacher', teacherId: teacher.id, sessionId: session.id }));
 
     return response;
   } catch (error) {
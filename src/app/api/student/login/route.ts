@@ -1,9 +1,21 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { prisma } from '@/lib/prisma';
-import { roleCookieName, sessionCookieName, studentCookieName, verifyPassword } from '@/lib/auth';
+import { getActiveSessionByJoinCode, getSessionFromCookies } from '@/lib/session';
+import { verifyPassword } from '@/lib/auth';
+import { findSessionLogin, joinSessionWithAccount } from '@/lib/rosters';
+import {
+  addressLimit,
+  clearRateLimit,
+  clientAddress,
+  getRetryAfter,
+  recordFailedLogin,
+  studentLoginLimit,
+  tooManyAttempts,
+} from '@/lib/rateLimit';
+import { clearAuthCookie, issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
 
 const bodySchema = z.object({
+  joinCode: z.string().trim().min(1, 'Join code is required'),
   username: z.string().min(3, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
 });
@@ -11,37 +23,50 @@ const bodySchema = z.object({
 export async function POST(request: Request) {
   try {
     const json = await request.json();
-    const { username, password } = bodySchema.parse(json);
+    const { joinCode, username, password } = bodySchema.parse(json);
 
-    const activeSession = await prisma.session.findFirst({
-      where: { isActive: true },
-      orderBy: { createdAt: 'desc' },
-      select: { id: true },
-    });
+    const ipAddress = clientAddress(request);
+    const address = addressLimit(ipAddress, 'student-login');
+    const addressLockedFor = await getRetryAfter([address]);
+    if (addressLockedFor) {
+      return tooManyAttempts(addressLockedFor);
+    }
+
+    const activeSession = await getActiveSessionByJoinCode(joinCode);
 
     if (!activeSession) {
-      return NextResponse.json({ message: 'No active classroom session. Please ask your teacher to begin one.' }, { status: 404 });
+      const retryAfter = await recordFailedLogin([address], { ipAddress, reason: 'unknown-session' });
+      return retryAfter
+        ? tooManyAttempts(retryAfter)
+        : NextResponse.json({ message: 'No active classroom session matches that join code. Check the code with your teacher.' }, { status: 404 });
     }
 
-    const student = await prisma.student.findFirst({
-      where: {
-        username,
-        sessionId: activeSession.id,
-      },
-      select: {
-        id: true,
-        passwordHash: true,
-        username: true,
-      },
-    });
+    const account = studentLoginLimit(activeSession.id, username);
+    const attempt = { ipAddress, sessionId: activeSession.id, username };
+    const accountLockedFor = await getRetryAfter([account]);
+    if (accountLockedFor) {
+      await recordFailedLogin([], { ...attempt, reason: 'locked' });
+      return tooManyAttempts(accountLockedFor);
+    }
 
-    if (!student) {
-      return NextResponse.json({ message: 'Account not found for this session.' }, { status: 404 });
+    const login = await findSessionLogin(activeSession, username);
+
+    if (!login) {
+      const retryAfter = await recordFailedLogin([address, account], { ...attempt, reason: 'unknown-username' });
+      return retryAfter ? tooManyAttempts(retryAfter) : NextResponse.json({ message: 'Account not found for this session.' }, { status: 404 });
     }
 
-    const isValid = await verifyPassword(password, student.passwordHash);
+    const isValid = await verifyPassword(password, login.passwordHash);
     if (!isValid) {
-      return NextResponse.json({ message: 'Incorrect password. Please try again.' }, { status: 401 });
+      const retryAfter = await recordFailedLogin([address, account], { ...attempt, reason: 'wrong-password' });
+      return retryAfter ? tooManyAttempts(retryAfter) : NextResponse.json({ message: 'Incorrect password. Please try again.' }, { status: 401 });
+    }
+    await clearRateLimit(account);
+
+    // Roster students get their row in this session the first time they sign in to it.
+    const student = login.student ?? (login.account ? await joinSessionWithAccount(activeSession.id, login.account) : null);
+    if (!student) {
+      return NextResponse.json({ message: 'Account not found for this session.' }, { status: 404 });
     }
 
     const response = NextResponse.json({
@@ -53,24 +78,12 @@ export async function POST(request: Request) {
       },
     });
 
-    response.cookies.set(sessionCookieName, activeSession.id, {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    response.cookies.set(roleCookieName, 'student', {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
-    response.cookies.set(studentCookieName, student.id, {
-      httpOnly: true,
-      sameSite: 'lax',
-      path: '/',
-      maxAge: 60 * 60 * 6,
-    });
+    const { token } = await getSessionFromCookies();
+    await revokeAuthToken(token);
+    setAuthCookie(
+      response,
+      await issueAuthToken({ role: 'student', sessionId: activeSession.id, studentId: student.id }),
+    );
 
     return response;
   } catch (error) {
@@ -83,9 +96,9 @@ export async function POST(request: Request) {
 }
 
 export async function DELETE() {
+  const { token } = await getSessionFromCookies();
+  await revokeAuthToken(token);
   const response = NextResponse.json({ success: true });
-  response.cookies.delete(sessionCookieName);
-  response.cookies.delete(roleCookieName);
-  response.cookies.delete(studentCookieName);
+  clearAuthCookie(response);
   return response;
 }
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies } from '@/lib/session';
+import { toQuickLoginConfirmHtml } from '@/lib/loginCards';
+import { findQuickLoginToken, issueAuthToken, redeemQuickLoginToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
+
+/** Where a login card's QR code points: asks the student to confirm, leaving the token unused until they do. */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get('token');
+
+  try {
+    const student = token ? await findQuickLoginToken(token) : null;
+    if (!token || !student) {
+      return NextResponse.redirect(new URL('/?signin=expired', request.url));
+    }
+
+    return new NextResponse(toQuickLoginConfirmHtml(student, token), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Quick login failed', error);
+    return NextResponse.redirect(new URL('/?signin=error', request.url));
+  }
+}
+
+/** The confirm page's form: signs the student in to their session and sends them to the studio. */
+export async function POST(request: Request) {
+  // 303 so the browser follows the redirect with a GET.
+  const redirect = (path: string) => NextResponse.redirect(new URL(path, request.url), 303);
+
+  try {
+    const form = await request.formData().catch(() => null);
+    const token = form?.get('token');
+    const student = typeof token === 'string' && token ? await redeemQuickLoginToken(token) : null;
+    const session = student
+      ? await prisma.session.findUnique({ where: { id: student.sessionId }, select: { id: true, isActive: true } })
+      : null;
+
+    if (!student || !session?.isActive) {
+      return redirect('/?signin=expired');
+    }
+
+    const response = redirect('/');
+
+    const { token: currentToken } = await getSessionFromCookies();
+    await revokeAuthToken(currentToken);
+    setAuthCookie(response, await issueAuthToken({ role: 'student', sessionId: session.id, studentId: student.id }));
+
+    return response;
+  } catch (error) {
+    console.error('Quick login failed', error);
+    return redirect('/?signin=error');
+  }
+}
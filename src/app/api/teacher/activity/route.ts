@@ -1,40 +1,87 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
+import { getTeacherSession } from '@/lib/session';
+import { getSubmissionImageUrls } from '@/lib/images';
+import { parseSubmissionListQuery, submissionFilterWhere, submissionPageArgs, toPage } from '@/lib/submissionQuery';
 
-export async function GET() {
-  const { sessionId, role } = await getSessionFromCookies();
+export async function GET(request: Request) {
+  const context = await getTeacherSession(new URL(request.url).searchParams.get('sessionId'));
 
-  if (!sessionId || role !== 'teacher') {
+  if (!context) {
     return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    include: {
-      promptEntries: {
-        orderBy: { createdAt: 'desc' },
-        include: {
-          student: {
-            select: {
-              username: true,
-            },
+  let query;
+  try {
+    query = parseSubmissionListQuery(request.url);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid filters' }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const { session } = context;
+
+  const [rows, students] = await Promise.all([
+    prisma.promptSubmission.findMany({
+      where: { sessionId: session.id, ...submissionFilterWhere(query) },
+      ...submissionPageArgs(query),
+      select: {
+        id: true,
+        prompt: true,
+        role: true,
+        createdAt: true,
+        status: true,
+        revisionIndex: true,
+        parentSubmissionId: true,
+        rootSubmissionId: true,
+        imageMimeType: true,
+        imageKey: true,
+        thumbnailKey: true,
+        errorMessage: true,
+        isShared: true,
+        moderationDecision: true,
+        moderationReason: true,
+        aspectRatio: true,
+        stylePreset: true,
+        variantIndex: true,
+        variantCount: true,
+        studentId: true,
+        student: {
+          select: {
+            username: true,
+            displayName: true,
           },
         },
       },
-    },
-  });
+    }),
+    // Only the first page carries the roster used by the dashboard's student filter.
+    query.cursor
+      ? Promise.resolve(null)
+      : prisma.student.findMany({
+        where: { sessionId: session.id },
+        orderBy: { username: 'asc' },
+        select: { id: true, username: true, displayName: true },
+      }),
+  ]);
 
-  if (!session) {
-    return NextResponse.json({ message: 'Session not found.' }, { status: 404 });
-  }
+  const { items, nextCursor } = toPage(rows, query.limit);
 
   return NextResponse.json({
     session: {
       id: session.id,
+      joinCode: session.joinCode,
       createdAt: session.createdAt,
+      endedAt: session.endedAt,
       isActive: session.isActive,
     },
-    submissions: session.promptEntries,
+    submissions: items.map(({ imageKey, thumbnailKey, ...submission }) => ({
+      ...submission,
+      ...getSubmissionImageUrls({ id: submission.id, imageKey, thumbnailKey, imageMimeType: submission.imageMimeType }),
+    })),
+    nextCursor,
+    students,
   });
 }
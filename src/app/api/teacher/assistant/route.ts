@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { ASSISTANT_PERSONA_MAX_LENGTH, ASSISTANT_PROMPT_MAX_LENGTH } from '@/lib/assistantPresets';
+
+const bodySchema = z.object({
+  assistantPersona: z.string().trim().max(ASSISTANT_PERSONA_MAX_LENGTH, 'Persona name is too long'),
+  assistantSystemPrompt: z.string().trim().max(ASSISTANT_PROMPT_MAX_LENGTH, 'Instructions are too long'),
+});
+
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    assistantPersona: context.session.assistantPersona ?? '',
+    assistantSystemPrompt: context.session.assistantSystemPrompt ?? '',
+  });
+}
+
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { assistantPersona, assistantSystemPrompt } = bodySchema.parse(json);
+
+    const updated = await prisma.session.update({
+      where: { id: context.session.id },
+      data: {
+        assistantPersona: assistantPersona || null,
+        assistantSystemPrompt: assistantSystemPrompt || null,
+      },
+      select: { assistantPersona: true, assistantSystemPrompt: true },
+    });
+
+    return NextResponse.json({
+      assistantPersona: updated.assistantPersona ?? '',
+      assistantSystemPrompt: updated.assistantSystemPrompt ?? '',
+    });
+  } catch (error) {
+    console.error('Failed to update assistant settings', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update assistant settings' }, { status: 500 });
+  }
+}
@@ -1,22 +1,28 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
+import { getTeacherSession } from '@/lib/session';
 
-export async function GET() {
-  const { sessionId, role } = await getSessionFromCookies();
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const context = await getTeacherSession(searchParams.get('sessionId'));
 
-  if (!sessionId || role !== 'teacher') {
+  if (!context) {
     return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
   }
 
+  const sessionId = context.session.id;
+  // The live dashboard asks for a single thread when a message arrives.
+  const threadId = searchParams.get('threadId');
+
   const threads = await prisma.chatThread.findMany({
-    where: { sessionId },
+    where: { sessionId, ...(threadId ? { id: threadId } : {}) },
     orderBy: [{ student: { username: 'asc' } }, { createdAt: 'desc' }],
     include: {
       student: {
         select: {
           id: true,
           username: true,
+          displayName: true,
         },
       },
       messages: {
@@ -25,6 +31,9 @@ export async function GET() {
           id: true,
           content: true,
           sender: true,
+          isComplete: true,
+          moderationDecision: true,
+          moderationReason: true,
           createdAt: true,
         },
       },
@@ -35,13 +44,18 @@ export async function GET() {
     threads: threads.map((thread) => ({
       id: thread.id,
       title: thread.title,
-      student: thread.student ? { id: thread.student.id, username: thread.student.username } : null,
+      student: thread.student
+        ? { id: thread.student.id, username: thread.student.username, displayName: thread.student.displayName }
+        : null,
       createdAt: thread.createdAt,
       updatedAt: thread.updatedAt,
       messages: thread.messages.map((message) => ({
         id: message.id,
         content: message.content,
         sender: message.sender,
+        isComplete: message.isComplete,
+        moderationDecision: message.moderationDecision,
+        moderationReason: message.moderationReason,
         createdAt: message.createdAt,
       })),
     })),
@@ -1,60 +1,57 @@
 import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
+import { z } from 'zod';
+import { getTeacherSession } from '@/lib/session';
+import {
+  createSessionZipStream,
+  exportFormats,
+  loadSessionExport,
+  toHtmlReport,
+  toManifest,
+  toPromptCsv,
+} from '@/lib/sessionExport';
 
-export async function GET() {
-  const { sessionId, role } = await getSessionFromCookies();
+const formatSchema = z.enum(exportFormats).default('json');
 
-  if (!sessionId || role !== 'teacher') {
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const context = await getTeacherSession(searchParams.get('sessionId'));
+
+  if (!context) {
     return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    include: {
-      promptEntries: {
-        orderBy: { createdAt: 'asc' },
-        include: {
-          student: {
-            select: {
-              username: true,
-            },
-          },
-        },
-      },
-    },
-  });
+  const parsedFormat = formatSchema.safeParse(searchParams.get('format') ?? undefined);
+  if (!parsedFormat.success) {
+    return NextResponse.json({ message: `Choose one of: ${exportFormats.join(', ')}.` }, { status: 400 });
+  }
+  const format = parsedFormat.data;
+
+  const data = await loadSessionExport(context.session.id);
 
-  if (!session) {
+  if (!data) {
     return NextResponse.json({ message: 'Session not found.' }, { status: 404 });
   }
 
-  const payload = {
-    session: {
-      id: session.id,
-      createdAt: session.createdAt,
-      endedAt: session.endedAt,
-      isActive: session.isActive,
-    },
-    entries: session.promptEntries.map((submission) => ({
-      id: submission.id,
-      prompt: submission.prompt,
-      role: submission.role,
-      createdAt: submission.createdAt,
-      status: submission.status,
-      revisionIndex: submission.revisionIndex,
-      parentSubmissionId: submission.parentSubmissionId,
-      rootSubmissionId: submission.rootSubmissionId,
-      hasImage: Boolean(submission.imageData),
-      errorMessage: submission.errorMessage,
-      isShared: submission.isShared,
-      studentUsername: submission.student?.username ?? null,
-    })),
-  };
-
-  const body = JSON.stringify(payload, null, 2);
-  const response = new NextResponse(body);
-  response.headers.set('Content-Type', 'application/json');
-  response.headers.set('Content-Disposition', `attachment; filename="session-${session.id}.json"`);
-  return response;
+  const baseName = `session-${data.session.joinCode}-${data.session.createdAt.toISOString().slice(0, 10)}`;
+  const download = (fileName: string, contentType: string) => ({
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+  });
+
+  if (format === 'zip') {
+    return new Response(createSessionZipStream(data), { headers: download(`${baseName}.zip`, 'application/zip') });
+  }
+
+  if (format === 'csv') {
+    // The BOM makes Excel read the file as UTF-8.
+    return new NextResponse(`\uFEFF${toPromptCsv(data)}`, { headers: download(`${baseName}-prompts.csv`, 'text/csv; charset=utf-8') });
+  }
+
+  if (format === 'html') {
+    return new NextResponse(await toHtmlReport(data), { headers: download(`${baseName}-report.html`, 'text/html; charset=utf-8') });
+  }
+
+  return new NextResponse(JSON.stringify(toManifest(data), null, 2), {
+    headers: download(`${baseName}.json`, 'application/json'),
+  });
 }
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getSessionFromCookies } from '@/lib/session';
+import { ArchiveImportError, IMPORT_MAX_BYTES, importSessionArchive } from '@/lib/sessionImport';
+import { ZipFormatError } from '@/lib/zip';
+
+// Room for the multipart boundaries and headers around the file.
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+export async function POST(request: Request) {
+  try {
+    const { role, teacherId } = await getSessionFromCookies();
+
+    if (role !== 'teacher' || !teacherId) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    // Checked before `formData()`, which reads the whole body into memory.
+    const contentLength = Number(request.headers.get('content-length') || NaN);
+    if (!Number.isInteger(contentLength)) {
+      return NextResponse.json({ message: 'The upload must state its size.' }, { status: 411 });
+    }
+    if (contentLength > IMPORT_MAX_BYTES + FORM_OVERHEAD_BYTES) {
+      return NextResponse.json({ message: 'The archive is too large to import.' }, { status: 413 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('archive');
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ message: 'Choose an exported session ZIP or JSON file.' }, { status: 400 });
+    }
+
+    if (file.size > IMPORT_MAX_BYTES) {
+      return NextResponse.json({ message: 'The archive is too large to import.' }, { status: 413 });
+    }
+
+    const report = await importSessionArchive(Buffer.from(await file.arrayBuffer()), teacherId);
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error('Session import failed', error);
+    if (error instanceof ArchiveImportError || error instanceof ZipFormatError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to import the session' }, { status: 500 });
+  }
+}
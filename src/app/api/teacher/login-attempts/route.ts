@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { getRetryAfter, sessionPasswordLimit, studentLoginLimit } from '@/lib/rateLimit';
+
+const ATTEMPT_LIMIT = 100;
+
+/** Recent failed sign-ins to the current session, and the usernames that are locked out right now. */
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const sessionId = context.session.id;
+  const attempts = await prisma.failedLogin.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'desc' },
+    take: ATTEMPT_LIMIT,
+    select: { id: true, createdAt: true, username: true, ipAddress: true, reason: true },
+  });
+
+  // Only names that failed recently can be locked; `null` stands for the session password, locked per address.
+  const recent = await prisma.failedLogin.findMany({
+    where: { sessionId, createdAt: { gt: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+    distinct: ['username', 'ipAddress'],
+    select: { username: true, ipAddress: true },
+  });
+
+  const lockouts: Array<{ username: string | null; ipAddress: string | null; retryAfter: number }> = [];
+  const seen = new Set<string>();
+  for (const { username, ipAddress } of recent) {
+    const limit = username ? studentLoginLimit(sessionId, username) : sessionPasswordLimit(sessionId, ipAddress);
+    if (!limit || seen.has(limit.key)) continue;
+    seen.add(limit.key);
+    const retryAfter = await getRetryAfter([limit]);
+    if (retryAfter) {
+      lockouts.push({ username, ipAddress: username ? null : ipAddress, retryAfter });
+    }
+  }
+
+  return NextResponse.json({ attempts, lockouts });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getTeacherSession } from '@/lib/session';
+import { clearRateLimit, sessionPasswordLimit, studentLoginLimit } from '@/lib/rateLimit';
+
+const bodySchema = z.object({
+  username: z.string().min(1).nullable(),
+  ipAddress: z.string().min(1).nullable().optional(),
+});
+
+/** Lifts a lockout early: a student's login, or the session password for one address when `username` is null. */
+export async function POST(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { username, ipAddress } = bodySchema.parse(json);
+    const sessionId = context.session.id;
+
+    const limit = username ? studentLoginLimit(sessionId, username) : ipAddress ? sessionPasswordLimit(sessionId, ipAddress) : null;
+    if (!limit) {
+      return NextResponse.json({ message: 'Choose the address to unlock the session password for.' }, { status: 400 });
+    }
+    await clearRateLimit(limit);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    console.error('Failed to lift sign-in lockout', error);
+    return NextResponse.json({ message: 'Unable to lift the lockout' }, { status: 500 });
+  }
+}
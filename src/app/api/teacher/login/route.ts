@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { verifyPassword } from '@/lib/auth';
+import { getSessionFromCookies } from '@/lib/session';
+import { clearAuthCookie, issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
+
+const bodySchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export async function POST(request: Request) {
+  try {
+    const json = await request.json();
+    const { email, password } = bodySchema.parse(json);
+
+    const teacher = await prisma.teacher.findUnique({
+      where: { email },
+      select: { id: true, email: true, displayName: true, passwordHash: true },
+    });
+
+    if (!teacher || !(await verifyPassword(password, teacher.passwordHash))) {
+      return NextResponse.json({ message: 'Incorrect email or password.' }, { status: 401 });
+    }
+
+    // Drop the teacher straight back into their most recent running class, if any.
+    const activeSession = await prisma.session.findFirst({
+      where: { teacherId: teacher.id, isActive: true },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    const response = NextResponse.json({
+      teacher: { id: teacher.id, email: teacher.email, displayName: teacher.displayName },
+      sessionId: activeSession?.id ?? null,
+    });
+    const { token } = await getSessionFromCookies();
+    await revokeAuthToken(token);
+    setAuthCookie(
+      response,
+      await issueAuthToken({ role: 'teacher', teacherId: teacher.id, sessionId: activeSession?.id ?? null }),
+    );
+
+    return response;
+  } catch (error) {
+    console.error('Teacher login failed', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to log in' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const { token } = await getSessionFromCookies();
+  await revokeAuthToken(token);
+  const response = NextResponse.json({ success: true });
+  clearAuthCookie(response);
+  return response;
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { getModerationSettings } from '@/lib/moderation';
+import { BLOCKLIST_MAX_LENGTH, moderationCategories } from '@/lib/moderationCategories';
+
+const LOG_LIMIT = 100;
+
+const categoryIds = moderationCategories.map((category) => category.id) as [string, ...string[]];
+
+const bodySchema = z.object({
+  blocklist: z.string().max(BLOCKLIST_MAX_LENGTH, 'The blocklist is too long'),
+  rules: z.array(
+    z.object({
+      category: z.enum(categoryIds),
+      action: z.enum(['block', 'flag', 'off']),
+    }),
+  ),
+});
+
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const sessionId = context.session.id;
+
+  const [settings, log] = await Promise.all([
+    getModerationSettings(sessionId),
+    prisma.moderationLog.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'desc' },
+      take: LOG_LIMIT,
+      include: {
+        student: {
+          select: {
+            username: true,
+            displayName: true,
+          },
+        },
+      },
+    }),
+  ]);
+
+  return NextResponse.json({
+    ...settings,
+    log: log.map((entry) => ({
+      id: entry.id,
+      source: entry.source,
+      decision: entry.decision,
+      category: entry.category,
+      reason: entry.reason,
+      content: entry.content,
+      createdAt: entry.createdAt,
+      studentUsername: entry.student?.username ?? null,
+      studentDisplayName: entry.student?.displayName ?? null,
+    })),
+  });
+}
+
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const sessionId = context.session.id;
+
+    const json = await request.json();
+    const { blocklist, rules } = bodySchema.parse(json);
+
+    await prisma.$transaction([
+      prisma.session.update({
+        where: { id: sessionId },
+        data: { moderationBlocklist: blocklist.trim() || null },
+      }),
+      ...rules.map((rule) =>
+        prisma.moderationRule.upsert({
+          where: { sessionId_category: { sessionId, category: rule.category } },
+          create: { sessionId, category: rule.category, action: rule.action },
+          update: { action: rule.action },
+        }),
+      ),
+    ]);
+
+    return NextResponse.json(await getModerationSettings(sessionId));
+  } catch (error) {
+    console.error('Failed to update moderation settings', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update moderation settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { getSessionUsage, QUOTA_MAX_VALUE, quotaSelect, resolveQuotaLimits } from '@/lib/quotas';
+
+const limitValue = z.number().int().min(0).max(QUOTA_MAX_VALUE);
+
+const bodySchema = z.object({
+  imageLimit: limitValue.nullable(),
+  refinementLimit: limitValue,
+  threadLimit: limitValue,
+  messageLimit: limitValue.nullable(),
+});
+
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const sessionId = context.session.id;
+
+  const [students, usage] = await Promise.all([
+    prisma.student.findMany({
+      where: { sessionId },
+      orderBy: { username: 'asc' },
+      select: { id: true, username: true, displayName: true, ...quotaSelect },
+    }),
+    getSessionUsage(sessionId),
+  ]);
+
+  const { session } = context;
+  const limits = {
+    imageLimit: session.imageLimit,
+    refinementLimit: session.refinementLimit,
+    threadLimit: session.threadLimit,
+    messageLimit: session.messageLimit,
+  };
+
+  return NextResponse.json({
+    limits,
+    students: students.map(({ id, username, displayName, ...overrides }) => ({
+      id,
+      username,
+      displayName,
+      overrides,
+      effective: resolveQuotaLimits(limits, overrides),
+      usage: usage.get(id) ?? { images: 0, threads: 0, messages: 0 },
+    })),
+  });
+}
+
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const limits = bodySchema.parse(json);
+
+    const updated = await prisma.session.update({
+      where: { id: context.session.id },
+      data: limits,
+      select: quotaSelect,
+    });
+
+    return NextResponse.json({ limits: updated });
+  } catch (error) {
+    console.error('Failed to update session quotas', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update quotas' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+import { getSessionFromCookies } from '@/lib/session';
+import { issueAuthToken, revokeAuthToken, setAuthCookie } from '@/lib/tokens';
+
+const bodySchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  displayName: z.string().trim().min(1, 'Name is required').max(80),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  signupKey: z.string().optional(),
+});
+
+export async function POST(request: Request) {
+  try {
+    const json = await request.json();
+    const { email, displayName, password, signupKey } = bodySchema.parse(json);
+
+    // With TEACHER_SIGNUP_KEY set, new accounts need the key. Without it, only the
+    // very first teacher account can be created so a fresh install can be bootstrapped.
+    const requiredKey = process.env.TEACHER_SIGNUP_KEY?.trim();
+    if (requiredKey) {
+      if (!signupKey || signupKey !== requiredKey) {
+        return NextResponse.json({ message: 'Teacher signup key is invalid.' }, { status: 403 });
+      }
+    } else {
+      const teacherCount = await prisma.teacher.count();
+      if (teacherCount > 0) {
+        return NextResponse.json({ message: 'Teacher signup is closed. Ask an administrator to set TEACHER_SIGNUP_KEY.' }, { status: 403 });
+      }
+    }
+
+    const existing = await prisma.teacher.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json({ message: 'An account with that email already exists.' }, { status: 409 });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const teacher = await prisma.teacher.create({
+      data: { email, displayName, passwordHash },
+      select: { id: true, email: true, displayName: true },
+    });
+
+    const response = NextResponse.json({ teacher });
+    const { token } = await getSessionFromCookies();
+    await revokeAuthToken(token);
+    setAuthCookie(response, await issueAuthToken({ role: 'teacher', teacherId: teacher.id }));
+    return response;
+  } catch (error) {
+    console.error('Teacher registration failed', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to create teacher account' }, { status: 500 });
+  }
+}
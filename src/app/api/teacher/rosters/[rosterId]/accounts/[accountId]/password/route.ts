@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+import { getTeacherRoster } from '@/lib/rosters';
+import { randomCode } from '@/lib/studentCredentials';
+import { revokeStudentTokens } from '@/lib/tokens';
+
+export async function POST(_request: Request, context: unknown) {
+  const extracted = context as {
+    params: { rosterId: string; accountId: string } | Promise<{ rosterId: string; accountId: string }>;
+  };
+  const resolvedParams = await Promise.resolve(extracted.params);
+
+  try {
+    const roster = await getTeacherRoster(resolvedParams.rosterId);
+
+    if (!roster) {
+      return NextResponse.json({ message: 'Class roster not found.' }, { status: 404 });
+    }
+
+    const account = await prisma.studentAccount.findFirst({
+      where: { id: resolvedParams.accountId, rosterId: roster.id },
+      select: { id: true, username: true, displayName: true, memberships: { select: { id: true } } },
+    });
+
+    if (!account) {
+      return NextResponse.json({ message: 'Student not found in this class.' }, { status: 404 });
+    }
+
+    const password = randomCode();
+    await prisma.studentAccount.update({
+      where: { id: account.id },
+      data: { passwordHash: await hashPassword(password) },
+    });
+    for (const membership of account.memberships) {
+      await revokeStudentTokens(membership.id);
+    }
+
+    return NextResponse.json({ credential: { username: account.username, displayName: account.displayName, password } });
+  } catch (error) {
+    console.error('Failed to reset class roster password', error);
+    return NextResponse.json({ message: 'Unable to reset the password' }, { status: 500 });
+  }
+}
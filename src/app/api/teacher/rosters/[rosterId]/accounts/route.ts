@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+import { getTeacherRoster, rosterUsernamesInUse } from '@/lib/rosters';
+import { planRoster, randomCode, rosterUploadSchema } from '@/lib/studentCredentials';
+
+export async function POST(request: Request, context: unknown) {
+  const extracted = context as { params: { rosterId: string } | Promise<{ rosterId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+
+  try {
+    const roster = await getTeacherRoster(resolvedParams.rosterId);
+
+    if (!roster) {
+      return NextResponse.json({ message: 'Class roster not found.' }, { status: 404 });
+    }
+
+    const json = await request.json();
+    const { csv } = rosterUploadSchema.parse(json);
+
+    const plan = planRoster(csv, await rosterUsernamesInUse(roster.id), 'in this class or one of its running sessions');
+
+    if (!plan.ok) {
+      return NextResponse.json({ message: plan.message, errors: plan.errors }, { status: 400 });
+    }
+
+    const credentials: Array<{ username: string; displayName: string; password: string }> = [];
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const { username, displayName } of plan.entries) {
+          const password = randomCode();
+          await tx.studentAccount.create({
+            data: {
+              username,
+              displayName,
+              passwordHash: await hashPassword(password),
+              rosterId: roster.id,
+            },
+          });
+          credentials.push({ username, displayName, password });
+        }
+      },
+      { timeout: 60000 },
+    );
+
+    return NextResponse.json({ credentials });
+  } catch (error) {
+    console.error('Failed to add students to class roster', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to add students to the class' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTeacherRoster } from '@/lib/rosters';
+
+export async function GET(_request: Request, context: unknown) {
+  const extracted = context as { params: { rosterId: string } | Promise<{ rosterId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const roster = await getTeacherRoster(resolvedParams.rosterId);
+
+  if (!roster) {
+    return NextResponse.json({ message: 'Class roster not found.' }, { status: 404 });
+  }
+
+  const accounts = await prisma.studentAccount.findMany({
+    where: { rosterId: roster.id },
+    orderBy: { username: 'asc' },
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      createdAt: true,
+      _count: { select: { memberships: true } },
+    },
+  });
+
+  return NextResponse.json({
+    roster: { id: roster.id, name: roster.name, createdAt: roster.createdAt },
+    accounts: accounts.map(({ _count, ...account }) => ({ ...account, sessionCount: _count.memberships })),
+  });
+}
+
+/** Removes the roster and its logins. Past sessions and their work stay, no longer linked to an account. */
+export async function DELETE(_request: Request, context: unknown) {
+  const extracted = context as { params: { rosterId: string } | Promise<{ rosterId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const roster = await getTeacherRoster(resolvedParams.rosterId);
+
+  if (!roster) {
+    return NextResponse.json({ message: 'Class roster not found.' }, { status: 404 });
+  }
+
+  await prisma.classRoster.delete({ where: { id: roster.id } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies } from '@/lib/session';
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1, 'Give the class a name').max(80, 'Class names can be at most 80 characters'),
+});
+
+export async function GET() {
+  const { role, teacherId } = await getSessionFromCookies();
+
+  if (role !== 'teacher' || !teacherId) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const rosters = await prisma.classRoster.findMany({
+    where: { teacherId },
+    orderBy: { name: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      _count: { select: { accounts: true, sessions: true } },
+    },
+  });
+
+  return NextResponse.json({
+    rosters: rosters.map((roster) => ({
+      id: roster.id,
+      name: roster.name,
+      createdAt: roster.createdAt,
+      accountCount: roster._count.accounts,
+      sessionCount: roster._count.sessions,
+    })),
+  });
+}
+
+export async function POST(request: Request) {
+  try {
+    const { role, teacherId } = await getSessionFromCookies();
+
+    if (role !== 'teacher' || !teacherId) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { name } = bodySchema.parse(json);
+
+    const roster = await prisma.classRoster.create({
+      data: { name, teacherId },
+      select: { id: true, name: true, createdAt: true },
+    });
+
+    return NextResponse.json({ roster: { ...roster, accountCount: 0, sessionCount: 0 } }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create class roster', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to create the class' }, { status: 500 });
+  }
+}
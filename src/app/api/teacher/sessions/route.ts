@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { SubmissionStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getSessionFromCookies } from '@/lib/session';
+
+export async function GET() {
+  const { role, teacherId } = await getSessionFromCookies();
+
+  if (role !== 'teacher' || !teacherId) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const sessions = await prisma.session.findMany({
+    where: { teacherId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      joinCode: true,
+      createdAt: true,
+      endedAt: true,
+      isActive: true,
+      _count: {
+        select: {
+          students: true,
+          chatThreads: true,
+          promptEntries: { where: { status: SubmissionStatus.SUCCESS } },
+        },
+      },
+      chatThreads: {
+        select: { _count: { select: { messages: true } } },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    sessions: sessions.map((session) => ({
+      id: session.id,
+      joinCode: session.joinCode,
+      createdAt: session.createdAt,
+      endedAt: session.endedAt,
+      isActive: session.isActive,
+      studentCount: session._count.students,
+      imageCount: session._count.promptEntries,
+      chatCount: session._count.chatThreads,
+      messageCount: session.chatThreads.reduce((total, thread) => total + thread._count.messages, 0),
+    })),
+  });
+}
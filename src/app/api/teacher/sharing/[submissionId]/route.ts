@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { publishLiveEvent } from '@/lib/liveEvents';
+import { ShareReviewStatus } from '@prisma/client';
+
+const bodySchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  note: z.string().trim().max(500, 'Keep the note under 500 characters').optional(),
+});
+
+export async function POST(request: Request, context: unknown) {
+  const extracted = context as { params: { submissionId: string } | Promise<{ submissionId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { submissionId } = resolvedParams;
+
+  try {
+    const teacherContext = await getTeacherSession();
+
+    if (!teacherContext) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { decision, note } = bodySchema.parse(json);
+
+    const approved = decision === 'approve';
+    // The status guard keeps a withdrawn or already reviewed request from being decided twice.
+    const result = await prisma.promptSubmission.updateMany({
+      where: {
+        id: submissionId,
+        sessionId: teacherContext.session.id,
+        shareStatus: ShareReviewStatus.PENDING,
+      },
+      data: {
+        isShared: approved,
+        shareStatus: approved ? ShareReviewStatus.APPROVED : ShareReviewStatus.REJECTED,
+        shareReviewNote: note || null,
+        shareReviewedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ message: 'This share request is no longer waiting for review.' }, { status: 409 });
+    }
+
+    const reviewed = await prisma.promptSubmission.findUnique({
+      where: { id: submissionId },
+      select: { studentId: true },
+    });
+    publishLiveEvent(teacherContext.session.id, {
+      type: 'submission',
+      submissionId,
+      studentId: reviewed?.studentId ?? null,
+      visibleToClass: approved,
+    });
+
+    return NextResponse.json({ submissionId, isShared: approved });
+  } catch (error) {
+    console.error('Failed to review share request', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to review share request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { getSubmissionImageUrls } from '@/lib/images';
+import { ShareReviewStatus } from '@prisma/client';
+
+const bodySchema = z.object({
+  requireShareApproval: z.boolean(),
+});
+
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const pending = await prisma.promptSubmission.findMany({
+    where: { sessionId: context.session.id, shareStatus: ShareReviewStatus.PENDING },
+    orderBy: { shareRequestedAt: 'asc' },
+    select: {
+      id: true,
+      prompt: true,
+      createdAt: true,
+      shareRequestedAt: true,
+      revisionIndex: true,
+      imageMimeType: true,
+      imageKey: true,
+      thumbnailKey: true,
+      student: {
+        select: {
+          username: true,
+          displayName: true,
+        },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    requireShareApproval: context.session.requireShareApproval,
+    pending: pending.map((submission) => ({
+      id: submission.id,
+      prompt: submission.prompt,
+      createdAt: submission.createdAt,
+      shareRequestedAt: submission.shareRequestedAt,
+      revisionIndex: submission.revisionIndex,
+      ...getSubmissionImageUrls(submission),
+      studentUsername: submission.student?.username ?? null,
+      studentDisplayName: submission.student?.displayName ?? null,
+    })),
+  });
+}
+
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { requireShareApproval } = bodySchema.parse(json);
+
+    const updated = await prisma.session.update({
+      where: { id: context.session.id },
+      data: { requireShareApproval },
+      select: { requireShareApproval: true },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Failed to update sharing settings', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update sharing settings' }, { status: 500 });
+  }
+}
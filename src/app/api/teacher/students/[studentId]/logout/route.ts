@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { revokeStudentTokens } from '@/lib/tokens';
+
+export async function POST(_request: Request, context: unknown) {
+  const extracted = context as { params: { studentId: string } | Promise<{ studentId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { studentId } = resolvedParams;
+
+  const teacherContext = await getTeacherSession();
+
+  if (!teacherContext) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const student = await prisma.student.findFirst({
+    where: { id: studentId, sessionId: teacherContext.session.id },
+    select: { id: true },
+  });
+
+  if (!student) {
+    return NextResponse.json({ message: 'Student not found in this session.' }, { status: 404 });
+  }
+
+  await revokeStudentTokens(student.id);
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { hashPassword } from '@/lib/auth';
+import { clearRateLimit, studentLoginLimit } from '@/lib/rateLimit';
+import { randomCode } from '@/lib/studentCredentials';
+import { revokeStudentTokens } from '@/lib/tokens';
+
+/** Issues a new password and signs the student out everywhere, keeping all of their work. */
+export async function POST(_request: Request, context: unknown) {
+  const extracted = context as { params: { studentId: string } | Promise<{ studentId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { studentId } = resolvedParams;
+
+  try {
+    const teacherContext = await getTeacherSession();
+
+    if (!teacherContext) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const student = await prisma.student.findFirst({
+      where: { id: studentId, sessionId: teacherContext.session.id },
+      select: { id: true, username: true, displayName: true, accountId: true },
+    });
+
+    if (!student) {
+      return NextResponse.json({ message: 'Student not found in this session.' }, { status: 404 });
+    }
+
+    const password = randomCode();
+    const passwordHash = await hashPassword(password);
+    await prisma.student.update({
+      where: { id: student.id },
+      data: { passwordHash },
+    });
+    // Roster students sign in with their account's password, in this session and every later one.
+    if (student.accountId) {
+      await prisma.studentAccount.update({ where: { id: student.accountId }, data: { passwordHash } });
+    }
+    await revokeStudentTokens(student.id);
+    await clearRateLimit(studentLoginLimit(teacherContext.session.id, student.username));
+
+    return NextResponse.json({ credential: { username: student.username, displayName: student.displayName, password } });
+  } catch (error) {
+    console.error('Failed to reset student password', error);
+    return NextResponse.json({ message: 'Unable to reset the password' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { QUOTA_MAX_VALUE, quotaSelect } from '@/lib/quotas';
+
+const overrideValue = z.number().int().min(0).max(QUOTA_MAX_VALUE).nullable();
+
+// A null override means the student follows the session-wide limit.
+const bodySchema = z.object({
+  imageLimit: overrideValue,
+  refinementLimit: overrideValue,
+  threadLimit: overrideValue,
+  messageLimit: overrideValue,
+});
+
+export async function PUT(request: Request, context: unknown) {
+  const extracted = context as { params: { studentId: string } | Promise<{ studentId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { studentId } = resolvedParams;
+
+  try {
+    const teacherContext = await getTeacherSession();
+
+    if (!teacherContext) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const student = await prisma.student.findFirst({
+      where: { id: studentId, sessionId: teacherContext.session.id },
+      select: { id: true },
+    });
+
+    if (!student) {
+      return NextResponse.json({ message: 'Student not found in this session.' }, { status: 404 });
+    }
+
+    const json = await request.json();
+    const overrides = bodySchema.parse(json);
+
+    const updated = await prisma.student.update({
+      where: { id: student.id },
+      data: overrides,
+      select: quotaSelect,
+    });
+
+    return NextResponse.json({ overrides: updated });
+  } catch (error) {
+    console.error('Failed to update student quotas', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update student quotas' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { deleteSubmissionImages } from '@/lib/images';
+import { sessionUsernamesInUse } from '@/lib/rosters';
+import { removedUsageRows } from '@/lib/usage';
+import { USERNAME_PATTERN } from '@/lib/studentCredentials';
+
+const bodySchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .regex(USERNAME_PATTERN, 'Usernames are 3-32 letters, numbers, dots, dashes or underscores.')
+    .optional(),
+  displayName: z.string().trim().max(80, 'Names can be at most 80 characters.').nullable().optional(),
+  locked: z.boolean().optional(),
+});
+
+const studentSelect = { id: true, username: true, displayName: true, lockedAt: true, createdAt: true } as const;
+
+async function findStudent(context: unknown) {
+  const extracted = context as { params: { studentId: string } | Promise<{ studentId: string }> };
+  const resolvedParams = await Promise.resolve(extracted.params);
+  const { studentId } = resolvedParams;
+
+  const teacherContext = await getTeacherSession();
+  if (!teacherContext) {
+    return { error: NextResponse.json({ message: 'Teacher access only.' }, { status: 403 }) };
+  }
+
+  const student = await prisma.student.findFirst({
+    where: { id: studentId, sessionId: teacherContext.session.id },
+    select: studentSelect,
+  });
+
+  if (!student) {
+    return { error: NextResponse.json({ message: 'Student not found in this session.' }, { status: 404 }) };
+  }
+
+  return { student, session: teacherContext.session };
+}
+
+export async function PATCH(request: Request, context: unknown) {
+  try {
+    const found = await findStudent(context);
+    if ('error' in found) {
+      return found.error;
+    }
+    const { student, session } = found;
+
+    const json = await request.json();
+    const { username, displayName, locked } = bodySchema.parse(json);
+
+    if (username && username.toLowerCase() !== student.username.toLowerCase()) {
+      const { accountId } = await prisma.student.findUniqueOrThrow({ where: { id: student.id }, select: { accountId: true } });
+      const taken = await sessionUsernamesInUse(session, { id: student.id, accountId });
+      if (taken.has(username.toLowerCase())) {
+        const scope = session.rosterId ? 'in this session or its class' : 'in this session';
+        return NextResponse.json({ message: `The username "${username}" is already taken ${scope}.` }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.student.update({
+      where: { id: student.id },
+      data: {
+        ...(username ? { username } : {}),
+        ...(displayName !== undefined ? { displayName: displayName || null } : {}),
+        ...(locked !== undefined ? { lockedAt: locked ? student.lockedAt ?? new Date() : null } : {}),
+      },
+      select: studentSelect,
+    });
+
+    return NextResponse.json({ student: updated });
+  } catch (error) {
+    console.error('Failed to update student', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update the student' }, { status: 500 });
+  }
+}
+
+/** Removes the student with their prompts, images, chats and moderation log entries. */
+export async function DELETE(_request: Request, context: unknown) {
+  try {
+    const found = await findStudent(context);
+    if ('error' in found) {
+      return found.error;
+    }
+    const { student, session } = found;
+
+    const usage = await removedUsageRows(session.id, student.id);
+    const submissions = await prisma.promptSubmission.findMany({
+      where: { studentId: student.id },
+      select: { id: true, imageKey: true, thumbnailKey: true },
+    });
+    const submissionIds = submissions.map((submission) => submission.id);
+
+    await prisma.$transaction([
+      // Their spend stays in the session's totals and keeps counting against the budget.
+      prisma.removedUsage.createMany({ data: usage }),
+      // Images of other owners may point at this student's work; they keep their own copy.
+      prisma.promptSubmission.updateMany({
+        where: { parentSubmissionId: { in: submissionIds }, studentId: { not: student.id } },
+        data: { parentSubmissionId: null },
+      }),
+      prisma.promptSubmission.updateMany({
+        where: { rootSubmissionId: { in: submissionIds }, studentId: { not: student.id } },
+        data: { rootSubmissionId: null },
+      }),
+      prisma.promptSubmission.deleteMany({ where: { id: { in: submissionIds } } }),
+      prisma.chatMessage.deleteMany({ where: { OR: [{ studentId: student.id }, { thread: { studentId: student.id } }] } }),
+      prisma.chatThread.deleteMany({ where: { studentId: student.id } }),
+      prisma.moderationLog.deleteMany({ where: { studentId: student.id } }),
+      prisma.student.delete({ where: { id: student.id } }),
+    ]);
+
+    // Files go once the rows are gone, so a failed transaction never leaves rows without images.
+    for (const submission of submissions) {
+      await deleteSubmissionImages(submission).catch((storageError) => {
+        console.error('Failed to delete stored image', submission.id, storageError);
+      });
+    }
+
+    return NextResponse.json({ success: true, deletedSubmissions: submissions.length });
+  } catch (error) {
+    console.error('Failed to delete student', error);
+    return NextResponse.json({ message: 'Unable to delete the student' }, { status: 500 });
+  }
+}
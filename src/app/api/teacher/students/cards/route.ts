@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { joinSessionWithAccount } from '@/lib/rosters';
+import { LoginCard, quickLoginLink, toLoginCardsHtml } from '@/lib/loginCards';
+import { ROSTER_MAX_ROWS } from '@/lib/studentCredentials';
+import { issueQuickLoginToken } from '@/lib/tokens';
+
+const bodySchema = z.object({
+  students: z
+    .array(z.object({ username: z.string().min(1), password: z.string().max(100).optional() }))
+    .max(ROSTER_MAX_ROWS)
+    .optional(),
+});
+
+/**
+ * Printable login cards for the current session. Passwords are only stored hashed, so they appear
+ * on a card only when the dashboard passes them along right after creating or resetting them;
+ * without a list, every student in the session gets a card. Each card carries a fresh single-use
+ * sign-in link, replacing any earlier card's link that has not been used yet.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const { session } = context;
+    if (!session.isActive) {
+      return NextResponse.json({ message: 'Login cards can only be printed for a running session.' }, { status: 400 });
+    }
+
+    const json = await request.json().catch(() => ({}));
+    const { students: requested } = bodySchema.parse(json);
+
+    // Roster students who have not signed in yet get their place in the session now, so they get a card too.
+    if (!requested && session.rosterId) {
+      const accounts = await prisma.studentAccount.findMany({
+        where: { rosterId: session.rosterId, memberships: { none: { sessionId: session.id } } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, username: true, displayName: true, passwordHash: true },
+      });
+      for (const account of accounts) {
+        await joinSessionWithAccount(session.id, account);
+      }
+    }
+
+    const students = await prisma.student.findMany({
+      where: { sessionId: session.id, ...(requested ? { username: { in: requested.map((entry) => entry.username) } } : {}) },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, username: true, displayName: true },
+    });
+
+    const byUsername = new Map(students.map((student) => [student.username, student]));
+    const missing = requested?.find((entry) => !byUsername.has(entry.username));
+    if (missing) {
+      return NextResponse.json({ message: `${missing.username} is not a student in this session.` }, { status: 404 });
+    }
+
+    if (students.length === 0) {
+      return NextResponse.json({ message: 'There are no students in this session yet.' }, { status: 400 });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? new URL(request.url).origin;
+    const cards: LoginCard[] = [];
+    for (const entry of requested ?? students.map((student) => ({ username: student.username, password: undefined }))) {
+      const student = byUsername.get(entry.username);
+      if (!student) continue;
+      cards.push({
+        username: student.username,
+        displayName: student.displayName,
+        password: entry.password ?? null,
+        link: quickLoginLink(baseUrl, await issueQuickLoginToken(student.id)),
+      });
+    }
+
+    return new NextResponse(toLoginCardsHtml(session, cards), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    console.error('Failed to create login cards', error);
+    return NextResponse.json({ message: 'Unable to create login cards' }, { status: 500 });
+  }
+}
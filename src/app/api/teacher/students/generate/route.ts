@@ -1,42 +1,31 @@
-import crypto from 'crypto';
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromCookies } from '@/lib/session';
+import { getTeacherSession } from '@/lib/session';
 import { hashPassword } from '@/lib/auth';
+import { sessionUsernamesInUse } from '@/lib/rosters';
+import { randomCode } from '@/lib/studentCredentials';
 
 const bodySchema = z.object({
   count: z.number().int().min(1).max(50),
 });
 
-function randomCode(length = 8) {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
-  const bytes = crypto.randomBytes(length);
-  let result = '';
-  for (let i = 0; i < length; i += 1) {
-    result += chars[bytes[i] % chars.length];
-  }
-  return result;
-}
-
 export async function POST(request: Request) {
   try {
-    const { sessionId, role } = await getSessionFromCookies();
+    const context = await getTeacherSession();
 
-    if (!sessionId || role !== 'teacher') {
+    if (!context) {
       return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
     }
 
+    const sessionId = context.session.id;
+
     const json = await request.json();
     const { count } = bodySchema.parse(json);
 
-    const existing = await prisma.student.findMany({
-      where: { sessionId },
-      select: { username: true },
-    });
-    const usedUsernames = new Set(existing.map((entry) => entry.username.toLowerCase()));
+    const usedUsernames = await sessionUsernamesInUse(context.session);
 
-    const credentials: Array<{ username: string; password: string }> = [];
+    const credentials: Array<{ username: string; displayName: string | null; password: string }> = [];
 
     await prisma.$transaction(async (tx) => {
       for (let i = 0; i < count; i += 1) {
@@ -54,7 +43,7 @@ export async function POST(request: Request) {
             sessionId,
           },
         });
-        credentials.push({ username, password });
+        credentials.push({ username, displayName: null, password });
       }
     });
 
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { hashPassword } from '@/lib/auth';
+import { sessionUsernamesInUse } from '@/lib/rosters';
+import { planRoster, randomCode, rosterUploadSchema } from '@/lib/studentCredentials';
+
+export async function POST(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const sessionId = context.session.id;
+
+    const json = await request.json();
+    const { csv } = rosterUploadSchema.parse(json);
+
+    const taken = await sessionUsernamesInUse(context.session);
+    const plan = planRoster(csv, taken, context.session.rosterId ? 'in this session or its class' : 'in this session');
+
+    if (!plan.ok) {
+      return NextResponse.json({ message: plan.message, errors: plan.errors }, { status: 400 });
+    }
+
+    const credentials: Array<{ username: string; displayName: string; password: string }> = [];
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const { username, displayName } of plan.entries) {
+          const password = randomCode();
+          await tx.student.create({
+            data: {
+              username,
+              displayName,
+              passwordHash: await hashPassword(password),
+              sessionId,
+            },
+          });
+          credentials.push({ username, displayName, password });
+        }
+      },
+      { timeout: 60000 },
+    );
+
+    return NextResponse.json({ credentials });
+  } catch (error) {
+    console.error('Failed to import student roster', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to import the roster' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const students = await prisma.student.findMany({
+    where: { sessionId: context.session.id },
+    orderBy: { username: 'asc' },
+    select: { id: true, username: true, displayName: true, lockedAt: true, createdAt: true },
+  });
+
+  return NextResponse.json({ students });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { readStylePresets, STYLE_PRESET_LIMIT, stylePresetInputSchema, toStylePresets } from '@/lib/generationOptions';
+
+const bodySchema = z.object({
+  presets: z.array(stylePresetInputSchema).max(STYLE_PRESET_LIMIT, 'Keep the list to 12 styles or fewer').nullable(),
+});
+
+/** The style presets students can pick from, and whether they are still the built-in list. */
+export async function GET() {
+  const context = await getTeacherSession();
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    presets: readStylePresets(context.session.stylePresets),
+    isDefault: context.session.stylePresets === null,
+  });
+}
+
+/** Replaces the session's presets. `null` goes back to the built-in list and an empty list turns styles off. */
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { presets } = bodySchema.parse(json);
+
+    const updated = await prisma.session.update({
+      where: { id: context.session.id },
+      data: { stylePresets: presets === null ? null : JSON.stringify(toStylePresets(presets)) },
+      select: { stylePresets: true },
+    });
+
+    return NextResponse.json({
+      presets: readStylePresets(updated.stylePresets),
+      isDefault: updated.stylePresets === null,
+    });
+  } catch (error) {
+    console.error('Failed to update style presets', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update style presets' }, { status: 500 });
+  }
+}
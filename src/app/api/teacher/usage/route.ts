@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getTeacherSession } from '@/lib/session';
+import { BUDGET_MAX_USD, getSessionSpend } from '@/lib/usage';
+
+const bodySchema = z.object({
+  budgetUsd: z.number().min(0).max(BUDGET_MAX_USD).nullable(),
+});
+
+/** Tokens and cost so far for the session and each student, with the session's budget. */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const context = await getTeacherSession(searchParams.get('sessionId'));
+
+  if (!context) {
+    return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+  }
+
+  const sessionId = context.session.id;
+  const [students, spend] = await Promise.all([
+    prisma.student.findMany({
+      where: { sessionId },
+      orderBy: { username: 'asc' },
+      select: { id: true, username: true, displayName: true },
+    }),
+    getSessionSpend(sessionId),
+  ]);
+
+  const empty = { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  return NextResponse.json({
+    budgetUsd: context.session.budgetUsd,
+    spentUsd: spend.total.images.costUsd + spend.total.chat.costUsd,
+    total: spend.total,
+    students: students.map((student) => ({
+      ...student,
+      ...(spend.byStudent.get(student.id) ?? { images: empty, chat: empty }),
+    })),
+  });
+}
+
+/** Sets or clears the session's budget. Generation and chat pause once the cost so far reaches it. */
+export async function PUT(request: Request) {
+  try {
+    const context = await getTeacherSession();
+
+    if (!context) {
+      return NextResponse.json({ message: 'Teacher access only.' }, { status: 403 });
+    }
+
+    const json = await request.json();
+    const { budgetUsd } = bodySchema.parse(json);
+
+    const updated = await prisma.session.update({
+      where: { id: context.session.id },
+      data: { budgetUsd },
+      select: { budgetUsd: true },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Failed to update session budget', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ message: error.issues[0]?.message ?? 'Invalid input' }, { status: 400 });
+    }
+    return NextResponse.json({ message: 'Unable to update the budget' }, { status: 500 });
+  }
+}
@@ -6,17 +6,28 @@ import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { StudentNav } from '@/components/student/StudentNav';
+import { Allowance, describeAllowance, isExhausted, toAllowance } from '@/lib/allowance';
+import { studentLabel } from '@/lib/studentNames';
 
 interface SessionState {
   id: string;
+  joinCode: string;
   createdAt: string;
   role: 'student' | 'teacher' | undefined;
   student?: {
     id: string;
     username: string;
+    displayName: string | null;
   } | null;
 }
 
+interface ChatAllowance {
+  threads: Allowance;
+  messages: Allowance;
+  locked: boolean;
+  budgetReached: boolean;
+}
+
 interface ThreadSummary {
   id: string;
   title: string;
@@ -30,6 +41,7 @@ interface Message {
   id: string;
   content: string;
   sender: 'STUDENT' | 'AI';
+  isComplete: boolean;
   createdAt: string;
 }
 
@@ -46,16 +58,93 @@ function formatTime(iso: string) {
   }
 }
 
+async function readServerEvents(response: Response, onEvent: (event: string, data: unknown) => void) {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      let event = 'message';
+      let data = '';
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) {
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+}
+
+function MessageMarkdown({ content, isStudent }: { content: string; isStudent: boolean }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      components={{
+        a: ({ ...props }) => (
+          <a
+            {...props}
+            target="_blank"
+            rel="noreferrer"
+            className={isStudent ? 'underline text-sky-100 hover:text-white' : 'underline text-sky-600 hover:text-sky-500'}
+          />
+        ),
+        code: ({ className, children, ...props }) => {
+          const isInline = (props as { inline?: boolean }).inline;
+          if (isInline) {
+            return (
+              <code
+                className={`rounded bg-black/10 px-1 py-0.5 text-[0.8rem] ${className ?? ''}`}
+              >
+                {children}
+              </code>
+            );
+          }
+          return (
+            <pre
+              className={`rounded-xl bg-slate-900/90 px-3 py-3 text-[0.8rem] text-slate-100 overflow-x-auto ${className ?? ''}`}
+            >
+              <code>{children}</code>
+            </pre>
+          );
+        },
+        p: ({ children }) => <p className="leading-relaxed whitespace-pre-wrap">{children}</p>,
+        ul: ({ children }) => <ul className="ml-4 list-disc space-y-1">{children}</ul>,
+        ol: ({ children }) => <ol className="ml-4 list-decimal space-y-1">{children}</ol>,
+        li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+        strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+        h1: ({ children }) => <h1 className="text-lg font-semibold mb-2">{children}</h1>,
+        h2: ({ children }) => <h2 className="text-base font-semibold mb-2">{children}</h2>,
+        h3: ({ children }) => <h3 className="text-sm font-semibold mb-1">{children}</h3>,
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
+
 export default function StudentChatPage() {
   const [session, setSession] = useState<SessionState | null>(null);
   const [initializing, setInitializing] = useState(true);
+  const [joinCode, setJoinCode] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState<string | null>(null);
   const [loggingIn, setLoggingIn] = useState(false);
 
   const [threads, setThreads] = useState<ThreadSummary[]>([]);
-  const [threadLimit, setThreadLimit] = useState(5);
+  const [allowance, setAllowance] = useState<ChatAllowance | null>(null);
+  const [assistantPersona, setAssistantPersona] = useState<string | null>(null);
   const [threadsLoading, setThreadsLoading] = useState(false);
   const [threadError, setThreadError] = useState<string | null>(null);
   const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
@@ -65,6 +154,7 @@ export default function StudentChatPage() {
   const [messageError, setMessageError] = useState<string | null>(null);
   const [messageInput, setMessageInput] = useState('');
   const [sending, setSending] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
 
   const chatEndRef = useRef<HTMLDivElement | null>(null);
 
@@ -102,7 +192,8 @@ export default function StudentChatPage() {
       const data = await res.json();
       const threadList: ThreadSummary[] = data.threads ?? [];
       setThreads(threadList);
-      setThreadLimit(data.limit ?? 5);
+      setAllowance(data.allowance ?? null);
+      setAssistantPersona(data.assistantPersona ?? null);
       if (
         threadList.length > 0 &&
         (!selectedThreadId || !threadList.some((thread) => thread.id === selectedThreadId))
@@ -161,7 +252,7 @@ export default function StudentChatPage() {
     if (chatEndRef.current) {
       chatEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, sending]);
+  }, [messages, sending, streamingReply]);
 
   const handleLogin = useCallback(async () => {
     setLoggingIn(true);
@@ -171,7 +262,7 @@ export default function StudentChatPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({ joinCode, username, password }),
       });
 
       if (!res.ok) {
@@ -188,7 +279,7 @@ export default function StudentChatPage() {
     } finally {
       setLoggingIn(false);
     }
-  }, [username, password, loadSession]);
+  }, [joinCode, username, password, loadSession]);
 
   const handleCreateThread = useCallback(async () => {
     setThreadError(null);
@@ -209,7 +300,7 @@ export default function StudentChatPage() {
       const data = await res.json();
       const newThread = data.thread as ThreadSummary;
       setThreads((prev) => [newThread, ...prev.filter((thread) => thread.id !== newThread.id)]);
-      setThreadLimit(data.limit ?? 5);
+      setAllowance(data.allowance ?? null);
       setSelectedThreadId(newThread.id);
       setMessages([]);
     } catch (error) {
@@ -231,7 +322,7 @@ export default function StudentChatPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ content }),
+        body: JSON.stringify({ content, stream: true }),
       });
 
       if (!res.ok) {
@@ -240,10 +331,46 @@ export default function StudentChatPage() {
         return;
       }
 
-      const data = await res.json();
-      const newMessages: Message[] = data.messages ?? [];
-      setMessages((prev) => [...prev, ...newMessages]);
       setMessageInput('');
+      const newMessages: Message[] = [];
+      let settled = false;
+      setStreamingReply('');
+      await readServerEvents(res, (event, data) => {
+        if (event === 'student' || event === 'done') {
+          const message = data as Message;
+          newMessages.push(message);
+          setMessages((prev) => [...prev, message]);
+          if (event === 'student') {
+            setAllowance((prev) =>
+              prev ? { ...prev, messages: toAllowance(prev.messages.limit, prev.messages.used + 1) } : prev,
+            );
+          }
+          if (event === 'done') {
+            settled = true;
+            setStreamingReply(null);
+          }
+        } else if (event === 'delta') {
+          const { text } = data as { text: string };
+          setStreamingReply((prev) => (prev ?? '') + text);
+        } else if (event === 'error') {
+          const { message, partial } = data as { message?: string; partial: Message | null };
+          settled = true;
+          if (partial) {
+            newMessages.push(partial);
+            setMessages((prev) => [...prev, partial]);
+          }
+          setStreamingReply(null);
+          setMessageError(message ?? 'The assistant could not finish its reply.');
+        }
+      });
+
+      if (!settled) {
+        // The connection dropped before the final event; the server still saves what it received.
+        setStreamingReply(null);
+        await loadMessages(selectedThreadId);
+        return;
+      }
+
       setThreads((prev) =>
         prev
           .map((thread) =>
@@ -263,10 +390,11 @@ export default function StudentChatPage() {
       setMessageError('Something went wrong while sending your message.');
     } finally {
       setSending(false);
+      setStreamingReply(null);
     }
-  }, [messageInput, selectedThreadId]);
+  }, [messageInput, selectedThreadId, loadMessages]);
 
-  const threadUsage = useMemo(() => `${threads.length}/${threadLimit} chats used`, [threads.length, threadLimit]);
+  const threadUsage = useMemo(() => (allowance ? describeAllowance(allowance.threads, 'chats') : ''), [allowance]);
 
   if (initializing) {
     return (
@@ -285,6 +413,21 @@ export default function StudentChatPage() {
             <p className="text-sm text-slate-600">Enter the username and password your teacher provided.</p>
           </header>
           <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700" htmlFor="student-join-code">
+                Class join code
+              </label>
+              <input
+                id="student-join-code"
+                type="text"
+                autoComplete="off"
+                autoCapitalize="characters"
+                value={joinCode}
+                onChange={(event) => setJoinCode(event.target.value.toUpperCase())}
+                placeholder="Example: K7M2QX"
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 font-mono tracking-widest uppercase text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-300 focus:border-sky-400"
+              />
+            </div>
             <div className="space-y-2">
               <label className="text-sm font-medium text-slate-700" htmlFor="student-username">
                 Username
@@ -317,7 +460,7 @@ export default function StudentChatPage() {
           </div>
           <button
             onClick={() => void handleLogin()}
-            disabled={loggingIn || username.trim().length === 0 || password.trim().length === 0}
+            disabled={loggingIn || joinCode.trim().length === 0 || username.trim().length === 0 || password.trim().length === 0}
             className="w-full bg-sky-600 hover:bg-sky-700 disabled:bg-slate-300 disabled:text-slate-500 text-white font-medium py-3 rounded-lg transition"
           >
             {loggingIn ? 'Signing in...' : 'Enter classroom'}
@@ -338,12 +481,17 @@ export default function StudentChatPage() {
             <div>
               <h1 className="text-3xl font-semibold text-sky-900">Classroom Chat Assistant</h1>
               <p className="text-sm text-slate-600">Ask questions, brainstorm ideas, and get help from the AI assistant.</p>
+              {assistantPersona ? (
+                <p className="text-xs font-medium text-sky-700">Today&apos;s assistant: {assistantPersona}</p>
+              ) : null}
             </div>
           </div>
           <div className="text-sm text-slate-500 text-right space-y-1">
             <p>
               Signed in as{' '}
-              <span className="font-medium text-slate-700">{session.student?.username ?? 'Student'}</span>
+              <span className="font-medium text-slate-700">
+                {session.student ? studentLabel(session.student.username, session.student.displayName) : 'Student'}
+              </span>
             </p>
             <p className="text-xs uppercase tracking-wide text-slate-400">{threadUsage}</p>
           </div>
@@ -356,13 +504,24 @@ export default function StudentChatPage() {
                 <h2 className="text-base font-semibold text-slate-800">Your conversations</h2>
                 <button
                   onClick={() => void handleCreateThread()}
-                  disabled={threads.length >= threadLimit}
+                  disabled={isExhausted(allowance?.threads) || allowance?.locked || allowance?.budgetReached}
                   className="text-sm bg-sky-600 hover:bg-sky-700 disabled:bg-slate-300 disabled:text-slate-500 text-white font-medium px-4 py-2 rounded-lg transition"
                 >
                   New chat
                 </button>
               </div>
-              <p className="text-xs text-slate-500">You can create up to {threadLimit} chats per class.</p>
+              {allowance?.locked ? (
+                <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+                  Your teacher has paused your account. You can still read your chats.
+                </p>
+              ) : allowance?.budgetReached ? (
+                <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+                  Your class has used its AI budget for this session, so chat is paused. You can still read your chats.
+                </p>
+              ) : null}
+              {allowance?.threads.limit !== undefined ? (
+                <p className="text-xs text-slate-500">You can create up to {allowance.threads.limit} chats per class.</p>
+              ) : null}
               {threadError ? (
                 <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
                   {threadError}
@@ -428,57 +587,27 @@ export default function StudentChatPage() {
                               isStudent ? 'bg-sky-600 text-white' : 'bg-white text-slate-800'
                             }`}
                           >
-                            <ReactMarkdown
-                              remarkPlugins={[remarkGfm, remarkMath]}
-                              rehypePlugins={[rehypeKatex]}
-                              components={{
-                                a: ({ ...props }) => (
-                                  <a
-                                    {...props}
-                                    target="_blank"
-                                    rel="noreferrer"
-                                    className={isStudent ? 'underline text-sky-100 hover:text-white' : 'underline text-sky-600 hover:text-sky-500'}
-                                  />
-                                ),
-                                code: ({ className, children, ...props }) => {
-                                  const isInline = (props as { inline?: boolean }).inline;
-                                  if (isInline) {
-                                    return (
-                                      <code
-                                        className={`rounded bg-black/10 px-1 py-0.5 text-[0.8rem] ${className ?? ''}`}
-                                      >
-                                        {children}
-                                      </code>
-                                    );
-                                  }
-                                  return (
-                                    <pre
-                                      className={`rounded-xl bg-slate-900/90 px-3 py-3 text-[0.8rem] text-slate-100 overflow-x-auto ${className ?? ''}`}
-                                    >
-                                      <code>{children}</code>
-                                    </pre>
-                                  );
-                                },
-                                p: ({ children }) => <p className="leading-relaxed whitespace-pre-wrap">{children}</p>,
-                                ul: ({ children }) => <ul className="ml-4 list-disc space-y-1">{children}</ul>,
-                                ol: ({ children }) => <ol className="ml-4 list-decimal space-y-1">{children}</ol>,
-                                li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-                                strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                                h1: ({ children }) => <h1 className="text-lg font-semibold mb-2">{children}</h1>,
-                                h2: ({ children }) => <h2 className="text-base font-semibold mb-2">{children}</h2>,
-                                h3: ({ children }) => <h3 className="text-sm font-semibold mb-1">{children}</h3>,
-                              }}
-                            >
-                              {message.content}
-                            </ReactMarkdown>
+                            <MessageMarkdown content={message.content} isStudent={isStudent} />
                             <span className={`mt-2 block text-xs ${isStudent ? 'text-sky-100/80' : 'text-slate-400'}`}>
                               {formatTime(message.createdAt)}
+                              {message.isComplete ? null : ' · Reply interrupted'}
                             </span>
                           </div>
                         </div>
                       );
                     })
                   )}
+                  {streamingReply !== null ? (
+                    <div className="flex justify-start">
+                      <div className="markdown-message max-w-[75%] rounded-2xl px-4 py-3 shadow-sm bg-white text-slate-800">
+                        {streamingReply.length > 0 ? (
+                          <MessageMarkdown content={streamingReply} isStudent={false} />
+                        ) : (
+                          <p className="text-sm text-slate-400">Thinking...</p>
+                        )}
+                      </div>
+                    </div>
+                  ) : null}
                   <div ref={chatEndRef} />
                 </div>
                 <footer className="border-t border-slate-200 px-6 py-4 space-y-3 bg-white">
@@ -500,10 +629,13 @@ export default function StudentChatPage() {
                     className="w-full min-h-24 rounded-xl border border-slate-200 px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-sky-300 focus:border-sky-400"
                   />
                   <div className="flex items-center justify-between">
-                    <p className="text-xs text-slate-400">Press Enter to send. Shift + Enter for a new line.</p>
+                    <p className="text-xs text-slate-400">
+                      Press Enter to send. Shift + Enter for a new line.
+                      {allowance ? ` ${describeAllowance(allowance.messages, 'messages')}.` : null}
+                    </p>
                     <button
                       onClick={() => void handleSendMessage()}
-                      disabled={sending || messageInput.trim().length === 0}
+                      disabled={sending || messageInput.trim().length === 0 || isExhausted(allowance?.messages) || allowance?.locked || allowance?.budgetReached}
                       className="inline-flex items-center gap-2 bg-sky-600 hover:bg-sky-700 disabled:bg-slate-300 disabled:text-slate-500 text-white font-medium px-5 py-2.5 rounded-lg transition"
                     >
                       {sending ? 'Sending...' : 'Send'}
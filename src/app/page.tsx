@@ -3,23 +3,30 @@
 import Image from 'next/image';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { StudentNav } from '@/components/student/StudentNav';
+import { Allowance, describeAllowance, isExhausted } from '@/lib/allowance';
+import { AspectRatio, aspectRatios, DEFAULT_ASPECT_RATIO, describeGenerationOptions, MAX_VARIANTS, StylePreset } from '@/lib/generationOptions';
+import { studentLabel } from '@/lib/studentNames';
 
 interface SessionState {
   id: string;
+  joinCode: string;
   createdAt: string;
   role: 'student' | 'teacher' | undefined;
   student?: {
     id: string;
     username: string;
+    displayName: string | null;
   } | null;
 }
 
 interface Submission {
   id: string;
   prompt: string;
+  role: 'STUDENT' | 'TEACHER';
   createdAt: string;
   status: 'PENDING' | 'SUCCESS' | 'ERROR';
-  imageData: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
   imageMimeType: string | null;
   revisionIndex: number;
   rootSubmissionId: string | null;
@@ -27,13 +34,54 @@ interface Submission {
   remainingEdits: number;
   errorMessage: string | null;
   isShared: boolean;
+  shareStatus: 'PENDING' | 'APPROVED' | 'REJECTED' | null;
+  shareReviewNote: string | null;
+  aspectRatio: string | null;
+  stylePreset: string | null;
+  variantIndex: number;
+  variantCount: number;
+  startedFromTeacherDemo: boolean;
   ownedByCurrentUser: boolean;
   studentUsername: string | null;
+  studentDisplayName: string | null;
+}
+
+interface StudentAllowance {
+  images: Allowance;
+  threads: Allowance;
+  messages: Allowance;
+  refinementLimit: number;
+  locked: boolean;
+  budgetReached: boolean;
 }
 
 interface FetchSubmissionsResponse {
   submissions: Submission[];
+  nextCursor?: string | null;
   role?: 'student' | 'teacher';
+  allowance?: StudentAllowance | null;
+  requireShareApproval?: boolean;
+  stylePresets?: StylePreset[];
+}
+
+const PAGE_SIZE = 24;
+
+/**
+ * Applies fresh copies of submissions and keeps the list newest first. Requested IDs missing from
+ * the updates are no longer visible (for example a classmate unshared them) and are dropped.
+ */
+function mergeSubmissions(current: Submission[], updates: Submission[], requestedIds: string[] = []) {
+  const byId = new Map(
+    current
+      .filter((submission) => !requestedIds.includes(submission.id))
+      .map((submission) => [submission.id, submission]),
+  );
+  for (const update of updates) {
+    byId.set(update.id, update);
+  }
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
 }
 
 const timestampFormatter = new Intl.DateTimeFormat('en-US', {
@@ -50,11 +98,11 @@ function toDisplayTime(iso: string) {
 }
 
 function downloadImage(submission: Submission) {
-  if (!submission.imageData) return;
+  if (!submission.imageUrl) return;
   const mimeType = submission.imageMimeType || 'image/png';
   const prefix = mimeType.split('/')[1] || 'png';
   const link = document.createElement('a');
-  link.href = `data:${mimeType};base64,${submission.imageData}`;
+  link.href = submission.imageUrl;
   const revisionLabel = submission.revisionIndex > 0 ? `-rev${submission.revisionIndex}` : '';
   link.download = `classroom-image-${submission.id}${revisionLabel}.${prefix}`;
   document.body.appendChild(link);
@@ -65,17 +113,28 @@ function downloadImage(submission: Submission) {
 export default function StudentHome() {
   const [session, setSession] = useState<SessionState | null>(null);
   const [initializing, setInitializing] = useState(true);
+  const [joinCode, setJoinCode] = useState('');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState<string | null>(null);
   const [loggingIn, setLoggingIn] = useState(false);
   const [prompt, setPrompt] = useState('');
   const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [allowance, setAllowance] = useState<StudentAllowance | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [requireShareApproval, setRequireShareApproval] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [fetchingSubmissions, setFetchingSubmissions] = useState(false);
   const [generateError, setGenerateError] = useState<string | null>(null);
   const [generatingId, setGeneratingId] = useState<string | null>(null);
   const [shareUpdatingId, setShareUpdatingId] = useState<string | null>(null);
   const [shareError, setShareError] = useState<string | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [stylePresetId, setStylePresetId] = useState('');
+  const [variants, setVariants] = useState(1);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [retryError, setRetryError] = useState<string | null>(null);
 
   const loadSession = useCallback(async () => {
     try {
@@ -103,10 +162,14 @@ export default function StudentHome() {
     setFetchingSubmissions(true);
     setShareError(null);
     try {
-      const res = await fetch('/api/images', { credentials: 'include' });
+      const res = await fetch(`/api/images?limit=${PAGE_SIZE}`, { credentials: 'include' });
       if (!res.ok) return;
       const data: FetchSubmissionsResponse = await res.json();
       setSubmissions(data.submissions ?? []);
+      setNextCursor(data.nextCursor ?? null);
+      setAllowance(data.allowance ?? null);
+      setRequireShareApproval(data.requireShareApproval ?? false);
+      setStylePresets(data.stylePresets ?? []);
     } catch (error) {
       console.error('Failed to load submissions', error);
     } finally {
@@ -114,16 +177,89 @@ export default function StudentHome() {
     }
   }, [session?.id]);
 
+  const loadMoreSubmissions = useCallback(async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/images?limit=${PAGE_SIZE}&cursor=${encodeURIComponent(nextCursor)}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) return;
+      const data: FetchSubmissionsResponse = await res.json();
+      setSubmissions((prev) => mergeSubmissions(prev, data.submissions ?? []));
+      setNextCursor(data.nextCursor ?? null);
+    } catch (error) {
+      console.error('Failed to load more submissions', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor]);
+
+  // Refetches just the given entries so pages loaded further down stay in place.
+  const refreshSubmissions = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      const res = await fetch(`/api/images?limit=${ids.length}&ids=${ids.map(encodeURIComponent).join(',')}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) return;
+      const data: FetchSubmissionsResponse = await res.json();
+      setSubmissions((prev) => mergeSubmissions(prev, data.submissions ?? [], ids));
+      setAllowance(data.allowance ?? null);
+    } catch (error) {
+      console.error('Failed to refresh submissions', error);
+    }
+  }, []);
+
+  // Remaining refinements are shared by a whole chain, so its loaded members are refreshed together.
+  const withChainMembers = useCallback(
+    (ids: string[]) => {
+      const roots = new Set(
+        submissions
+          .filter((submission) => ids.includes(submission.id))
+          .map((submission) => submission.rootSubmissionId ?? submission.id),
+      );
+      const members = submissions
+        .filter((submission) => roots.has(submission.rootSubmissionId ?? submission.id))
+        .map((submission) => submission.id);
+      return Array.from(new Set([...ids, ...members]));
+    },
+    [submissions],
+  );
+
   useEffect(() => {
     void loadSession();
   }, [loadSession]);
 
+  // The login card's QR link lands here with ?signin=... when it could not sign the student in.
+  useEffect(() => {
+    const signin = new URLSearchParams(window.location.search).get('signin');
+    if (!signin) return;
+    setAuthError(
+      signin === 'expired'
+        ? 'That login card has already been used or has expired. Sign in with your username and password.'
+        : 'Something went wrong with that login card. Sign in with your username and password.',
+    );
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
   useEffect(() => {
     if (session?.id && session.role === 'student') {
       void loadSubmissions();
     }
   }, [session?.id, session?.role, loadSubmissions]);
 
+  // Classmates' shares and our own finished images arrive live; the status poll below stays as a fallback.
+  useEffect(() => {
+    if (!session?.id || session.role !== 'student') return;
+    const source = new EventSource('/api/events');
+    source.addEventListener('submission', (event) => {
+      const data = JSON.parse((event as MessageEvent<string>).data) as { submissionId: string };
+      void refreshSubmissions([data.submissionId]);
+    });
+    return () => source.close();
+  }, [session?.id, session?.role, refreshSubmissions]);
+
   const handleLogin = useCallback(async () => {
     setLoggingIn(true);
     setAuthError(null);
@@ -132,7 +268,7 @@ export default function StudentHome() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify({ joinCode, username, password }),
       });
 
       if (!res.ok) {
@@ -149,7 +285,7 @@ export default function StudentHome() {
     } finally {
       setLoggingIn(false);
     }
-  }, [username, password, loadSession]);
+  }, [joinCode, username, password, loadSession]);
 
   const handleGenerate = useCallback(
     async (parentSubmissionId?: string, promptOverride?: string) => {
@@ -166,10 +302,12 @@ export default function StudentHome() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
-          body: JSON.stringify({
-            prompt: textPrompt,
-            parentSubmissionId,
-          }),
+          // Refinements leave the options out so they keep the shape and style of the image they refine.
+          body: JSON.stringify(
+            parentSubmissionId
+              ? { prompt: textPrompt, parentSubmissionId }
+              : { prompt: textPrompt, aspectRatio, stylePresetId: stylePresetId || null, variants },
+          ),
         });
 
         if (!res.ok) {
@@ -178,8 +316,12 @@ export default function StudentHome() {
           return;
         }
 
+        const data: { submissions: Array<{ id: string }> } = await res.json();
+        const createdIds = data.submissions.map((submission) => submission.id);
         setPrompt('');
-        await loadSubmissions();
+        await refreshSubmissions(
+          withChainMembers(parentSubmissionId ? [...createdIds, parentSubmissionId] : createdIds),
+        );
       } catch (error) {
         console.error('Image generation failed', error);
         setGenerateError('Something went wrong while generating the image.');
@@ -187,7 +329,34 @@ export default function StudentHome() {
         setGeneratingId(null);
       }
     },
-    [prompt, loadSubmissions],
+    [prompt, aspectRatio, stylePresetId, variants, refreshSubmissions, withChainMembers],
+  );
+
+  const handleRetry = useCallback(
+    async (submissionId: string) => {
+      setRetryingId(submissionId);
+      setRetryError(null);
+      try {
+        const res = await fetch(`/api/images/${submissionId}/retry`, {
+          method: 'POST',
+          credentials: 'include',
+        });
+
+        if (!res.ok) {
+          const error = await res.json().catch(() => ({ message: 'Unable to retry this image.' }));
+          setRetryError(error.message ?? 'Unable to retry this image.');
+          return;
+        }
+
+        await refreshSubmissions(withChainMembers([submissionId]));
+      } catch (error) {
+        console.error('Failed to retry image', error);
+        setRetryError('Something went wrong while retrying the image.');
+      } finally {
+        setRetryingId(null);
+      }
+    },
+    [refreshSubmissions, withChainMembers],
   );
 
   const handleShareToggle = useCallback(
@@ -208,9 +377,17 @@ export default function StudentHome() {
           return;
         }
 
+        const data = await res.json();
         setSubmissions((prev) =>
           prev.map((item) =>
-            item.id === submissionId ? { ...item, isShared: share } : item,
+            item.id === submissionId
+              ? {
+                  ...item,
+                  isShared: data.isShared,
+                  shareStatus: data.shareStatus ?? null,
+                  shareReviewNote: data.shareReviewNote ?? null,
+                }
+              : item,
           ),
         );
       } catch (error) {
@@ -223,6 +400,35 @@ export default function StudentHome() {
     [],
   );
 
+  const pendingKey = useMemo(
+    () =>
+      submissions
+        .filter((submission) => submission.status === 'PENDING' && submission.ownedByCurrentUser)
+        .map((submission) => submission.id)
+        .join(','),
+    [submissions],
+  );
+
+  useEffect(() => {
+    if (!pendingKey) return;
+    const timer = setInterval(async () => {
+      const results = await Promise.all(
+        pendingKey.split(',').map((id) =>
+          fetch(`/api/images/${id}/status`, { credentials: 'include' })
+            .then((res) => (res.ok ? res.json() : null))
+            .catch(() => null),
+        ),
+      );
+      const finishedIds = results
+        .filter((result) => result?.submission && result.submission.status !== 'PENDING')
+        .map((result) => result.submission.id as string);
+      if (finishedIds.length > 0) {
+        void refreshSubmissions(withChainMembers(finishedIds));
+      }
+    }, 2500);
+    return () => clearInterval(timer);
+  }, [pendingKey, refreshSubmissions, withChainMembers]);
+
   const groupedSubmissions = useMemo(() => {
     const result = new Map<string, Submission[]>();
     for (const submission of submissions) {
@@ -259,6 +465,21 @@ export default function StudentHome() {
             ) : null}
           </header>
           <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700" htmlFor="student-join-code">
+                Class join code
+              </label>
+              <input
+                id="student-join-code"
+                type="text"
+                autoComplete="off"
+                autoCapitalize="characters"
+                value={joinCode}
+                onChange={(event) => setJoinCode(event.target.value.toUpperCase())}
+                placeholder="Example: K7M2QX"
+                className="w-full rounded-lg border border-slate-200 px-4 py-3 font-mono tracking-widest uppercase text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-300 focus:border-sky-400"
+              />
+            </div>
             <div className="space-y-2">
               <label className="text-sm font-medium text-slate-700" htmlFor="student-username">
                 Username
@@ -291,7 +512,7 @@ export default function StudentHome() {
           </div>
           <button
             onClick={() => void handleLogin()}
-            disabled={loggingIn || username.trim().length === 0 || password.trim().length === 0}
+            disabled={loggingIn || joinCode.trim().length === 0 || username.trim().length === 0 || password.trim().length === 0}
             className="w-full bg-sky-600 hover:bg-sky-700 disabled:bg-slate-300 disabled:text-slate-500 text-white font-medium py-3 rounded-lg transition"
           >
             {loggingIn ? 'Signing in...' : 'Enter classroom'}
@@ -316,7 +537,7 @@ export default function StudentHome() {
             <p>
               Signed in as{' '}
               <span className="font-medium text-slate-700">
-                {session.student?.username ?? 'Student'}
+                {session.student ? studentLabel(session.student.username, session.student.displayName) : 'Student'}
               </span>
             </p>
             <p>
@@ -327,8 +548,28 @@ export default function StudentHome() {
         </header>
 
         <section className="bg-white rounded-2xl shadow-lg border border-slate-200 p-6 space-y-4">
-          <h2 className="text-xl font-semibold text-slate-800">Create a new image</h2>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-xl font-semibold text-slate-800">Create a new image</h2>
+            {allowance ? (
+              <span
+                className={`text-xs font-medium rounded-full px-3 py-1 ${
+                  isExhausted(allowance.images) ? 'bg-rose-100 text-rose-700' : 'bg-sky-100 text-sky-700'
+                }`}
+              >
+                {describeAllowance(allowance.images, 'images')}
+              </span>
+            ) : null}
+          </div>
           <p className="text-sm text-slate-600">Describe what you want to see. Try adding colors, settings, and actions to get the best results.</p>
+          {allowance?.locked ? (
+            <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+              Your teacher has paused your account. You can still look at the gallery.
+            </p>
+          ) : allowance?.budgetReached ? (
+            <p className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+              Your class has used its AI budget for this session, so new images are paused. You can still look at the gallery.
+            </p>
+          ) : null}
           <textarea
             value={prompt}
             onChange={(event) => {
@@ -338,14 +579,65 @@ export default function StudentHome() {
             placeholder="Example: A futuristic city skyline at sunset with flying cars"
             className="w-full min-h-28 rounded-xl border border-slate-200 px-4 py-3 text-base focus:outline-none focus:ring-2 focus:ring-sky-300 focus:border-sky-400"
           />
+          <div className="flex flex-wrap gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+              Shape
+              <select
+                value={aspectRatio}
+                onChange={(event) => setAspectRatio(event.target.value as AspectRatio)}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-300"
+              >
+                {aspectRatios.map((ratio) => (
+                  <option key={ratio.id} value={ratio.id}>
+                    {ratio.label} ({ratio.id})
+                  </option>
+                ))}
+              </select>
+            </label>
+            {stylePresets.length > 0 ? (
+              <label className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+                Style
+                <select
+                  value={stylePresetId}
+                  onChange={(event) => setStylePresetId(event.target.value)}
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-300"
+                >
+                  <option value="">No style</option>
+                  {stylePresets.map((preset) => (
+                    <option key={preset.id} value={preset.id} title={preset.prompt}>
+                      {preset.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+              Variants
+              <select
+                value={variants}
+                onChange={(event) => setVariants(Number(event.target.value))}
+                className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-300"
+              >
+                {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map((count) => (
+                  <option
+                    key={count}
+                    value={count}
+                    disabled={allowance?.images.remaining !== null && allowance?.images.remaining !== undefined && count > allowance.images.remaining}
+                  >
+                    {count === 1 ? '1 image' : `${count} images`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
           {generateError ? <p className="text-sm text-rose-600">{generateError}</p> : null}
           <div className="flex flex-wrap items-center gap-3 justify-between">
             <button
               onClick={() => void handleGenerate()}
-              disabled={generatingId !== null || prompt.trim().length < 5}
+              disabled={generatingId !== null || prompt.trim().length < 5 || isExhausted(allowance?.images) || allowance?.locked || allowance?.budgetReached}
               className="inline-flex items-center gap-2 bg-sky-600 hover:bg-sky-700 disabled:bg-slate-300 disabled:text-slate-500 text-white font-medium px-5 py-3 rounded-lg transition"
             >
-              {generatingId === 'new' ? 'Generating...' : 'Generate image'}
+              {generatingId === 'new' ? 'Submitting...' : variants > 1 ? `Generate ${variants} images` : 'Generate image'}
             </button>
             <button
               onClick={() => {
@@ -374,6 +666,11 @@ export default function StudentHome() {
               {shareError}
             </div>
           ) : null}
+          {retryError ? (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+              {retryError}
+            </div>
+          ) : null}
           {submissions.length === 0 ? (
             <div className="bg-white border border-dashed border-slate-300 rounded-2xl p-10 text-center text-slate-500">
               No images yet. Be the first to create one!
@@ -384,13 +681,26 @@ export default function StudentHome() {
                 const first = chain[0];
                 const chainShared = chain.some((entry) => entry.isShared);
                 const ownedByMe = chain.some((entry) => entry.ownedByCurrentUser);
-                const ownerLabel = ownedByMe ? 'You' : first?.studentUsername ?? 'Classmate';
+                const isTeacherDemo = first?.role === 'TEACHER';
+                const ownerLabel = ownedByMe
+                  ? 'You'
+                  : isTeacherDemo
+                    ? 'Your teacher'
+                    : first?.studentUsername
+                      ? studentLabel(first.studentUsername, first.studentDisplayName)
+                      : 'Classmate';
                 return (
-                  <article key={rootId} className="bg-white border border-slate-200 rounded-2xl shadow-sm p-5 space-y-5">
+                  <article
+                    key={rootId}
+                    className={`bg-white border rounded-2xl shadow-sm p-5 space-y-5 ${isTeacherDemo ? 'border-violet-300' : 'border-slate-200'}`}
+                  >
                     <header className="space-y-2">
                       <p className="text-sm text-slate-500">Started {toDisplayTime(first?.createdAt ?? '')}</p>
                       <p className="text-base font-medium text-slate-800">{first?.prompt}</p>
                       <div className="flex flex-wrap gap-2 text-xs text-slate-500">
+                        {isTeacherDemo ? (
+                          <span className="rounded-full bg-violet-600 px-3 py-1 font-semibold tracking-wide text-white">TEACHER</span>
+                        ) : null}
                         <span className="rounded-full bg-slate-100 px-3 py-1 font-medium text-slate-600">
                           Owner: {ownerLabel}
                         </span>
@@ -403,10 +713,10 @@ export default function StudentHome() {
                       {chain.map((submission) => (
                         <div key={submission.id} className="space-y-3">
                         <div className="relative overflow-hidden rounded-xl border border-slate-200">
-                          {submission.imageData ? (
+                          {submission.thumbnailUrl ? (
                             <div className="relative aspect-[4/3] w-full">
                               <Image
-                                src={`data:${submission.imageMimeType ?? 'image/png'};base64,${submission.imageData}`}
+                                src={submission.thumbnailUrl}
                                 alt={submission.prompt}
                                 fill
                                 sizes="(max-width: 768px) 100vw, (max-width: 1280px) 50vw, 33vw"
@@ -414,20 +724,34 @@ export default function StudentHome() {
                                 className="object-cover"
                               />
                             </div>
+                          ) : submission.status === 'PENDING' ? (
+                            <div className="h-64 flex flex-col items-center justify-center gap-2 bg-sky-50 text-sky-700">
+                              <span className="h-6 w-6 rounded-full border-2 border-sky-300 border-t-sky-600 animate-spin" />
+                              <span className="text-sm font-medium">Generating...</span>
+                            </div>
                           ) : (
                             <div className="h-64 flex items-center justify-center text-slate-500">
                               Image unavailable
                             </div>
                           )}
                           <div className="absolute top-3 right-3 text-xs bg-white/80 px-3 py-1 rounded-full text-slate-600">
-                            {submission.revisionIndex === 0 ? 'Original' : `Refinement ${submission.revisionIndex}`}
+                            {submission.revisionIndex > 0
+                              ? `Refinement ${submission.revisionIndex}`
+                              : submission.startedFromTeacherDemo
+                                ? 'From teacher demo'
+                                : 'Original'}
                           </div>
                         </div>
                         <div className="flex flex-wrap items-center gap-3">
                           <span className="text-xs font-medium text-slate-500">
                             Created at {toDisplayTime(submission.createdAt)}
                           </span>
-                          {submission.status === 'SUCCESS' ? (
+                          {describeGenerationOptions(submission) ? (
+                            <span className="text-xs font-medium text-slate-600 bg-slate-100 px-3 py-1 rounded-full">
+                              {describeGenerationOptions(submission)}
+                            </span>
+                          ) : null}
+                          {submission.status === 'SUCCESS' && submission.role === 'STUDENT' ? (
                             <span className="text-xs font-semibold text-sky-700 bg-sky-100 px-3 py-1 rounded-full">
                               {submission.remainingEdits} refinements left
                             </span>
@@ -437,11 +761,30 @@ export default function StudentHome() {
                               {submission.errorMessage ?? 'Generation failed'}
                             </span>
                           ) : null}
+                          {submission.status === 'ERROR' && submission.ownedByCurrentUser && !allowance?.locked && !allowance?.budgetReached ? (
+                            <button
+                              onClick={() => void handleRetry(submission.id)}
+                              disabled={retryingId !== null || isExhausted(allowance?.images)}
+                              className="text-xs font-medium rounded-full px-3 py-1 border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:bg-slate-200 disabled:text-slate-500"
+                            >
+                              {retryingId === submission.id ? 'Retrying...' : 'Retry'}
+                            </button>
+                          ) : null}
                           {submission.status === 'SUCCESS' && submission.isShared ? (
                             <span className="text-xs font-semibold text-emerald-700 bg-emerald-100 px-3 py-1 rounded-full">
                               Shared
                             </span>
                           ) : null}
+                          {submission.shareStatus === 'PENDING' ? (
+                            <span className="text-xs font-semibold text-amber-700 bg-amber-100 px-3 py-1 rounded-full">
+                              Waiting for teacher approval
+                            </span>
+                          ) : null}
+                          {submission.shareStatus === 'REJECTED' ? (
+                            <span className="text-xs font-semibold text-rose-700 bg-rose-100 px-3 py-1 rounded-full">
+                              Not shared: {submission.shareReviewNote ?? 'your teacher kept this image private.'}
+                            </span>
+                          ) : null}
                         </div>
                         {submission.status === 'SUCCESS' ? (
                           <div className="flex flex-wrap gap-3">
@@ -453,7 +796,12 @@ export default function StudentHome() {
                             </button>
                             {submission.ownedByCurrentUser ? (
                               <button
-                                onClick={() => void handleShareToggle(submission.id, !submission.isShared)}
+                                onClick={() =>
+                                  void handleShareToggle(
+                                    submission.id,
+                                    !(submission.isShared || submission.shareStatus === 'PENDING'),
+                                  )
+                                }
                                 disabled={shareUpdatingId === submission.id}
                                 className="text-sm font-medium rounded-lg px-3 py-2 border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:bg-slate-200 disabled:text-slate-500"
                               >
@@ -461,10 +809,14 @@ export default function StudentHome() {
                                   ? 'Saving...'
                                   : submission.isShared
                                     ? 'Unshare'
-                                    : 'Share with class'}
+                                    : submission.shareStatus === 'PENDING'
+                                      ? 'Cancel share request'
+                                      : requireShareApproval
+                                        ? 'Ask to share'
+                                        : 'Share with class'}
                               </button>
                             ) : null}
-                            {submission.ownedByCurrentUser && submission.remainingEdits > 0 ? (
+                            {submission.ownedByCurrentUser && submission.remainingEdits > 0 && !isExhausted(allowance?.images) && !allowance?.locked && !allowance?.budgetReached ? (
                               <RefineButton
                                 key={`${submission.id}-refine`}
                                 submission={submission}
@@ -472,6 +824,15 @@ export default function StudentHome() {
                                 disabled={generatingId !== null}
                               />
                             ) : null}
+                            {submission.role === 'TEACHER' && !isExhausted(allowance?.images) && !allowance?.locked && !allowance?.budgetReached ? (
+                              <RefineButton
+                                key={`${submission.id}-start`}
+                                submission={submission}
+                                onRefine={handleGenerate}
+                                disabled={generatingId !== null}
+                                label="Start from this"
+                              />
+                            ) : null}
                           </div>
                         ) : null}
                         </div>
@@ -482,6 +843,17 @@ export default function StudentHome() {
               })}
             </div>
           )}
+          {nextCursor ? (
+            <div className="flex justify-center">
+              <button
+                onClick={() => void loadMoreSubmissions()}
+                disabled={loadingMore}
+                className="text-sm font-medium rounded-lg px-4 py-2 border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:bg-slate-200 disabled:text-slate-500"
+              >
+                {loadingMore ? 'Loading...' : 'Load older images'}
+              </button>
+            </div>
+          ) : null}
         </section>
       </div>
     </main>
@@ -492,9 +864,11 @@ interface RefineButtonProps {
   submission: Submission;
   onRefine: (parentSubmissionId: string, promptOverride: string) => Promise<void>;
   disabled: boolean;
+  /** Teacher demos say "Start from this", since the result begins the student's own chain. */
+  label?: string;
 }
 
-function RefineButton({ submission, onRefine, disabled }: RefineButtonProps) {
+function RefineButton({ submission, onRefine, disabled, label = 'Refine image' }: RefineButtonProps) {
   const [open, setOpen] = useState(false);
   const [refinePrompt, setRefinePrompt] = useState(submission.prompt);
   const [error, setError] = useState<string | null>(null);
@@ -525,7 +899,7 @@ function RefineButton({ submission, onRefine, disabled }: RefineButtonProps) {
         disabled={disabled}
         className="text-sm font-medium text-white bg-emerald-500 hover:bg-emerald-600 disabled:bg-slate-300 rounded-lg px-3 py-2 transition"
       >
-        Refine image
+        {label}
       </button>
     );
   }
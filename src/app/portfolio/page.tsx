@@ -0,0 +1,248 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { StudentNav } from '@/components/student/StudentNav';
+
+interface PortfolioSubmission {
+  id: string;
+  prompt: string;
+  createdAt: string;
+  revisionIndex: number;
+  rootSubmissionId: string | null;
+  isShared: boolean;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+}
+
+interface PortfolioThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: Array<{ id: string; content: string; sender: 'STUDENT' | 'AI'; createdAt: string }>;
+}
+
+interface PortfolioSession {
+  id: string;
+  joinCode: string;
+  createdAt: string;
+  endedAt: string | null;
+  isActive: boolean;
+  isCurrent: boolean;
+  submissions: PortfolioSubmission[];
+  threads: PortfolioThread[];
+}
+
+const dateFormatter = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' });
+const timestampFormatter = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+function formatDate(iso: string, formatter = dateFormatter) {
+  try {
+    return formatter.format(new Date(iso));
+  } catch {
+    return '';
+  }
+}
+
+/** Originals with their refinements in order, oldest chain first. */
+function groupChains(submissions: PortfolioSubmission[]) {
+  const chains = new Map<string, PortfolioSubmission[]>();
+  for (const submission of submissions) {
+    const rootId = submission.rootSubmissionId ?? submission.id;
+    chains.set(rootId, [...(chains.get(rootId) ?? []), submission]);
+  }
+  return Array.from(chains.entries()).map(([rootId, chain]) => ({
+    rootId,
+    chain: chain.sort((a, b) => a.revisionIndex - b.revisionIndex),
+  }));
+}
+
+export default function StudentPortfolioPage() {
+  const [sessions, setSessions] = useState<PortfolioSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+
+  const loadPortfolio = useCallback(async () => {
+    try {
+      const res = await fetch('/api/portfolio', { credentials: 'include' });
+      if (res.status === 403) {
+        setSignedOut(true);
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ message: 'Unable to load your portfolio.' }));
+        setError(data.message ?? 'Unable to load your portfolio.');
+        return;
+      }
+      const data: { sessions: PortfolioSession[] } = await res.json();
+      setSessions(data.sessions ?? []);
+    } catch (loadError) {
+      console.error('Failed to load portfolio', loadError);
+      setError('Something went wrong while loading your portfolio.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPortfolio();
+  }, [loadPortfolio]);
+
+  const totals = useMemo(
+    () => ({
+      images: sessions?.reduce((sum, session) => sum + session.submissions.length, 0) ?? 0,
+      chats: sessions?.reduce((sum, session) => sum + session.threads.length, 0) ?? 0,
+    }),
+    [sessions],
+  );
+
+  if (signedOut) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[#e0f2fe] to-[#fafafa] p-6">
+        <div className="max-w-md w-full bg-white shadow-xl rounded-2xl p-8 space-y-4 border border-sky-100 text-center">
+          <h1 className="text-2xl font-semibold text-sky-900">My portfolio</h1>
+          <p className="text-sm text-slate-600">Sign in to today&apos;s class to see your work from every session.</p>
+          <Link
+            href="/"
+            className="inline-block bg-sky-600 hover:bg-sky-700 text-white font-medium px-5 py-3 rounded-lg transition"
+          >
+            Go to sign in
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-100 text-slate-900">
+      <div className="max-w-6xl mx-auto px-6 py-10 space-y-10">
+        <header className="space-y-2">
+          <StudentNav />
+          <div>
+            <h1 className="text-3xl font-semibold text-sky-900">My portfolio</h1>
+            <p className="text-sm text-slate-600">
+              Your images, refinements and chats from every class session.
+              {sessions ? ` ${totals.images} images and ${totals.chats} chats so far.` : null}
+            </p>
+          </div>
+        </header>
+
+        {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+        {!sessions && !error ? <p className="text-sm text-slate-500">Loading your work...</p> : null}
+
+        {sessions?.map((session) => {
+          const chains = groupChains(session.submissions);
+          return (
+            <section key={session.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+              <header className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-xl font-semibold text-slate-800">
+                  {formatDate(session.createdAt)}
+                  {session.isCurrent ? (
+                    <span className="ml-2 text-xs font-medium rounded-full px-3 py-1 bg-sky-100 text-sky-700">Today&apos;s class</span>
+                  ) : null}
+                </h2>
+                <p className="text-xs text-slate-500">
+                  {session.submissions.length} images · {session.threads.length} chats
+                </p>
+              </header>
+
+              {chains.length === 0 && session.threads.length === 0 ? (
+                <p className="text-sm text-slate-500">Nothing was saved in this session.</p>
+              ) : null}
+
+              {chains.length > 0 ? (
+                <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                  {chains.map(({ rootId, chain }) => (
+                    <article key={rootId} className="border border-slate-200 rounded-xl p-4 space-y-3">
+                      <div className="flex gap-2 overflow-x-auto">
+                        {chain.map((submission) =>
+                          submission.thumbnailUrl && submission.imageUrl ? (
+                            <a
+                              key={submission.id}
+                              href={submission.imageUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="relative block h-28 w-28 flex-none overflow-hidden rounded-lg bg-slate-100"
+                            >
+                              <Image
+                                src={submission.thumbnailUrl}
+                                alt={submission.prompt}
+                                fill
+                                sizes="112px"
+                                className="object-cover"
+                                unoptimized
+                              />
+                            </a>
+                          ) : null,
+                        )}
+                      </div>
+                      <ol className="space-y-1 text-sm text-slate-700">
+                        {chain.map((submission) => (
+                          <li key={submission.id}>
+                            <span className="text-xs font-medium text-slate-400">
+                              {submission.revisionIndex === 0 ? 'Original' : `Refinement ${submission.revisionIndex}`}
+                              {submission.isShared ? ' · shared' : ''}
+                            </span>
+                            <p>{submission.prompt}</p>
+                          </li>
+                        ))}
+                      </ol>
+                    </article>
+                  ))}
+                </div>
+              ) : null}
+
+              {session.threads.length > 0 ? (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-slate-700">Chats</h3>
+                  {session.threads.map((thread) => {
+                    const isOpen = openThreadId === thread.id;
+                    return (
+                      <div key={thread.id} className="border border-slate-200 rounded-xl">
+                        <button
+                          onClick={() => setOpenThreadId(isOpen ? null : thread.id)}
+                          className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left text-sm hover:bg-slate-50"
+                        >
+                          <span className="font-medium text-slate-800">{thread.title}</span>
+                          <span className="text-xs text-slate-500">
+                            {thread.messages.length} messages · {formatDate(thread.updatedAt, timestampFormatter)}
+                          </span>
+                        </button>
+                        {isOpen ? (
+                          <div className="space-y-3 border-t border-slate-200 px-4 py-3">
+                            {thread.messages.map((message) => (
+                              <div
+                                key={message.id}
+                                className={`rounded-lg px-3 py-2 text-sm ${
+                                  message.sender === 'STUDENT' ? 'bg-sky-50 text-slate-800' : 'bg-slate-50 text-slate-700'
+                                }`}
+                              >
+                                <p className="text-[0.65rem] uppercase tracking-wide text-slate-400">
+                                  {message.sender === 'STUDENT' ? 'You' : 'AI Assistant'}
+                                </p>
+                                <div className="markdown-message">
+                                  <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                    {message.content}
+                                  </ReactMarkdown>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,369 @@
+'use client';
+
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { studentLabel } from '@/lib/studentNames';
+
+interface ArchivedSession {
+  id: string;
+  joinCode: string;
+  createdAt: string;
+  endedAt: string | null;
+  isActive: boolean;
+}
+
+interface ArchivedSubmission {
+  id: string;
+  prompt: string;
+  createdAt: string;
+  status: 'PENDING' | 'SUCCESS' | 'ERROR';
+  revisionIndex: number;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  errorMessage: string | null;
+  isShared: boolean;
+  moderationDecision: 'ALLOWED' | 'FLAGGED';
+  student: { username: string | null; displayName: string | null } | null;
+}
+
+interface ArchiveActivityResponse {
+  session: ArchivedSession;
+  submissions: ArchivedSubmission[];
+  nextCursor: string | null;
+}
+
+interface ArchivedChatThread {
+  id: string;
+  title: string;
+  updatedAt: string;
+  student: { id: string; username: string | null; displayName: string | null } | null;
+  messages: Array<{
+    id: string;
+    content: string;
+    sender: 'STUDENT' | 'AI';
+    isComplete: boolean;
+    createdAt: string;
+  }>;
+}
+
+const PAGE_SIZE = 30;
+
+const timestampFormatter = new Intl.DateTimeFormat('en-US', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatTimestamp(iso: string) {
+  try {
+    return timestampFormatter.format(new Date(iso));
+  } catch {
+    return '';
+  }
+}
+
+export default function SessionArchive() {
+  const params = useParams<{ sessionId: string }>();
+  const sessionId = params.sessionId;
+  const [session, setSession] = useState<ArchivedSession | null>(null);
+  const [timeline, setTimeline] = useState<ArchivedSubmission[]>([]);
+  const [gallery, setGallery] = useState<ArchivedSubmission[]>([]);
+  const [chats, setChats] = useState<ArchivedChatThread[]>([]);
+  const [timelineCursor, setTimelineCursor] = useState<string | null>(null);
+  const [galleryCursor, setGalleryCursor] = useState<string | null>(null);
+  const [expandedChats, setExpandedChats] = useState<string[]>([]);
+  const [loadingMore, setLoadingMore] = useState<'timeline' | 'gallery' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState('zip');
+
+  const fetchPage = useCallback(
+    async (extra: Record<string, string>) => {
+      const query = new URLSearchParams({ sessionId, limit: String(PAGE_SIZE), ...extra });
+      const res = await fetch(`/api/teacher/activity?${query.toString()}`, { credentials: 'include' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ message: 'Unable to open this session.' }));
+        throw new Error(data.message ?? 'Unable to open this session.');
+      }
+      return (await res.json()) as ArchiveActivityResponse;
+    },
+    [sessionId],
+  );
+
+  const loadArchive = useCallback(async () => {
+    try {
+      const [timelineData, galleryData, chatsRes] = await Promise.all([
+        fetchPage({}),
+        fetchPage({ status: 'SUCCESS' }),
+        fetch(`/api/teacher/chats?sessionId=${encodeURIComponent(sessionId)}`, { credentials: 'include' }),
+      ]);
+      setSession(timelineData.session);
+      setTimeline(timelineData.submissions);
+      setTimelineCursor(timelineData.nextCursor);
+      setGallery(galleryData.submissions);
+      setGalleryCursor(galleryData.nextCursor);
+      if (chatsRes.ok) {
+        const chatData: { threads?: ArchivedChatThread[] } = await chatsRes.json();
+        setChats(chatData.threads ?? []);
+      }
+    } catch (loadError) {
+      console.error('Failed to load session archive', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Unable to open this session.');
+    }
+  }, [fetchPage, sessionId]);
+
+  useEffect(() => {
+    void loadArchive();
+  }, [loadArchive]);
+
+  const loadMore = useCallback(
+    async (list: 'timeline' | 'gallery') => {
+      const cursor = list === 'timeline' ? timelineCursor : galleryCursor;
+      if (!cursor) return;
+      setLoadingMore(list);
+      try {
+        const data = await fetchPage(list === 'timeline' ? { cursor } : { cursor, status: 'SUCCESS' });
+        if (list === 'timeline') {
+          setTimeline((prev) => [...prev, ...data.submissions]);
+          setTimelineCursor(data.nextCursor);
+        } else {
+          setGallery((prev) => [...prev, ...data.submissions]);
+          setGalleryCursor(data.nextCursor);
+        }
+      } catch (loadError) {
+        console.error('Failed to load more of the archive', loadError);
+      } finally {
+        setLoadingMore(null);
+      }
+    },
+    [fetchPage, timelineCursor, galleryCursor],
+  );
+
+  const toggleChatExpansion = useCallback((threadId: string) => {
+    setExpandedChats((prev) =>
+      prev.includes(threadId) ? prev.filter((id) => id !== threadId) : [...prev, threadId],
+    );
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="max-w-7xl mx-auto px-8 py-10 space-y-10">
+        <header className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-semibold">
+                Session <span className="font-mono">{session?.joinCode ?? ''}</span>
+              </h1>
+              <span className="text-xs bg-slate-800 text-slate-300 px-3 py-1 rounded-full">Read-only</span>
+            </div>
+            {session ? (
+              <p className="text-sm text-slate-300">
+                Started {formatTimestamp(session.createdAt)}
+                {session.isActive
+                  ? ' · still running'
+                  : session.endedAt
+                    ? ` · ended ${formatTimestamp(session.endedAt)}`
+                    : ''}
+              </p>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap gap-3 items-center">
+            <Link href="/teacher/history" className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+              All sessions
+            </Link>
+            <select
+              value={exportFormat}
+              onChange={(event) => setExportFormat(event.target.value)}
+              aria-label="Export format"
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            >
+              <option value="zip">ZIP with images</option>
+              <option value="html">HTML report</option>
+              <option value="csv">Prompts CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <button
+              onClick={() => {
+                window.open(`/api/teacher/export?sessionId=${encodeURIComponent(sessionId)}&format=${exportFormat}`, '_blank');
+              }}
+              disabled={!session}
+              className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              Export session
+            </button>
+          </div>
+        </header>
+
+        {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+
+        <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+          <h2 className="text-xl font-semibold">Prompt timeline</h2>
+          {timeline.length === 0 ? (
+            <p className="text-sm text-slate-400">No prompts were submitted in this session.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-slate-200">
+                <thead className="text-xs uppercase text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-4">When</th>
+                    <th className="py-2 pr-4">Student</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2">Prompt</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timeline.map((entry) => (
+                    <tr key={entry.id} className="border-t border-white/10 align-top">
+                      <td className="py-2 pr-4 text-xs text-slate-400 whitespace-nowrap">{formatTimestamp(entry.createdAt)}</td>
+                      <td className="py-2 pr-4">
+                        {entry.student?.username ? studentLabel(entry.student.username, entry.student.displayName) : 'Unknown'}
+                      </td>
+                      <td className="py-2 pr-4 text-xs">
+                        <span
+                          className={
+                            entry.status === 'SUCCESS'
+                              ? 'text-emerald-300'
+                              : entry.status === 'ERROR'
+                                ? 'text-rose-300'
+                                : 'text-slate-400'
+                          }
+                        >
+                          {entry.status === 'SUCCESS' ? 'Generated' : entry.status === 'ERROR' ? 'Failed' : 'Pending'}
+                        </span>
+                        {entry.moderationDecision === 'FLAGGED' ? <span className="text-amber-300"> · flagged</span> : null}
+                      </td>
+                      <td className="py-2 text-slate-100">
+                        {entry.revisionIndex > 0 ? (
+                          <span className="text-xs text-slate-400">Refinement {entry.revisionIndex}: </span>
+                        ) : null}
+                        {entry.prompt}
+                        {entry.errorMessage ? <p className="text-xs text-rose-300">{entry.errorMessage}</p> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {timelineCursor ? (
+            <button
+              onClick={() => void loadMore('timeline')}
+              disabled={loadingMore !== null}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              {loadingMore === 'timeline' ? 'Loading...' : 'Load older prompts'}
+            </button>
+          ) : null}
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">Generated images</h2>
+          {gallery.length === 0 ? (
+            <div className="bg-slate-900/60 border border-white/10 rounded-2xl p-6 text-slate-400 text-sm">
+              No images were generated in this session.
+            </div>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {gallery
+                .filter((entry) => entry.thumbnailUrl)
+                .map((entry) => (
+                  <figure key={entry.id} className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-hidden">
+                    <a href={entry.imageUrl ?? undefined} target="_blank" rel="noreferrer" className="relative block w-full aspect-[4/3]">
+                      <Image
+                        src={entry.thumbnailUrl ?? ''}
+                        alt={entry.prompt}
+                        fill
+                        sizes="(max-width: 768px) 100vw, (max-width: 1280px) 50vw, 33vw"
+                        unoptimized
+                        className="object-cover"
+                      />
+                    </a>
+                    <figcaption className="p-4 space-y-2">
+                      <p className="text-sm text-slate-100">{entry.prompt}</p>
+                      <p className="text-xs text-slate-400 flex flex-wrap gap-3">
+                        <span>{formatTimestamp(entry.createdAt)}</span>
+                        <span>Owner: {entry.student?.username ? studentLabel(entry.student.username, entry.student.displayName) : 'Unknown'}</span>
+                        <span>{entry.isShared ? 'Shared' : 'Private'}</span>
+                      </p>
+                    </figcaption>
+                  </figure>
+                ))}
+            </div>
+          )}
+          {galleryCursor ? (
+            <button
+              onClick={() => void loadMore('gallery')}
+              disabled={loadingMore !== null}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              {loadingMore === 'gallery' ? 'Loading...' : 'Load older images'}
+            </button>
+          ) : null}
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold">Chat conversations</h2>
+          {chats.length === 0 ? (
+            <div className="bg-slate-900/60 border border-white/10 rounded-2xl p-6 text-slate-400 text-sm">
+              No chats were started in this session.
+            </div>
+          ) : (
+            <div className="bg-slate-900/60 border border-white/10 rounded-2xl divide-y divide-white/10">
+              {chats.map((thread) => {
+                const isExpanded = expandedChats.includes(thread.id);
+                return (
+                  <div key={thread.id} className="px-6 py-4 space-y-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-semibold text-slate-100">
+                          {thread.title}
+                          <span className="text-xs text-slate-400">
+                            {' · '}
+                            {thread.student?.username ? studentLabel(thread.student.username, thread.student.displayName) : 'Unknown'}
+                          </span>
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          Updated {formatTimestamp(thread.updatedAt)} · {thread.messages.length} messages
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => toggleChatExpansion(thread.id)}
+                        className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-2 rounded-md"
+                      >
+                        {isExpanded ? 'Collapse' : 'View conversation'}
+                      </button>
+                    </div>
+                    {isExpanded ? (
+                      <div className="space-y-3 border border-white/10 rounded-xl bg-slate-900/40 p-4">
+                        {thread.messages.map((message) => (
+                          <div key={message.id} className="space-y-1">
+                            <div className="flex items-center justify-between text-[0.65rem] uppercase tracking-wide text-slate-500">
+                              <span>
+                                {message.sender === 'STUDENT' ? 'Student' : 'AI Assistant'}
+                                {message.isComplete ? null : ' · interrupted'}
+                              </span>
+                              <span>{formatTimestamp(message.createdAt)}</span>
+                            </div>
+                            <div className="markdown-message text-sm text-slate-100 bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                              <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                {message.content}
+                              </ReactMarkdown>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+
+interface SessionSummary {
+  id: string;
+  joinCode: string;
+  createdAt: string;
+  endedAt: string | null;
+  isActive: boolean;
+  studentCount: number;
+  imageCount: number;
+  chatCount: number;
+  messageCount: number;
+}
+
+interface ImportReport {
+  sessionId: string;
+  joinCode: string;
+  students: number;
+  submissions: number;
+  images: number;
+  chats: number;
+  messages: number;
+  conflicts: string[];
+}
+
+const timestampFormatter = new Intl.DateTimeFormat('en-US', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+function formatTimestamp(iso: string) {
+  try {
+    return timestampFormatter.format(new Date(iso));
+  } catch {
+    return '';
+  }
+}
+
+export default function SessionHistory() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/sessions', { credentials: 'include' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ message: 'Unable to load past sessions.' }));
+        setError(data.message ?? 'Unable to load past sessions.');
+        return;
+      }
+      const data: { sessions: SessionSummary[] } = await res.json();
+      setSessions(data.sessions ?? []);
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load past sessions', loadError);
+      setError('Something went wrong while loading past sessions.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const handleImport = useCallback(async () => {
+    if (!importFile) return;
+    setImporting(true);
+    setImportError(null);
+    setImportReport(null);
+    try {
+      const form = new FormData();
+      form.append('archive', importFile);
+      const res = await fetch('/api/teacher/import', { method: 'POST', credentials: 'include', body: form });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ message: 'Unable to import this archive.' }));
+        setImportError(data.message ?? 'Unable to import this archive.');
+        return;
+      }
+      setImportReport(await res.json());
+      setImportFile(null);
+      await loadSessions();
+    } catch (importFailure) {
+      console.error('Failed to import session', importFailure);
+      setImportError('Something went wrong while importing.');
+    } finally {
+      setImporting(false);
+    }
+  }, [importFile, loadSessions]);
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="max-w-5xl mx-auto px-8 py-10 space-y-8">
+        <header className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold">Session history</h1>
+            <p className="text-sm text-slate-300">Every class you have run. Open one to review its prompts, images and chats.</p>
+          </div>
+          <Link href="/teacher" className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg w-fit">
+            Back to dashboard
+          </Link>
+        </header>
+
+        <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-slate-100">Import a session</h2>
+            <p className="text-xs text-slate-400">
+              Restore a ZIP (or JSON) export from this or another server. It is added as an ended session with new IDs.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              key={importReport?.sessionId ?? 'pending'}
+              type="file"
+              accept=".zip,.json,application/zip,application/json"
+              onChange={(event) => setImportFile(event.target.files?.[0] ?? null)}
+              className="text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-4 file:py-2 file:text-sm file:text-slate-100 hover:file:bg-slate-700"
+            />
+            <button
+              onClick={() => void handleImport()}
+              disabled={!importFile || importing}
+              className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+          {importError ? <p className="text-xs text-rose-300">{importError}</p> : null}
+          {importReport ? (
+            <div className="space-y-2 text-sm text-slate-200">
+              <p>
+                Imported session <span className="font-mono">{importReport.joinCode}</span>: {importReport.students} students,{' '}
+                {importReport.submissions} prompts, {importReport.images} images, {importReport.chats} chats (
+                {importReport.messages} messages).{' '}
+                <Link href={`/teacher/history/${importReport.sessionId}`} className="text-emerald-300 underline">
+                  Open it
+                </Link>
+              </p>
+              {importReport.conflicts.length > 0 ? (
+                <ul className="list-disc pl-5 text-xs text-amber-300 space-y-1">
+                  {importReport.conflicts.map((conflict) => (
+                    <li key={conflict}>{conflict}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-slate-400">No conflicts were found.</p>
+              )}
+            </div>
+          ) : null}
+        </section>
+
+        {loading ? <p className="text-sm text-slate-400">Loading sessions...</p> : null}
+        {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+        {!loading && !error && sessions.length === 0 ? (
+          <p className="text-sm text-slate-400">You have not run any sessions yet.</p>
+        ) : null}
+
+        {sessions.length > 0 ? (
+          <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6">
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left text-slate-200">
+                <thead className="text-xs uppercase text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-4">Started</th>
+                    <th className="py-2 pr-4">Ended</th>
+                    <th className="py-2 pr-4">Join code</th>
+                    <th className="py-2 pr-4">Students</th>
+                    <th className="py-2 pr-4">Images</th>
+                    <th className="py-2 pr-4">Chats</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => (
+                    <tr key={session.id} className="border-t border-white/10">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(session.createdAt)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-400">
+                        {session.isActive ? (
+                          <span className="text-xs text-emerald-300">Running</span>
+                        ) : session.endedAt ? (
+                          formatTimestamp(session.endedAt)
+                        ) : (
+                          'Ended'
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono">{session.joinCode}</td>
+                      <td className="py-2 pr-4">{session.studentCount}</td>
+                      <td className="py-2 pr-4">{session.imageCount}</td>
+                      <td className="py-2 pr-4">
+                        {session.chatCount}
+                        <span className="text-xs text-slate-400"> ({session.messageCount} messages)</span>
+                      </td>
+                      <td className="py-2 text-right">
+                        <Link
+                          href={`/teacher/history/${session.id}`}
+                          className="text-sm text-emerald-300 hover:text-emerald-200 underline"
+                        >
+                          Open
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -1,14 +1,28 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import { DemoGenerator } from '@/components/teacher/DemoGenerator';
+import { LoginAttempts } from '@/components/teacher/LoginAttempts';
+import { ModerationSettings } from '@/components/teacher/ModerationSettings';
+import { QuotaSettings } from '@/components/teacher/QuotaSettings';
+import { ShareReview } from '@/components/teacher/ShareReview';
+import { StudentManager } from '@/components/teacher/StudentManager';
+import { StylePresetSettings } from '@/components/teacher/StylePresetSettings';
+import { UsageBudget } from '@/components/teacher/UsageBudget';
+import { formatTimestamp } from '@/components/teacher/formatTimestamp';
+import { assistantPresets } from '@/lib/assistantPresets';
+import { describeGenerationOptions } from '@/lib/generationOptions';
+import { studentLabel, toCredentialsCsv } from '@/lib/studentNames';
 
 interface TeacherSessionState {
   id: string;
+  joinCode: string;
   createdAt: string;
   isActive: boolean;
 }
@@ -22,42 +36,74 @@ interface ActivitySubmission {
   revisionIndex: number;
   parentSubmissionId: string | null;
   rootSubmissionId: string | null;
-  imageData: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
   imageMimeType: string | null;
   errorMessage: string | null;
   isShared: boolean;
+  moderationDecision: 'ALLOWED' | 'FLAGGED';
+  moderationReason: string | null;
+  aspectRatio: string | null;
+  stylePreset: string | null;
+  variantIndex: number;
+  variantCount: number;
   studentUsername: string | null;
+  studentDisplayName: string | null;
 }
 
-interface ActivityApiSubmission extends Omit<ActivitySubmission, 'studentUsername'> {
-  student: { username: string | null } | null;
+interface ActivityApiSubmission extends Omit<ActivitySubmission, 'studentUsername' | 'studentDisplayName'> {
+  student: { username: string | null; displayName: string | null } | null;
 }
 
 interface ActivityResponse {
   session: TeacherSessionState;
   submissions: ActivityApiSubmission[];
+  nextCursor: string | null;
+  students: Array<{ id: string; username: string; displayName: string | null }> | null;
 }
 
+interface ActivityFilters {
+  studentId: string;
+  status: '' | 'PENDING' | 'SUCCESS' | 'ERROR';
+  shared: '' | 'true' | 'false';
+  from: string;
+  to: string;
+}
+
+const emptyFilters: ActivityFilters = { studentId: '', status: '', shared: '', from: '', to: '' };
+
+const PAGE_SIZE = 30;
+
 interface GallerySubmission {
   id: string;
   prompt: string;
+  role: 'STUDENT' | 'TEACHER';
   createdAt: string;
   status: 'PENDING' | 'SUCCESS' | 'ERROR';
   revisionIndex: number;
-  imageData: string | null;
-  imageMimeType: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
   isShared: boolean;
+  aspectRatio: string | null;
+  stylePreset: string | null;
+  variantIndex: number;
+  variantCount: number;
   studentUsername: string | null;
+  studentDisplayName: string | null;
 }
 
 type ImagesResponse = {
   submissions?: Array<GallerySubmission & { remainingEdits?: number; ownedByCurrentUser?: boolean }>;
+  nextCursor?: string | null;
 };
 
 interface TeacherChatMessage {
   id: string;
   content: string;
   sender: 'STUDENT' | 'AI';
+  isComplete: boolean;
+  moderationDecision: 'ALLOWED' | 'FLAGGED';
+  moderationReason: string | null;
   createdAt: string;
 }
 
@@ -69,6 +115,7 @@ interface TeacherChatThread {
   student: {
     id: string;
     username: string | null;
+    displayName: string | null;
   } | null;
   messages: TeacherChatMessage[];
 }
@@ -82,11 +129,15 @@ interface TeacherChatsResponse {
     student: {
       id: string;
       username: string | null;
+      displayName: string | null;
     } | null;
     messages: Array<{
       id: string;
       content: string;
       sender: 'STUDENT' | 'AI';
+      isComplete?: boolean;
+      moderationDecision?: 'ALLOWED' | 'FLAGGED';
+      moderationReason?: string | null;
       createdAt: string;
     }>;
   }>;
@@ -95,50 +146,139 @@ interface TeacherChatsResponse {
 interface SessionResponse {
   session: {
     id: string;
+    joinCode: string;
     createdAt: string;
     role: 'student' | 'teacher' | undefined;
   } | null;
+  teacher: TeacherAccount | null;
+}
+
+interface TeacherAccount {
+  id: string;
+  email: string;
+  displayName: string;
 }
 
-const timestampFormatter = new Intl.DateTimeFormat('en-US', {
-  dateStyle: 'medium',
-  timeStyle: 'short',
-});
+/** Query string for the list APIs; date inputs are local days, so `to` covers the whole day. */
+function buildListQuery(filters: ActivityFilters, overrides: Record<string, string | null> = {}) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (filters.studentId) params.set('studentId', filters.studentId);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.shared) params.set('shared', filters.shared);
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  }
+  return params.toString();
+}
 
-function formatTimestamp(iso: string) {
-  try {
-    return timestampFormatter.format(new Date(iso));
-  } catch {
-    return '';
+/** Replaces the refetched entries, drops the ones that no longer match, and keeps the list newest first. */
+function mergeById<T extends { id: string; createdAt: string }>(current: T[], requestedIds: string[], updates: T[]) {
+  const byId = new Map(current.filter((entry) => !requestedIds.includes(entry.id)).map((entry) => [entry.id, entry]));
+  for (const update of updates) {
+    byId.set(update.id, update);
   }
+  return Array.from(byId.values()).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+function toTeacherChatThread(thread: NonNullable<TeacherChatsResponse['threads']>[number]): TeacherChatThread {
+  return {
+    id: thread.id,
+    title: thread.title,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    student: thread.student ?? null,
+    messages: (thread.messages ?? []).map((message) => ({
+      id: message.id,
+      content: message.content,
+      sender: message.sender,
+      isComplete: message.isComplete ?? true,
+      moderationDecision: message.moderationDecision ?? 'ALLOWED',
+      moderationReason: message.moderationReason ?? null,
+      createdAt: message.createdAt,
+    })),
+  };
+}
+
+function toActivitySubmission({ student, ...rest }: ActivityApiSubmission): ActivitySubmission {
+  return { ...rest, studentUsername: student?.username ?? null, studentDisplayName: student?.displayName ?? null };
+}
+
+function toGallerySubmission(entry: NonNullable<ImagesResponse['submissions']>[number]): GallerySubmission {
+  return {
+    id: entry.id,
+    prompt: entry.prompt,
+    role: entry.role,
+    createdAt: entry.createdAt,
+    status: entry.status,
+    revisionIndex: entry.revisionIndex,
+    imageUrl: entry.imageUrl,
+    thumbnailUrl: entry.thumbnailUrl,
+    isShared: entry.isShared,
+    aspectRatio: entry.aspectRatio,
+    stylePreset: entry.stylePreset,
+    variantIndex: entry.variantIndex,
+    variantCount: entry.variantCount,
+    studentUsername: entry.studentUsername ?? null,
+    studentDisplayName: entry.studentDisplayName ?? null,
+  };
 }
 
 export default function TeacherDashboard() {
   const [session, setSession] = useState<SessionResponse['session']>(null);
+  const [teacher, setTeacher] = useState<TeacherAccount | null>(null);
   const [loading, setLoading] = useState(true);
+  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [teacherEmail, setTeacherEmail] = useState('');
+  const [teacherName, setTeacherName] = useState('');
+  const [teacherPassword, setTeacherPassword] = useState('');
+  const [signupKey, setSignupKey] = useState('');
   const [startPassword, setStartPassword] = useState('');
+  const [rosters, setRosters] = useState<Array<{ id: string; name: string; accountCount: number }>>([]);
+  const [startRosterId, setStartRosterId] = useState('');
+  const [joinCode, setJoinCode] = useState('');
   const [joinPassword, setJoinPassword] = useState('');
-  const [teacherKey, setTeacherKey] = useState('');
   const [formError, setFormError] = useState<string | null>(null);
   const [formLoading, setFormLoading] = useState(false);
   const [activity, setActivity] = useState<ActivitySubmission[]>([]);
   const [gallery, setGallery] = useState<GallerySubmission[]>([]);
+  const [filters, setFilters] = useState<ActivityFilters>(emptyFilters);
+  const [roster, setRoster] = useState<Array<{ id: string; username: string; displayName: string | null }>>([]);
+  const [activityCursor, setActivityCursor] = useState<string | null>(null);
+  const [galleryCursor, setGalleryCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<'activity' | 'gallery' | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [exportFormat, setExportFormat] = useState('zip');
+  const [liveStatus, setLiveStatus] = useState<'connecting' | 'live' | 'offline'>('connecting');
   const [credentialCount, setCredentialCount] = useState(10);
   const [credentialLoading, setCredentialLoading] = useState(false);
   const [credentialError, setCredentialError] = useState<string | null>(null);
-  const [credentials, setCredentials] = useState<Array<{ username: string; password: string }>>([]);
+  const [credentials, setCredentials] = useState<Array<{ username: string; displayName: string | null; password: string }>>([]);
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
+  const [rosterErrors, setRosterErrors] = useState<string[]>([]);
+  const [studentsVersion, setStudentsVersion] = useState(0);
   const [chats, setChats] = useState<TeacherChatThread[]>([]);
   const [expandedChats, setExpandedChats] = useState<string[]>([]);
+  const [assistantPersona, setAssistantPersona] = useState('');
+  const [assistantSystemPrompt, setAssistantSystemPrompt] = useState('');
+  const [assistantSaving, setAssistantSaving] = useState(false);
+  const [assistantMessage, setAssistantMessage] = useState<string | null>(null);
 
   const loadSession = useCallback(async () => {
     try {
       const res = await fetch('/api/session', { credentials: 'include' });
       const data: SessionResponse = await res.json();
       setSession(data.session);
+      setTeacher(data.teacher ?? null);
     } catch (error) {
       console.error('Failed to load session', error);
       setSession(null);
+      setTeacher(null);
     } finally {
       setLoading(false);
     }
@@ -149,61 +289,72 @@ export default function TeacherDashboard() {
     setRefreshing(true);
     try {
       const [activityRes, galleryRes, chatsRes] = await Promise.all([
-        fetch('/api/teacher/activity', { credentials: 'include' }),
-        fetch('/api/images', { credentials: 'include' }),
+        fetch(`/api/teacher/activity?${buildListQuery(filters)}`, { credentials: 'include' }),
+        fetch(`/api/images?${buildListQuery(filters, { status: 'SUCCESS' })}`, { credentials: 'include' }),
         fetch('/api/teacher/chats', { credentials: 'include' }),
       ]);
 
       if (activityRes.ok) {
         const activityData: ActivityResponse = await activityRes.json();
-        setActivity(
-          activityData.submissions.map(({ student, ...rest }) => ({
-            ...rest,
-            studentUsername: student?.username ?? null,
-          })),
-        );
+        setActivity(activityData.submissions.map(toActivitySubmission));
+        setActivityCursor(activityData.nextCursor ?? null);
+        if (activityData.students) {
+          setRoster(activityData.students);
+        }
       }
 
       if (galleryRes.ok) {
         const galleryData: ImagesResponse = await galleryRes.json();
-        setGallery(
-          (galleryData.submissions ?? []).map((entry) => ({
-            id: entry.id,
-            prompt: entry.prompt,
-            createdAt: entry.createdAt,
-            status: entry.status,
-            revisionIndex: entry.revisionIndex,
-            imageData: entry.imageData,
-            imageMimeType: entry.imageMimeType,
-            isShared: entry.isShared,
-            studentUsername: entry.studentUsername ?? null,
-          })),
-        );
+        setGallery((galleryData.submissions ?? []).map(toGallerySubmission));
+        setGalleryCursor(galleryData.nextCursor ?? null);
       }
 
       if (chatsRes.ok) {
         const chatData: TeacherChatsResponse = await chatsRes.json();
-        const chatThreads: TeacherChatThread[] = (chatData.threads ?? []).map((thread) => ({
-          id: thread.id,
-          title: thread.title,
-          createdAt: thread.createdAt,
-          updatedAt: thread.updatedAt,
-          student: thread.student ?? null,
-          messages: (thread.messages ?? []).map((message) => ({
-            id: message.id,
-            content: message.content,
-            sender: message.sender,
-            createdAt: message.createdAt,
-          })),
-        }));
-        setChats(chatThreads);
+        setChats((chatData.threads ?? []).map(toTeacherChatThread));
       }
     } catch (error) {
       console.error('Failed to load activity', error);
     } finally {
       setRefreshing(false);
     }
-  }, [session?.id]);
+  }, [session?.id, filters]);
+
+  const loadMoreActivity = useCallback(async () => {
+    if (!activityCursor) return;
+    setLoadingMore('activity');
+    try {
+      const res = await fetch(`/api/teacher/activity?${buildListQuery(filters, { cursor: activityCursor })}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) return;
+      const data: ActivityResponse = await res.json();
+      setActivity((prev) => [...prev, ...data.submissions.map(toActivitySubmission)]);
+      setActivityCursor(data.nextCursor ?? null);
+    } catch (error) {
+      console.error('Failed to load more activity', error);
+    } finally {
+      setLoadingMore(null);
+    }
+  }, [activityCursor, filters]);
+
+  const loadMoreGallery = useCallback(async () => {
+    if (!galleryCursor) return;
+    setLoadingMore('gallery');
+    try {
+      const res = await fetch(`/api/images?${buildListQuery(filters, { status: 'SUCCESS', cursor: galleryCursor })}`, {
+        credentials: 'include',
+      });
+      if (!res.ok) return;
+      const data: ImagesResponse = await res.json();
+      setGallery((prev) => [...prev, ...(data.submissions ?? []).map(toGallerySubmission)]);
+      setGalleryCursor(data.nextCursor ?? null);
+    } catch (error) {
+      console.error('Failed to load more images', error);
+    } finally {
+      setLoadingMore(null);
+    }
+  }, [galleryCursor, filters]);
 
   useEffect(() => {
     void loadSession();
@@ -215,6 +366,164 @@ export default function TeacherDashboard() {
     }
   }, [session?.id, session?.role, loadActivity]);
 
+  // Live updates refetch only the entry that changed, through the same filters as the loaded lists.
+  const applyLiveSubmission = useCallback(
+    async (submissionId: string) => {
+      try {
+        const [activityRes, galleryRes] = await Promise.all([
+          fetch(`/api/teacher/activity?${buildListQuery(filters, { ids: submissionId })}`, { credentials: 'include' }),
+          fetch(`/api/images?${buildListQuery(filters, { status: 'SUCCESS', ids: submissionId })}`, {
+            credentials: 'include',
+          }),
+        ]);
+        if (activityRes.ok) {
+          const activityData: ActivityResponse = await activityRes.json();
+          setActivity((prev) => mergeById(prev, [submissionId], activityData.submissions.map(toActivitySubmission)));
+        }
+        if (galleryRes.ok) {
+          const galleryData: ImagesResponse = await galleryRes.json();
+          setGallery((prev) => mergeById(prev, [submissionId], (galleryData.submissions ?? []).map(toGallerySubmission)));
+        }
+      } catch (error) {
+        console.error('Failed to apply live update', error);
+      }
+    },
+    [filters],
+  );
+
+  const applyLiveChat = useCallback(async (threadId: string) => {
+    try {
+      const res = await fetch(`/api/teacher/chats?threadId=${encodeURIComponent(threadId)}`, { credentials: 'include' });
+      if (!res.ok) return;
+      const data: TeacherChatsResponse = await res.json();
+      const updated = (data.threads ?? []).map(toTeacherChatThread);
+      setChats((prev) =>
+        prev.some((thread) => thread.id === threadId)
+          ? prev.flatMap((thread) => (thread.id === threadId ? updated : [thread]))
+          : [...updated, ...prev],
+      );
+    } catch (error) {
+      console.error('Failed to apply live chat update', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session?.id || session.role !== 'teacher') return;
+    // EventSource reconnects on its own; the status only tells the teacher whether to rely on it.
+    const source = new EventSource('/api/events');
+    setLiveStatus('connecting');
+    source.addEventListener('ready', () => setLiveStatus('live'));
+    source.addEventListener('submission', (event) => {
+      const data = JSON.parse((event as MessageEvent<string>).data) as { submissionId: string };
+      void applyLiveSubmission(data.submissionId);
+    });
+    source.addEventListener('chat', (event) => {
+      const data = JSON.parse((event as MessageEvent<string>).data) as { threadId: string };
+      void applyLiveChat(data.threadId);
+    });
+    source.onerror = () => setLiveStatus(source.readyState === EventSource.CLOSED ? 'offline' : 'connecting');
+    return () => source.close();
+  }, [session?.id, session?.role, applyLiveSubmission, applyLiveChat]);
+
+  const loadAssistantSettings = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/assistant', { credentials: 'include' });
+      if (!res.ok) return;
+      const data = await res.json();
+      setAssistantPersona(data.assistantPersona ?? '');
+      setAssistantSystemPrompt(data.assistantSystemPrompt ?? '');
+    } catch (error) {
+      console.error('Failed to load assistant settings', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.id && session.role === 'teacher') {
+      setAssistantMessage(null);
+      void loadAssistantSettings();
+    }
+  }, [session?.id, session?.role, loadAssistantSettings]);
+
+  const handleSaveAssistant = useCallback(async () => {
+    setAssistantSaving(true);
+    setAssistantMessage(null);
+    try {
+      const res = await fetch('/api/teacher/assistant', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ assistantPersona, assistantSystemPrompt }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: 'Unable to save assistant settings.' }));
+        setAssistantMessage(error.message ?? 'Unable to save assistant settings.');
+        return;
+      }
+
+      setAssistantMessage('Saved. New chat replies will use these instructions.');
+    } catch (error) {
+      console.error('Failed to save assistant settings', error);
+      setAssistantMessage('Something went wrong while saving.');
+    } finally {
+      setAssistantSaving(false);
+    }
+  }, [assistantPersona, assistantSystemPrompt]);
+
+  const handleTeacherAuth = useCallback(async () => {
+    setFormLoading(true);
+    setFormError(null);
+    try {
+      const res = await fetch(authMode === 'login' ? '/api/teacher/login' : '/api/teacher/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(
+          authMode === 'login'
+            ? { email: teacherEmail.trim(), password: teacherPassword }
+            : {
+                email: teacherEmail.trim(),
+                displayName: teacherName.trim(),
+                password: teacherPassword,
+                signupKey: signupKey.trim() || undefined,
+              },
+        ),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: 'Unable to sign in.' }));
+        setFormError(error.message ?? 'Unable to sign in.');
+        return;
+      }
+
+      setTeacherPassword('');
+      setSignupKey('');
+      await loadSession();
+    } catch (error) {
+      console.error('Teacher sign in failed', error);
+      setFormError('Something went wrong. Try again.');
+    } finally {
+      setFormLoading(false);
+    }
+  }, [authMode, teacherEmail, teacherName, teacherPassword, signupKey, loadSession]);
+
+  const handleTeacherLogout = useCallback(async () => {
+    try {
+      await fetch('/api/teacher/login', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+    } catch (error) {
+      console.error('Failed to log out', error);
+    }
+    setCredentials([]);
+    setActivity([]);
+    setGallery([]);
+    setChats([]);
+    setExpandedChats([]);
+    await loadSession();
+  }, [loadSession]);
+
   const handleStartSession = useCallback(async () => {
     if (startPassword.trim().length < 4) {
       setFormError('Password should be at least 4 characters.');
@@ -227,7 +536,7 @@ export default function TeacherDashboard() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ password: startPassword.trim() }),
+        body: JSON.stringify({ password: startPassword.trim(), rosterId: startRosterId || null }),
       });
 
       if (!res.ok) {
@@ -248,9 +557,31 @@ export default function TeacherDashboard() {
     } finally {
       setFormLoading(false);
     }
-  }, [startPassword, loadSession, loadActivity]);
+  }, [startPassword, startRosterId, loadSession, loadActivity]);
+
+  useEffect(() => {
+    if (!teacher || session) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetch('/api/teacher/rosters', { credentials: 'include' });
+        if (!res.ok || cancelled) return;
+        const data: { rosters: Array<{ id: string; name: string; accountCount: number }> } = await res.json();
+        if (!cancelled) setRosters(data.rosters ?? []);
+      } catch (error) {
+        console.error('Failed to load class rosters', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [teacher, session]);
 
   const handleJoinAsTeacher = useCallback(async () => {
+    if (joinCode.trim().length === 0) {
+      setFormError('Enter the join code for the session you want to open.');
+      return;
+    }
     if (joinPassword.trim().length === 0) {
       setFormError('Enter the classroom password to continue.');
       return;
@@ -264,9 +595,9 @@ export default function TeacherDashboard() {
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({
+          joinCode: joinCode.trim(),
           password: joinPassword.trim(),
           role: 'teacher',
-          teacherKey: teacherKey.trim() || undefined,
         }),
       });
 
@@ -276,6 +607,7 @@ export default function TeacherDashboard() {
         return;
       }
 
+      setJoinCode('');
       setJoinPassword('');
       await loadSession();
       await loadActivity();
@@ -285,7 +617,7 @@ export default function TeacherDashboard() {
     } finally {
       setFormLoading(false);
     }
-  }, [joinPassword, teacherKey, loadSession, loadActivity]);
+  }, [joinCode, joinPassword, loadSession, loadActivity]);
 
   const handleEndSession = useCallback(async () => {
     setFormLoading(true);
@@ -329,6 +661,7 @@ export default function TeacherDashboard() {
 
       const data = await res.json();
       setCredentials(data.credentials ?? []);
+      setStudentsVersion((version) => version + 1);
     } catch (error) {
       console.error('Failed to generate credentials', error);
       setCredentialError('Something went wrong while generating credentials.');
@@ -337,11 +670,41 @@ export default function TeacherDashboard() {
     }
   }, [credentialCount, session?.id]);
 
+  const handleImportRoster = useCallback(async () => {
+    if (!session?.id || !rosterFile) return;
+    setCredentialLoading(true);
+    setCredentialError(null);
+    setRosterErrors([]);
+    try {
+      const res = await fetch('/api/teacher/students/roster', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ csv: await rosterFile.text() }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: 'Unable to import the roster.' }));
+        setCredentialError(error.message ?? 'Unable to import the roster.');
+        setRosterErrors(Array.isArray(error.errors) ? error.errors : []);
+        return;
+      }
+
+      const data = await res.json();
+      setCredentials(data.credentials ?? []);
+      setStudentsVersion((version) => version + 1);
+      setRosterFile(null);
+    } catch (error) {
+      console.error('Failed to import roster', error);
+      setCredentialError('Something went wrong while importing the roster.');
+    } finally {
+      setCredentialLoading(false);
+    }
+  }, [rosterFile, session?.id]);
+
   const handleDownloadCredentials = useCallback(() => {
     if (credentials.length === 0) return;
-    const rows = [['Username', 'Password'], ...credentials.map(({ username, password }) => [username, password])];
-    const csv = rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob([toCredentialsCsv(credentials)], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -352,6 +715,44 @@ export default function TeacherDashboard() {
     URL.revokeObjectURL(url);
   }, [credentials]);
 
+  const handlePrintCards = useCallback(
+    async (withPasswords: boolean) => {
+      // Opened before the request so pop-up blockers see it as part of the click.
+      const cardWindow = window.open('', '_blank');
+      setCredentialError(null);
+      setRosterErrors([]);
+      try {
+        const res = await fetch('/api/teacher/students/cards', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(
+            withPasswords ? { students: credentials.map(({ username, password }) => ({ username, password })) } : {},
+          ),
+        });
+        if (!res.ok) {
+          cardWindow?.close();
+          const data = await res.json().catch(() => ({ message: 'Unable to create login cards.' }));
+          setCredentialError(data.message ?? 'Unable to create login cards.');
+          return;
+        }
+        const url = URL.createObjectURL(await res.blob());
+        if (cardWindow) {
+          cardWindow.location.href = url;
+        } else {
+          window.open(url, '_blank');
+        }
+        window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        setStudentsVersion((version) => version + 1);
+      } catch (error) {
+        cardWindow?.close();
+        console.error('Failed to create login cards', error);
+        setCredentialError('Something went wrong while creating login cards.');
+      }
+    },
+    [credentials],
+  );
+
   const toggleChatExpansion = useCallback((threadId: string) => {
     setExpandedChats((prev) =>
       prev.includes(threadId) ? prev.filter((id) => id !== threadId) : [...prev, threadId],
@@ -375,7 +776,9 @@ export default function TeacherDashboard() {
     for (const thread of chats) {
       const key = thread.student?.id ?? 'unknown';
       const entry = groups.get(key) ?? {
-        studentName: thread.student?.username ?? 'Unknown student',
+        studentName: thread.student?.username
+          ? studentLabel(thread.student.username, thread.student.displayName)
+          : 'Unknown student',
         threads: [],
       };
       entry.threads.push(thread);
@@ -397,6 +800,77 @@ export default function TeacherDashboard() {
     );
   }
 
+  if (!teacher) {
+    return (
+      <main className="min-h-screen bg-slate-900 text-slate-100 flex items-center justify-center p-6">
+        <div className="w-full max-w-md space-y-8">
+          <header className="space-y-2">
+            <h1 className="text-3xl font-semibold">Teacher Control Center</h1>
+            <p className="text-sm text-slate-300">
+              {authMode === 'login'
+                ? 'Sign in with your teacher account to run and monitor your classes.'
+                : 'Create a teacher account. Your sessions are only visible to you.'}
+            </p>
+          </header>
+          <section className="bg-white/10 backdrop-blur rounded-2xl p-6 space-y-4 border border-white/10">
+            <input
+              type="email"
+              autoComplete="email"
+              value={teacherEmail}
+              onChange={(event) => setTeacherEmail(event.target.value)}
+              placeholder="Email"
+              className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
+            />
+            {authMode === 'register' ? (
+              <input
+                type="text"
+                autoComplete="name"
+                value={teacherName}
+                onChange={(event) => setTeacherName(event.target.value)}
+                placeholder="Display name"
+                className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
+              />
+            ) : null}
+            <input
+              type="password"
+              autoComplete={authMode === 'login' ? 'current-password' : 'new-password'}
+              value={teacherPassword}
+              onChange={(event) => setTeacherPassword(event.target.value)}
+              placeholder="Password"
+              className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
+            />
+            {authMode === 'register' ? (
+              <input
+                type="text"
+                value={signupKey}
+                onChange={(event) => setSignupKey(event.target.value)}
+                placeholder="Signup key (if your school set one)"
+                className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
+              />
+            ) : null}
+            <button
+              onClick={() => void handleTeacherAuth()}
+              disabled={formLoading || teacherEmail.trim().length === 0 || teacherPassword.length === 0}
+              className="w-full bg-sky-500 hover:bg-sky-400 disabled:bg-slate-700 disabled:text-slate-400 text-slate-900 font-semibold py-2 rounded-lg transition"
+            >
+              {formLoading ? 'Working...' : authMode === 'login' ? 'Sign in' : 'Create account'}
+            </button>
+            <button
+              onClick={() => {
+                setAuthMode(authMode === 'login' ? 'register' : 'login');
+                setFormError(null);
+              }}
+              className="w-full text-xs text-slate-300 hover:text-white"
+            >
+              {authMode === 'login' ? 'Need an account? Register' : 'Already have an account? Sign in'}
+            </button>
+          </section>
+          {formError ? <p className="text-sm text-rose-300">{formError}</p> : null}
+        </div>
+      </main>
+    );
+  }
+
   if (!session || session.role !== 'teacher') {
     return (
       <main className="min-h-screen bg-slate-900 text-slate-100 flex items-center justify-center p-6">
@@ -404,13 +878,27 @@ export default function TeacherDashboard() {
           <header className="space-y-2">
             <h1 className="text-3xl font-semibold">Teacher Control Center</h1>
             <p className="text-sm text-slate-300">
-              Start a new class session or unlock the dashboard with the teacher password you choose each day.
+              Signed in as {teacher.displayName}. Start a new class session or reopen one of your running sessions.
             </p>
+            <div className="flex gap-4">
+              <Link href="/teacher/history" className="text-xs text-slate-400 hover:text-white underline">
+                Past sessions
+              </Link>
+              <Link href="/teacher/rosters" className="text-xs text-slate-400 hover:text-white underline">
+                Class rosters
+              </Link>
+              <button
+                onClick={() => void handleTeacherLogout()}
+                className="text-xs text-slate-400 hover:text-white underline"
+              >
+                Sign out
+              </button>
+            </div>
           </header>
           <div className="grid gap-6 md:grid-cols-2">
             <section className="bg-white/10 backdrop-blur rounded-2xl p-6 space-y-4 border border-white/10">
               <h2 className="text-lg font-medium text-white">Start new session</h2>
-              <p className="text-xs text-slate-300">This ends any active session and sets a fresh teacher password.</p>
+              <p className="text-xs text-slate-300">This ends the session you have open here and sets a fresh classroom password. Other teachers&apos; classes are not affected.</p>
               <input
                 type="password"
                 value={startPassword}
@@ -418,6 +906,21 @@ export default function TeacherDashboard() {
                 placeholder="New classroom password"
                 className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-400"
               />
+              {rosters.length > 0 ? (
+                <select
+                  value={startRosterId}
+                  onChange={(event) => setStartRosterId(event.target.value)}
+                  aria-label="Class roster"
+                  className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                >
+                  <option value="">No roster (generate logins for today)</option>
+                  {rosters.map((roster) => (
+                    <option key={roster.id} value={roster.id}>
+                      {roster.name} ({roster.accountCount} students)
+                    </option>
+                  ))}
+                </select>
+              ) : null}
               <button
                 onClick={() => void handleStartSession()}
                 disabled={formLoading}
@@ -428,6 +931,13 @@ export default function TeacherDashboard() {
             </section>
             <section className="bg-white/10 backdrop-blur rounded-2xl p-6 space-y-4 border border-white/10">
               <h2 className="text-lg font-medium text-white">Access active session</h2>
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(event) => setJoinCode(event.target.value.toUpperCase())}
+                placeholder="Join code"
+                className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm font-mono tracking-widest uppercase focus:outline-none focus:ring-2 focus:ring-sky-400"
+              />
               <input
                 type="password"
                 value={joinPassword}
@@ -435,13 +945,6 @@ export default function TeacherDashboard() {
                 placeholder="Classroom password"
                 className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
               />
-              <input
-                type="text"
-                value={teacherKey}
-                onChange={(event) => setTeacherKey(event.target.value)}
-                placeholder="Optional teacher key"
-                className="w-full rounded-lg border border-slate-600 bg-slate-800/60 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-400"
-              />
               <button
                 onClick={() => void handleJoinAsTeacher()}
                 disabled={formLoading}
@@ -468,19 +971,43 @@ export default function TeacherDashboard() {
             </p>
           </div>
           <div className="flex flex-wrap gap-3 items-center">
+            <span
+              className={`text-xs px-3 py-1 rounded-full ${
+                liveStatus === 'live' ? 'bg-emerald-500/20 text-emerald-200' : 'bg-slate-800 text-slate-400'
+              }`}
+            >
+              {liveStatus === 'live' ? 'Live updates on' : liveStatus === 'connecting' ? 'Connecting...' : 'Live updates off'}
+            </span>
             <button
               onClick={() => void loadActivity()}
               className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg"
             >
               {refreshing ? 'Refreshing...' : 'Refresh data'}
             </button>
+            <Link href="/teacher/history" className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+              Past sessions
+            </Link>
+            <Link href="/teacher/rosters" className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+              Class rosters
+            </Link>
+            <select
+              value={exportFormat}
+              onChange={(event) => setExportFormat(event.target.value)}
+              aria-label="Export format"
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            >
+              <option value="zip">ZIP with images</option>
+              <option value="html">HTML report</option>
+              <option value="csv">Prompts CSV</option>
+              <option value="json">JSON</option>
+            </select>
             <button
               onClick={() => {
-                window.open('/api/teacher/export', '_blank');
+                window.open(`/api/teacher/export?format=${exportFormat}`, '_blank');
               }}
               className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg"
             >
-              Export session JSON
+              Export session
             </button>
             <button
               onClick={() => void handleEndSession()}
@@ -488,11 +1015,21 @@ export default function TeacherDashboard() {
             >
               End session
             </button>
+            <button
+              onClick={() => void handleTeacherLogout()}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg"
+            >
+              Sign out
+            </button>
           </div>
         </header>
 
         <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
           <div className="flex flex-wrap items-center gap-6">
+            <div>
+              <p className="text-xs text-slate-400">Join code</p>
+              <p className="font-mono text-2xl tracking-widest text-emerald-300">{session.joinCode}</p>
+            </div>
             <div>
               <p className="text-xs text-slate-400">Session ID</p>
               <p className="font-mono text-slate-200 text-sm">{session.id}</p>
@@ -502,8 +1039,11 @@ export default function TeacherDashboard() {
               <p className="text-sm text-slate-200">{formatTimestamp(session.createdAt)}</p>
             </div>
             <div>
-              <p className="text-xs text-slate-400">Total submissions</p>
-              <p className="text-sm text-slate-200">{activity.length}</p>
+              <p className="text-xs text-slate-400">Submissions loaded</p>
+              <p className="text-sm text-slate-200">
+                {activity.length}
+                {activityCursor ? '+' : ''}
+              </p>
             </div>
           </div>
         </section>
@@ -512,7 +1052,9 @@ export default function TeacherDashboard() {
           <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
             <div>
               <h2 className="text-xl font-semibold text-slate-100">Generate student credentials</h2>
-              <p className="text-xs text-slate-400">Create quick sign-ins for today&apos;s class. Each username and password is eight characters.</p>
+              <p className="text-xs text-slate-400">
+                Create quick sign-ins for today&apos;s class, or import a class list. Each generated username and password is eight characters.
+              </p>
             </div>
             <div className="flex items-center gap-3">
               <label className="text-xs text-slate-400" htmlFor="credential-count">
@@ -539,9 +1081,41 @@ export default function TeacherDashboard() {
               </button>
             </div>
           </header>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs text-slate-400">Class list (CSV with a name column and an optional username column)</span>
+            <input
+              key={credentials[0]?.username ?? 'roster'}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={(event) => setRosterFile(event.target.files?.[0] ?? null)}
+              className="text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-4 file:py-2 file:text-sm file:text-slate-100 hover:file:bg-slate-700"
+            />
+            <button
+              onClick={() => void handleImportRoster()}
+              disabled={!rosterFile || credentialLoading}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+            >
+              Import roster
+            </button>
+            <button
+              onClick={() => void handlePrintCards(false)}
+              disabled={credentialLoading}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+              title="One card per student with a single-use QR sign-in link. Passwords are left off."
+            >
+              Print QR cards for everyone
+            </button>
+          </div>
           {credentialError ? (
             <div className="rounded-lg border border-rose-400 bg-rose-500/20 px-4 py-3 text-sm text-rose-100">
               {credentialError}
+              {rosterErrors.length > 0 ? (
+                <ul className="mt-2 list-disc pl-5 text-xs space-y-1">
+                  {rosterErrors.map((rosterError) => (
+                    <li key={rosterError}>{rosterError}</li>
+                  ))}
+                </ul>
+              ) : null}
             </div>
           ) : null}
           {credentials.length > 0 ? (
@@ -555,6 +1129,12 @@ export default function TeacherDashboard() {
                   >
                     Download CSV
                   </button>
+                  <button
+                    onClick={() => void handlePrintCards(true)}
+                    className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-2 rounded-md"
+                  >
+                    Print login cards
+                  </button>
                   <button
                     onClick={() => void window.print()}
                     className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-2 rounded-md"
@@ -568,6 +1148,7 @@ export default function TeacherDashboard() {
                   <thead className="bg-white/5">
                     <tr>
                       <th className="px-4 py-2 text-left font-semibold text-slate-200">#</th>
+                      <th className="px-4 py-2 text-left font-semibold text-slate-200">Name</th>
                       <th className="px-4 py-2 text-left font-semibold text-slate-200">Username</th>
                       <th className="px-4 py-2 text-left font-semibold text-slate-200">Password</th>
                     </tr>
@@ -576,6 +1157,7 @@ export default function TeacherDashboard() {
                     {credentials.map((credential, index) => (
                       <tr key={credential.username} className={index % 2 === 0 ? 'bg-white/0' : 'bg-white/5'}>
                         <td className="px-4 py-2 text-slate-300">{index + 1}</td>
+                        <td className="px-4 py-2 text-slate-100">{credential.displayName ?? ''}</td>
                         <td className="px-4 py-2 font-mono text-slate-100">{credential.username}</td>
                         <td className="px-4 py-2 font-mono text-slate-100">{credential.password}</td>
                       </tr>
@@ -589,11 +1171,154 @@ export default function TeacherDashboard() {
           )}
         </section>
 
+        <StudentManager
+          refreshKey={studentsVersion}
+          onChange={() => {
+            setStudentsVersion((version) => version + 1);
+            void loadActivity();
+          }}
+        />
+
+        <LoginAttempts refreshKey={studentsVersion} />
+
+        <QuotaSettings refreshKey={studentsVersion} />
+
+        <StylePresetSettings />
+
+        <UsageBudget refreshKey={studentsVersion} />
+
+        <ModerationSettings />
+
+        <ShareReview />
+
+        <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+          <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h2 className="text-xl font-semibold text-slate-100">Chat assistant persona</h2>
+              <p className="text-xs text-slate-400">These instructions are sent ahead of every student conversation in this session.</p>
+            </div>
+            <select
+              value=""
+              onChange={(event) => {
+                const preset = assistantPresets.find((entry) => entry.id === event.target.value);
+                if (preset) {
+                  setAssistantPersona(preset.persona);
+                  setAssistantSystemPrompt(preset.systemPrompt);
+                  setAssistantMessage(null);
+                }
+              }}
+              className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            >
+              <option value="">Load a preset...</option>
+              {assistantPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </header>
+          <input
+            type="text"
+            value={assistantPersona}
+            onChange={(event) => setAssistantPersona(event.target.value)}
+            placeholder="Persona, e.g. Socratic tutor for 7th-grade biology"
+            className="w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+          />
+          <textarea
+            value={assistantSystemPrompt}
+            onChange={(event) => setAssistantSystemPrompt(event.target.value)}
+            placeholder="Instructions, e.g. Never give final answers; ask guiding questions instead."
+            className="w-full min-h-28 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => void handleSaveAssistant()}
+              disabled={assistantSaving}
+              className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              {assistantSaving ? 'Saving...' : 'Save persona'}
+            </button>
+            {assistantMessage ? <p className="text-xs text-slate-300">{assistantMessage}</p> : null}
+          </div>
+        </section>
+
+        <DemoGenerator />
+
         <section className="space-y-4">
           <h2 className="text-xl font-semibold">Prompt timeline</h2>
+          <div className="flex flex-wrap items-end gap-3 text-xs text-slate-400">
+            <label className="space-y-1">
+              <span className="block">Student</span>
+              <select
+                value={filters.studentId}
+                onChange={(event) => setFilters((prev) => ({ ...prev, studentId: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              >
+                <option value="">All students</option>
+                {roster.map((student) => (
+                  <option key={student.id} value={student.id}>
+                    {studentLabel(student.username, student.displayName)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">Status</span>
+              <select
+                value={filters.status}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, status: event.target.value as ActivityFilters['status'] }))
+                }
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              >
+                <option value="">Any status</option>
+                <option value="PENDING">Pending</option>
+                <option value="SUCCESS">Succeeded</option>
+                <option value="ERROR">Failed</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">Sharing</span>
+              <select
+                value={filters.shared}
+                onChange={(event) =>
+                  setFilters((prev) => ({ ...prev, shared: event.target.value as ActivityFilters['shared'] }))
+                }
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              >
+                <option value="">Shared or private</option>
+                <option value="true">Shared</option>
+                <option value="false">Private</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">From</span>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(event) => setFilters((prev) => ({ ...prev, from: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">To</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(event) => setFilters((prev) => ({ ...prev, to: event.target.value }))}
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              />
+            </label>
+            <button
+              onClick={() => setFilters(emptyFilters)}
+              className="text-xs text-slate-400 hover:text-white underline pb-2"
+            >
+              Clear filters
+            </button>
+          </div>
           {promptsByRoot.length === 0 ? (
             <div className="bg-slate-900/60 border border-white/10 rounded-2xl p-6 text-slate-400 text-sm">
-              No prompts yet. Students can join with the classroom password to begin.
+              No prompts yet. Students can sign in with the join code above to begin.
             </div>
           ) : (
             <div className="space-y-4">
@@ -609,12 +1334,23 @@ export default function TeacherDashboard() {
                         <div className="flex flex-wrap justify-between gap-3 text-xs text-slate-300">
                           <span>{formatTimestamp(entry.createdAt)}</span>
                           <span>Revision {entry.revisionIndex}</span>
+                          {describeGenerationOptions(entry) ? <span>{describeGenerationOptions(entry)}</span> : null}
                           <span>Status: {entry.status}</span>
                           {entry.errorMessage ? <span className="text-rose-300">{entry.errorMessage}</span> : null}
                         </div>
                         <div className="mt-1 flex flex-wrap gap-3 text-[0.7rem] uppercase tracking-wide text-slate-500">
-                          <span>Owner: {entry.studentUsername ?? (entry.role === 'TEACHER' ? 'Teacher' : 'Unassigned')}</span>
+                          <span>
+                            Owner:{' '}
+                            {entry.studentUsername
+                              ? studentLabel(entry.studentUsername, entry.studentDisplayName)
+                              : entry.role === 'TEACHER'
+                                ? 'Teacher'
+                                : 'Unassigned'}
+                          </span>
                           <span>{entry.isShared ? 'Shared with class' : 'Private'}</span>
+                          {entry.moderationDecision === 'FLAGGED' ? (
+                            <span className="text-amber-300">Flagged: {entry.moderationReason ?? 'needs review'}</span>
+                          ) : null}
                         </div>
                         <p className="mt-2 text-sm text-slate-100">{entry.prompt}</p>
                       </li>
@@ -624,6 +1360,15 @@ export default function TeacherDashboard() {
               ))}
             </div>
           )}
+          {activityCursor ? (
+            <button
+              onClick={() => void loadMoreActivity()}
+              disabled={loadingMore !== null}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              {loadingMore === 'activity' ? 'Loading...' : 'Load older prompts'}
+            </button>
+          ) : null}
         </section>
 
         <section className="space-y-4">
@@ -673,7 +1418,15 @@ export default function TeacherDashboard() {
                                 thread.messages.map((message) => (
                                   <div key={message.id} className="space-y-1">
                                     <div className="flex items-center justify-between text-[0.65rem] uppercase tracking-wide text-slate-500">
-                                      <span>{message.sender === 'STUDENT' ? 'Student' : 'AI Assistant'}</span>
+                                      <span>
+                                        {message.sender === 'STUDENT' ? 'Student' : 'AI Assistant'}
+                                        {message.isComplete ? null : ' · interrupted'}
+                                        {message.moderationDecision === 'FLAGGED' ? (
+                                          <span className="text-amber-300" title={message.moderationReason ?? undefined}>
+                                            {' · flagged'}
+                                          </span>
+                                        ) : null}
+                                      </span>
                                       <span>{formatTimestamp(message.createdAt)}</span>
                                     </div>
                                     <div className="markdown-message text-sm text-slate-100 bg-white/5 border border-white/10 rounded-lg px-3 py-2">
@@ -745,12 +1498,12 @@ export default function TeacherDashboard() {
           ) : (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
               {gallery
-                .filter((entry) => entry.status === 'SUCCESS' && entry.imageData)
+                .filter((entry) => entry.status === 'SUCCESS' && entry.thumbnailUrl)
                 .map((entry) => (
                   <figure key={entry.id} className="bg-slate-900/60 border border-white/10 rounded-2xl overflow-hidden">
                     <div className="relative w-full aspect-[4/3]">
                       <Image
-                        src={`data:${entry.imageMimeType ?? 'image/png'};base64,${entry.imageData}`}
+                        src={entry.thumbnailUrl ?? ''}
                         alt={entry.prompt}
                         fill
                         sizes="(max-width: 768px) 100vw, (max-width: 1280px) 50vw, 33vw"
@@ -763,9 +1516,17 @@ export default function TeacherDashboard() {
                       <p className="text-xs text-slate-400 flex flex-wrap gap-3">
                         <span>{formatTimestamp(entry.createdAt)}</span>
                         <span>Revision {entry.revisionIndex}</span>
+                        {describeGenerationOptions(entry) ? <span>{describeGenerationOptions(entry)}</span> : null}
                       </p>
                       <p className="text-xs text-slate-400 flex flex-wrap gap-3">
-                        <span>Owner: {entry.studentUsername ?? 'Unknown'}</span>
+                        <span>
+                          Owner:{' '}
+                          {entry.studentUsername
+                            ? studentLabel(entry.studentUsername, entry.studentDisplayName)
+                            : entry.role === 'TEACHER'
+                              ? 'Teacher demo'
+                              : 'Unknown'}
+                        </span>
                         <span>{entry.isShared ? 'Shared' : 'Private'}</span>
                       </p>
                     </figcaption>
@@ -773,6 +1534,15 @@ export default function TeacherDashboard() {
                 ))}
             </div>
           )}
+          {galleryCursor ? (
+            <button
+              onClick={() => void loadMoreGallery()}
+              disabled={loadingMore !== null}
+              className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              {loadingMore === 'gallery' ? 'Loading...' : 'Load older images'}
+            </button>
+          ) : null}
         </section>
       </div>
     </main>
@@ -0,0 +1,330 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { studentLabel, toCredentialsCsv } from '@/lib/studentNames';
+
+interface RosterSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  accountCount: number;
+  sessionCount: number;
+}
+
+interface RosterAccount {
+  id: string;
+  username: string;
+  displayName: string | null;
+  createdAt: string;
+  sessionCount: number;
+}
+
+type Credential = { username: string; displayName: string | null; password: string };
+
+export default function ClassRosters() {
+  const [rosters, setRosters] = useState<RosterSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<RosterAccount[]>([]);
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+
+  const loadRosters = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/rosters', { credentials: 'include' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ message: 'Unable to load class rosters.' }));
+        setError(data.message ?? 'Unable to load class rosters.');
+        return;
+      }
+      const data: { rosters: RosterSummary[] } = await res.json();
+      setRosters(data.rosters ?? []);
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load class rosters', loadError);
+      setError('Something went wrong while loading class rosters.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadAccounts = useCallback(async (rosterId: string) => {
+    try {
+      const res = await fetch(`/api/teacher/rosters/${rosterId}`, { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { accounts: RosterAccount[] } = await res.json();
+      setAccounts(data.accounts ?? []);
+    } catch (loadError) {
+      console.error('Failed to load roster students', loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRosters();
+  }, [loadRosters]);
+
+  useEffect(() => {
+    setAccounts([]);
+    setCredentials([]);
+    setUploadErrors([]);
+    setMessage(null);
+    if (selectedId) void loadAccounts(selectedId);
+  }, [selectedId, loadAccounts]);
+
+  const send = useCallback(async (url: string, init: RequestInit) => {
+    setWorking(true);
+    setMessage(null);
+    setUploadErrors([]);
+    try {
+      const res = await fetch(url, { credentials: 'include', ...init });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(data.message ?? 'That did not work. Please try again.');
+        setUploadErrors(Array.isArray(data.errors) ? data.errors : []);
+        return null;
+      }
+      return data;
+    } catch (sendError) {
+      console.error('Class roster request failed', sendError);
+      setMessage('Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    const data = await send('/api/teacher/rosters', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newName }),
+    });
+    if (!data) return;
+    setNewName('');
+    await loadRosters();
+    setSelectedId(data.roster.id);
+  }, [loadRosters, newName, send]);
+
+  const handleUpload = useCallback(async () => {
+    if (!selectedId || !rosterFile) return;
+    const data = await send(`/api/teacher/rosters/${selectedId}/accounts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ csv: await rosterFile.text() }),
+    });
+    if (!data) return;
+    setCredentials(data.credentials ?? []);
+    setRosterFile(null);
+    await Promise.all([loadAccounts(selectedId), loadRosters()]);
+  }, [loadAccounts, loadRosters, rosterFile, selectedId, send]);
+
+  const handleReset = useCallback(
+    async (account: RosterAccount) => {
+      if (!selectedId) return;
+      const data = await send(`/api/teacher/rosters/${selectedId}/accounts/${account.id}/password`, { method: 'POST' });
+      if (data?.credential) {
+        setCredentials([data.credential]);
+        setMessage(`New password for ${account.username}. They have been signed out.`);
+      }
+    },
+    [selectedId, send],
+  );
+
+  const handleDelete = useCallback(async () => {
+    const roster = rosters.find((entry) => entry.id === selectedId);
+    if (!roster) return;
+    const confirmed = window.confirm(
+      `Delete the class "${roster.name}" and its ${roster.accountCount} logins? Past sessions keep their work, but students lose their portfolio.`,
+    );
+    if (!confirmed) return;
+    const data = await send(`/api/teacher/rosters/${roster.id}`, { method: 'DELETE' });
+    if (!data) return;
+    setSelectedId(null);
+    await loadRosters();
+  }, [loadRosters, rosters, selectedId, send]);
+
+  const handleDownload = useCallback(() => {
+    if (credentials.length === 0) return;
+    const roster = rosters.find((entry) => entry.id === selectedId);
+    const blob = new Blob([toCredentialsCsv(credentials)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(roster?.name ?? 'class').replace(/[^a-zA-Z0-9_-]+/g, '-')}-credentials.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [credentials, rosters, selectedId]);
+
+  const selected = rosters.find((entry) => entry.id === selectedId) ?? null;
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-100">
+      <div className="max-w-5xl mx-auto px-8 py-10 space-y-8">
+        <header className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold">Class rosters</h1>
+            <p className="text-sm text-slate-300">
+              Students on a roster keep one login for every session you start for that class, and see all of their work in
+              their portfolio.
+            </p>
+          </div>
+          <Link href="/teacher" className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg w-fit">
+            Back to dashboard
+          </Link>
+        </header>
+
+        <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+          <h2 className="text-xl font-semibold text-slate-100">Your classes</h2>
+          {loading ? <p className="text-sm text-slate-400">Loading classes...</p> : null}
+          {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+          {!loading && !error && rosters.length === 0 ? (
+            <p className="text-sm text-slate-400">You have no class rosters yet. Create one below.</p>
+          ) : null}
+          {rosters.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {rosters.map((roster) => (
+                <button
+                  key={roster.id}
+                  onClick={() => setSelectedId(roster.id)}
+                  className={`text-sm px-4 py-2 rounded-lg ${
+                    roster.id === selectedId ? 'bg-emerald-500 text-slate-900' : 'bg-slate-800 hover:bg-slate-700'
+                  }`}
+                >
+                  {roster.name}
+                  <span className="ml-2 text-xs opacity-70">
+                    {roster.accountCount} students · {roster.sessionCount} sessions
+                  </span>
+                </button>
+              ))}
+            </div>
+          ) : null}
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="New class name, e.g. 7B Art"
+              className="w-64 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            />
+            <button
+              onClick={() => void handleCreate()}
+              disabled={working || newName.trim().length === 0}
+              className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+            >
+              Create class
+            </button>
+          </div>
+        </section>
+
+        {selected ? (
+          <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+            <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-slate-100">{selected.name}</h2>
+                <p className="text-xs text-slate-400">
+                  Add students with a CSV that has a name column and an optional username column. Pick this class when you
+                  start a session.
+                </p>
+              </div>
+              <button
+                onClick={() => void handleDelete()}
+                disabled={working}
+                className="text-sm bg-rose-500/20 hover:bg-rose-500/30 text-rose-200 px-4 py-2 rounded-lg w-fit disabled:opacity-50"
+              >
+                Delete class
+              </button>
+            </header>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                key={credentials[0]?.username ?? 'roster'}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={(event) => setRosterFile(event.target.files?.[0] ?? null)}
+                className="text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-slate-800 file:px-4 file:py-2 file:text-sm file:text-slate-100 hover:file:bg-slate-700"
+              />
+              <button
+                onClick={() => void handleUpload()}
+                disabled={!rosterFile || working}
+                className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+              >
+                {working ? 'Working...' : 'Add students'}
+              </button>
+            </div>
+
+            {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+            {uploadErrors.length > 0 ? (
+              <ul className="list-disc pl-5 text-xs text-rose-300 space-y-1">
+                {uploadErrors.map((uploadError) => (
+                  <li key={uploadError}>{uploadError}</li>
+                ))}
+              </ul>
+            ) : null}
+
+            {credentials.length > 0 ? (
+              <div className="space-y-3 rounded-xl border border-emerald-400/30 bg-emerald-500/10 p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-xs text-emerald-100">Passwords are only shown here once. Download them now.</p>
+                  <button
+                    onClick={handleDownload}
+                    className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-2 rounded-md"
+                  >
+                    Download CSV
+                  </button>
+                </div>
+                <ul className="text-sm text-slate-100 space-y-1">
+                  {credentials.map((credential) => (
+                    <li key={credential.username}>
+                      {studentLabel(credential.username, credential.displayName)}:{' '}
+                      <span className="font-mono">{credential.password}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            {accounts.length === 0 ? (
+              <p className="text-xs text-slate-400">No students in this class yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm text-left text-slate-200">
+                  <thead className="text-xs uppercase text-slate-400">
+                    <tr>
+                      <th className="py-2 pr-4">Student</th>
+                      <th className="py-2 pr-4">Sessions joined</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accounts.map((account) => (
+                      <tr key={account.id} className="border-t border-white/10">
+                        <td className="py-2 pr-4">{studentLabel(account.username, account.displayName)}</td>
+                        <td className="py-2 pr-4">{account.sessionCount}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => void handleReset(account)}
+                            disabled={working}
+                            className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                          >
+                            Reset password
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -6,6 +6,7 @@ import { usePathname } from 'next/navigation';
 const navItems = [
   { href: '/', label: 'Image Lab' },
   { href: '/chat', label: 'Chat Assistant' },
+  { href: '/portfolio', label: 'My portfolio' },
 ];
 
 export function StudentNav() {
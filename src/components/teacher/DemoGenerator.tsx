@@ -0,0 +1,255 @@
+'use client';
+
+import Image from 'next/image';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AspectRatio,
+  aspectRatios,
+  DEFAULT_ASPECT_RATIO,
+  describeGenerationOptions,
+  MAX_VARIANTS,
+  StylePreset,
+} from '@/lib/generationOptions';
+import { formatTimestamp } from './formatTimestamp';
+import { StylePresetsResponse } from './StylePresetSettings';
+
+interface DemoSubmission {
+  id: string;
+  prompt: string;
+  createdAt: string;
+  status: 'PENDING' | 'SUCCESS' | 'ERROR';
+  errorMessage: string | null;
+  thumbnailUrl: string | null;
+  revisionIndex: number;
+  aspectRatio: string | null;
+  stylePreset: string | null;
+  variantIndex: number;
+  variantCount: number;
+}
+
+const DEMO_PAGE_SIZE = 12;
+
+export function DemoGenerator() {
+  const [demos, setDemos] = useState<DemoSubmission[]>([]);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [stylePresetId, setStylePresetId] = useState('');
+  const [variants, setVariants] = useState(1);
+  const [parent, setParent] = useState<DemoSubmission | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadDemos = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/images?role=TEACHER&limit=${DEMO_PAGE_SIZE}`, { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { submissions?: DemoSubmission[] } = await res.json();
+      setDemos(data.submissions ?? []);
+    } catch (error) {
+      console.error('Failed to load demo images', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadDemos();
+    fetch('/api/teacher/styles', { credentials: 'include' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: StylePresetsResponse | null) => setStylePresets(data?.presets ?? []))
+      .catch((error) => console.error('Failed to load style presets', error));
+  }, [loadDemos]);
+
+  // Live events cover the rest of the dashboard; a short poll keeps this list current while demos generate.
+  const hasPending = demos.some((demo) => demo.status === 'PENDING');
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(() => void loadDemos(), 2500);
+    return () => clearInterval(timer);
+  }, [hasPending, loadDemos]);
+
+  const handleGenerate = useCallback(async () => {
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/images/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          prompt,
+          parentSubmissionId: parent?.id,
+          aspectRatio: parent ? undefined : aspectRatio,
+          stylePresetId: parent ? undefined : stylePresetId || null,
+          variants,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(data.message ?? 'Unable to generate the demo.');
+        return;
+      }
+      setPrompt('');
+      setParent(null);
+      await loadDemos();
+    } catch (error) {
+      console.error('Failed to generate demo image', error);
+      setMessage('Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }, [prompt, parent, aspectRatio, stylePresetId, variants, loadDemos]);
+
+  const handleRetry = useCallback(
+    async (submissionId: string) => {
+      setMessage(null);
+      try {
+        const res = await fetch(`/api/images/${submissionId}/retry`, { method: 'POST', credentials: 'include' });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setMessage(data.message ?? 'Unable to retry the demo.');
+          return;
+        }
+        await loadDemos();
+      } catch (error) {
+        console.error('Failed to retry demo image', error);
+        setMessage('Something went wrong. Please try again.');
+      }
+    },
+    [loadDemos],
+  );
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Demo images</h2>
+          <p className="text-xs text-slate-400">
+            Model good prompting live. Demos are shared with the class with a TEACHER badge, and students can start their own chains from them.
+          </p>
+        </div>
+        <button onClick={() => void loadDemos()} className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+          Refresh
+        </button>
+      </header>
+      {parent ? (
+        <p className="text-xs text-slate-300">
+          Refining “{parent.prompt}”. The demo keeps its shape and style.{' '}
+          <button onClick={() => setParent(null)} className="underline text-slate-400 hover:text-white">
+            Start a new demo instead
+          </button>
+        </p>
+      ) : null}
+      <textarea
+        value={prompt}
+        onChange={(event) => setPrompt(event.target.value)}
+        placeholder="e.g. A lighthouse on a rocky coast at dawn, seagulls circling, warm golden light"
+        className="w-full min-h-24 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+      />
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-400">
+        {!parent ? (
+          <>
+            <label className="space-y-1">
+              <span className="block">Shape</span>
+              <select
+                value={aspectRatio}
+                onChange={(event) => setAspectRatio(event.target.value as AspectRatio)}
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              >
+                {aspectRatios.map((ratio) => (
+                  <option key={ratio.id} value={ratio.id}>
+                    {ratio.label} ({ratio.id})
+                  </option>
+                ))}
+              </select>
+            </label>
+            {stylePresets.length > 0 ? (
+              <label className="space-y-1">
+                <span className="block">Style</span>
+                <select
+                  value={stylePresetId}
+                  onChange={(event) => setStylePresetId(event.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                >
+                  <option value="">No style</option>
+                  {stylePresets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+          </>
+        ) : null}
+        <label className="space-y-1">
+          <span className="block">Variants</span>
+          <select
+            value={variants}
+            onChange={(event) => setVariants(Number(event.target.value))}
+            className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+          >
+            {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => void handleGenerate()}
+          disabled={submitting || prompt.trim().length < 5}
+          className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          {submitting ? 'Submitting...' : parent ? 'Generate refinement' : 'Generate demo'}
+        </button>
+        {message ? <span className="text-xs text-slate-300">{message}</span> : null}
+      </div>
+      {demos.length === 0 ? (
+        <p className="text-xs text-slate-400">No demo images in this session yet.</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {demos.map((demo) => (
+            <figure key={demo.id} className="bg-slate-950/60 border border-white/10 rounded-xl overflow-hidden">
+              {demo.thumbnailUrl ? (
+                <div className="relative w-full aspect-[4/3]">
+                  <Image src={demo.thumbnailUrl} alt={demo.prompt} fill sizes="25vw" unoptimized className="object-cover" />
+                </div>
+              ) : (
+                <div className="w-full aspect-[4/3] flex items-center justify-center text-xs text-slate-500">
+                  {demo.status === 'PENDING' ? 'Generating...' : 'No image'}
+                </div>
+              )}
+              <figcaption className="p-3 space-y-2 text-xs text-slate-400">
+                <p className="text-sm text-slate-100">{demo.prompt}</p>
+                <p className="flex flex-wrap gap-2">
+                  <span>{formatTimestamp(demo.createdAt)}</span>
+                  {demo.revisionIndex > 0 ? <span>Refinement {demo.revisionIndex}</span> : null}
+                  {describeGenerationOptions(demo) ? <span>{describeGenerationOptions(demo)}</span> : null}
+                </p>
+                {demo.status === 'ERROR' ? (
+                  <p className="flex flex-wrap items-center gap-2 text-rose-300">
+                    {demo.errorMessage ?? 'Generation failed'}
+                    <button onClick={() => void handleRetry(demo.id)} className="underline text-slate-300 hover:text-white">
+                      Retry
+                    </button>
+                  </p>
+                ) : null}
+                {demo.status === 'SUCCESS' ? (
+                  <button
+                    onClick={() => {
+                      setParent(demo);
+                      setPrompt(demo.prompt);
+                    }}
+                    className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1 rounded-lg text-slate-200"
+                  >
+                    Refine
+                  </button>
+                ) : null}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatTimestamp } from './formatTimestamp';
+
+interface FailedLoginEntry {
+  id: string;
+  createdAt: string;
+  username: string | null;
+  ipAddress: string;
+  reason: 'wrong-password' | 'unknown-username' | 'unknown-session' | 'locked';
+}
+
+const failedLoginReasons: Record<FailedLoginEntry['reason'], string> = {
+  'wrong-password': 'Wrong password',
+  'unknown-username': 'Unknown username',
+  'unknown-session': 'Unknown join code',
+  locked: 'Tried while locked out',
+};
+
+export function LoginAttempts({ refreshKey }: { refreshKey: unknown }) {
+  const [attempts, setAttempts] = useState<FailedLoginEntry[]>([]);
+  const [lockouts, setLockouts] = useState<Array<{ username: string | null; ipAddress: string | null; retryAfter: number }>>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/login-attempts', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { attempts: FailedLoginEntry[]; lockouts: Array<{ username: string | null; ipAddress: string | null; retryAfter: number }> } =
+        await res.json();
+      setAttempts(data.attempts ?? []);
+      setLockouts(data.lockouts ?? []);
+    } catch (error) {
+      console.error('Failed to load sign-in attempts', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadAttempts();
+  }, [loadAttempts, refreshKey]);
+
+  const unlock = useCallback(
+    async (username: string | null, ipAddress: string | null) => {
+      setMessage(null);
+      try {
+        const res = await fetch('/api/teacher/login-attempts/unlock', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ username, ipAddress }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({ message: 'Unable to lift the lockout.' }));
+          setMessage(data.message ?? 'Unable to lift the lockout.');
+          return;
+        }
+        setMessage(username ? `${username} can sign in again.` : `The session password can be used from ${ipAddress} again.`);
+        await loadAttempts();
+      } catch (error) {
+        console.error('Failed to lift lockout', error);
+        setMessage('Something went wrong. Please try again.');
+      }
+    },
+    [loadAttempts],
+  );
+
+  if (attempts.length === 0 && lockouts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Failed sign-ins</h2>
+          <p className="text-xs text-slate-400">
+            After five wrong tries a login is locked for a minute, and each further lockout lasts twice as long.
+          </p>
+        </div>
+        <button onClick={() => void loadAttempts()} className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+          Refresh
+        </button>
+      </header>
+      {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+      {lockouts.length > 0 ? (
+        <ul className="space-y-2">
+          {lockouts.map((lockout) => (
+            <li
+              key={lockout.username ?? `session-password-${lockout.ipAddress}`}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-amber-400/40 bg-amber-500/10 px-4 py-2 text-sm text-amber-100"
+            >
+              <span>
+                {lockout.username ? (
+                  <span className="font-mono">{lockout.username}</span>
+                ) : (
+                  <>
+                    The session password from <span className="font-mono">{lockout.ipAddress}</span>
+                  </>
+                )}{' '}
+                is locked for {Math.ceil(lockout.retryAfter / 60)} more min.
+              </span>
+              <button
+                onClick={() => void unlock(lockout.username, lockout.ipAddress)}
+                className="text-xs bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded-lg"
+              >
+                Unlock
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {attempts.length > 0 ? (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="min-w-full text-sm text-left text-slate-200">
+            <thead className="text-xs uppercase text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">Time</th>
+                <th className="py-2 pr-4">Username</th>
+                <th className="py-2 pr-4">Problem</th>
+                <th className="py-2">Address</th>
+              </tr>
+            </thead>
+            <tbody>
+              {attempts.map((attempt) => (
+                <tr key={attempt.id} className="border-t border-white/10">
+                  <td className="py-2 pr-4 text-xs text-slate-400">{formatTimestamp(attempt.createdAt)}</td>
+                  <td className="py-2 pr-4 font-mono">{attempt.username ?? 'session password'}</td>
+                  <td className="py-2 pr-4">{failedLoginReasons[attempt.reason] ?? attempt.reason}</td>
+                  <td className="py-2 font-mono text-xs text-slate-400">{attempt.ipAddress}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ModerationAction, moderationActions, moderationCategories } from '@/lib/moderationCategories';
+import { studentLabel } from '@/lib/studentNames';
+import { formatTimestamp } from './formatTimestamp';
+
+interface ModerationLogEntry {
+  id: string;
+  source: 'IMAGE_PROMPT' | 'CHAT_MESSAGE';
+  decision: 'FLAGGED' | 'BLOCKED';
+  category: string | null;
+  reason: string;
+  content: string;
+  createdAt: string;
+  studentUsername: string | null;
+  studentDisplayName: string | null;
+}
+
+interface ModerationResponse {
+  blocklist: string;
+  rules: Array<{ category: string; action: ModerationAction }>;
+  log: ModerationLogEntry[];
+}
+
+export function ModerationSettings() {
+  const [blocklist, setBlocklist] = useState('');
+  const [rules, setRules] = useState<Record<string, ModerationAction>>({});
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadModeration = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/moderation', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: ModerationResponse = await res.json();
+      setBlocklist(data.blocklist);
+      setRules(Object.fromEntries(data.rules.map((rule) => [rule.category, rule.action])));
+      setLog(data.log ?? []);
+    } catch (error) {
+      console.error('Failed to load moderation settings', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadModeration();
+  }, [loadModeration]);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/teacher/moderation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          blocklist,
+          rules: Object.entries(rules).map(([category, action]) => ({ category, action })),
+        }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: 'Unable to save moderation settings.' }));
+        setMessage(error.message ?? 'Unable to save moderation settings.');
+        return;
+      }
+
+      setMessage('Moderation settings saved.');
+    } catch (error) {
+      console.error('Failed to save moderation settings', error);
+      setMessage('Something went wrong while saving.');
+    } finally {
+      setSaving(false);
+    }
+  }, [blocklist, rules]);
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-6">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Prompt moderation</h2>
+          <p className="text-xs text-slate-400">
+            Image prompts and chat messages are checked before they reach the AI. Blocked and flagged prompts are logged below.
+          </p>
+        </div>
+        <button
+          onClick={() => void loadModeration()}
+          className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg"
+        >
+          Refresh log
+        </button>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <label className="space-y-2 text-xs text-slate-400">
+          <span className="block">Blocked words and phrases (one per line)</span>
+          <textarea
+            value={blocklist}
+            onChange={(event) => setBlocklist(event.target.value)}
+            placeholder={'e.g.\nfortnite\nscary clown'}
+            className="w-full min-h-40 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+          />
+        </label>
+        <div className="space-y-2">
+          {moderationCategories.map((category) => (
+            <div key={category.id} className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-slate-100">{category.label}</p>
+                <p className="text-xs text-slate-400">{category.description}</p>
+              </div>
+              <select
+                value={rules[category.id] ?? category.defaultAction}
+                onChange={(event) =>
+                  setRules((prev) => ({ ...prev, [category.id]: event.target.value as ModerationAction }))
+                }
+                className="rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              >
+                {moderationActions.map((action) => (
+                  <option key={action.value} value={action.value}>
+                    {action.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => void handleSave()}
+          disabled={saving}
+          className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          {saving ? 'Saving...' : 'Save moderation settings'}
+        </button>
+        {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+      </div>
+
+      {log.length === 0 ? (
+        <p className="text-xs text-slate-400">No prompts have been blocked or flagged in this session.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-slate-200">
+            <thead className="text-xs uppercase text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">When</th>
+                <th className="py-2 pr-4">Student</th>
+                <th className="py-2 pr-4">Where</th>
+                <th className="py-2 pr-4">Result</th>
+                <th className="py-2 pr-4">Reason</th>
+                <th className="py-2">Prompt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {log.map((entry) => (
+                <tr key={entry.id} className="border-t border-white/10 align-top">
+                  <td className="py-2 pr-4 text-xs text-slate-400 whitespace-nowrap">{formatTimestamp(entry.createdAt)}</td>
+                  <td className="py-2 pr-4">
+                    {entry.studentUsername ? studentLabel(entry.studentUsername, entry.studentDisplayName) : 'Unknown'}
+                  </td>
+                  <td className="py-2 pr-4 text-xs">{entry.source === 'IMAGE_PROMPT' ? 'Image' : 'Chat'}</td>
+                  <td className={`py-2 pr-4 text-xs ${entry.decision === 'BLOCKED' ? 'text-rose-300' : 'text-amber-300'}`}>
+                    {entry.decision === 'BLOCKED' ? 'Blocked' : 'Flagged'}
+                  </td>
+                  <td className="py-2 pr-4 text-xs text-slate-300">{entry.reason}</td>
+                  <td className="py-2 text-slate-100">{entry.content}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { describeAllowance, toAllowance } from '@/lib/allowance';
+import { studentLabel } from '@/lib/studentNames';
+
+type QuotaKey = 'imageLimit' | 'refinementLimit' | 'threadLimit' | 'messageLimit';
+type QuotaValues = Record<QuotaKey, number | null>;
+type QuotaDraft = Record<QuotaKey, string>;
+
+interface QuotaStudent {
+  id: string;
+  username: string;
+  displayName: string | null;
+  overrides: QuotaValues;
+  effective: QuotaValues;
+  usage: { images: number; threads: number; messages: number };
+}
+
+const quotaFields: Array<{ key: QuotaKey; label: string; optional: boolean }> = [
+  { key: 'imageLimit', label: 'Images per student', optional: true },
+  { key: 'refinementLimit', label: 'Refinements per image', optional: false },
+  { key: 'threadLimit', label: 'Chats per student', optional: false },
+  { key: 'messageLimit', label: 'Chat messages per student', optional: true },
+];
+
+function toQuotaDraft(values: QuotaValues): QuotaDraft {
+  return {
+    imageLimit: values.imageLimit?.toString() ?? '',
+    refinementLimit: values.refinementLimit?.toString() ?? '',
+    threadLimit: values.threadLimit?.toString() ?? '',
+    messageLimit: values.messageLimit?.toString() ?? '',
+  };
+}
+
+function fromQuotaDraft(draft: QuotaDraft): QuotaValues {
+  const parse = (value: string) => (value.trim() === '' ? null : Number(value));
+  return {
+    imageLimit: parse(draft.imageLimit),
+    refinementLimit: parse(draft.refinementLimit),
+    threadLimit: parse(draft.threadLimit),
+    messageLimit: parse(draft.messageLimit),
+  };
+}
+
+export function QuotaSettings({ refreshKey }: { refreshKey: unknown }) {
+  const [sessionDraft, setSessionDraft] = useState<QuotaDraft | null>(null);
+  const [students, setStudents] = useState<QuotaStudent[]>([]);
+  const [studentDrafts, setStudentDrafts] = useState<Record<string, QuotaDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadQuotas = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/quotas', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { limits: QuotaValues; students: QuotaStudent[] } = await res.json();
+      setSessionDraft(toQuotaDraft(data.limits));
+      setStudents(data.students ?? []);
+      setStudentDrafts(
+        Object.fromEntries((data.students ?? []).map((student) => [student.id, toQuotaDraft(student.overrides)])),
+      );
+    } catch (error) {
+      console.error('Failed to load quotas', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadQuotas();
+  }, [loadQuotas, refreshKey]);
+
+  const saveQuotas = useCallback(
+    async (url: string, draft: QuotaDraft, savingKey: string) => {
+      setSavingId(savingKey);
+      setMessage(null);
+      try {
+        const res = await fetch(url, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(fromQuotaDraft(draft)),
+        });
+
+        if (!res.ok) {
+          const error = await res.json().catch(() => ({ message: 'Unable to save limits.' }));
+          setMessage(error.message ?? 'Unable to save limits.');
+          return;
+        }
+
+        setMessage('Limits saved.');
+        await loadQuotas();
+      } catch (error) {
+        console.error('Failed to save quotas', error);
+        setMessage('Something went wrong while saving limits.');
+      } finally {
+        setSavingId(null);
+      }
+    },
+    [loadQuotas],
+  );
+
+  if (!sessionDraft) {
+    return null;
+  }
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-6">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Student limits</h2>
+          <p className="text-xs text-slate-400">
+            Leave image or message limits blank for unlimited. Blank student overrides follow the session limit.
+          </p>
+        </div>
+        <button
+          onClick={() => void loadQuotas()}
+          className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg"
+        >
+          Refresh
+        </button>
+      </header>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {quotaFields.map((field) => (
+          <label key={field.key} className="space-y-1 text-xs text-slate-400">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              min={0}
+              value={sessionDraft[field.key]}
+              onChange={(event) => setSessionDraft({ ...sessionDraft, [field.key]: event.target.value })}
+              placeholder={field.optional ? 'Unlimited' : undefined}
+              className="w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => void saveQuotas('/api/teacher/quotas', sessionDraft, 'session')}
+          disabled={savingId !== null}
+          className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          {savingId === 'session' ? 'Saving...' : 'Save session limits'}
+        </button>
+        {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+      </div>
+
+      {students.length === 0 ? (
+        <p className="text-xs text-slate-400">Generate student logins to set per-student overrides.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left text-slate-200">
+            <thead className="text-xs uppercase text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">Student</th>
+                <th className="py-2 pr-4">Usage</th>
+                {quotaFields.map((field) => (
+                  <th key={field.key} className="py-2 pr-4">
+                    {field.label}
+                  </th>
+                ))}
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {students.map((student) => {
+                const draft = studentDrafts[student.id] ?? toQuotaDraft(student.overrides);
+                return (
+                  <tr key={student.id} className="border-t border-white/10 align-top">
+                    <td className="py-2 pr-4">{studentLabel(student.username, student.displayName)}</td>
+                    <td className="py-2 pr-4 text-xs text-slate-400 space-y-0.5">
+                      <p>{describeAllowance(toAllowance(student.effective.imageLimit, student.usage.images), 'images')}</p>
+                      <p>{describeAllowance(toAllowance(student.effective.threadLimit, student.usage.threads), 'chats')}</p>
+                      <p>
+                        {describeAllowance(toAllowance(student.effective.messageLimit, student.usage.messages), 'messages')}
+                      </p>
+                    </td>
+                    {quotaFields.map((field) => (
+                      <td key={field.key} className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min={0}
+                          value={draft[field.key]}
+                          onChange={(event) =>
+                            setStudentDrafts((prev) => ({
+                              ...prev,
+                              [student.id]: { ...draft, [field.key]: event.target.value },
+                            }))
+                          }
+                          placeholder={sessionDraft[field.key] || 'Unlimited'}
+                          className="w-24 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                        />
+                      </td>
+                    ))}
+                    <td className="py-2">
+                      <button
+                        onClick={() => void saveQuotas(`/api/teacher/students/${student.id}/quotas`, draft, student.id)}
+                        disabled={savingId !== null}
+                        className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                      >
+                        {savingId === student.id ? 'Saving...' : 'Save'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
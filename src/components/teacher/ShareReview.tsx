@@ -0,0 +1,190 @@
+'use client';
+
+import Image from 'next/image';
+import { useCallback, useEffect, useState } from 'react';
+import { studentLabel } from '@/lib/studentNames';
+import { formatTimestamp } from './formatTimestamp';
+
+interface ShareRequest {
+  id: string;
+  prompt: string;
+  shareRequestedAt: string | null;
+  revisionIndex: number;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  studentUsername: string | null;
+  studentDisplayName: string | null;
+}
+
+export function ShareReview() {
+  const [requireShareApproval, setRequireShareApproval] = useState(false);
+  const [pending, setPending] = useState<ShareRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [updating, setUpdating] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSharing = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/sharing', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { requireShareApproval: boolean; pending: ShareRequest[] } = await res.json();
+      setRequireShareApproval(data.requireShareApproval);
+      setPending(data.pending ?? []);
+    } catch (error) {
+      console.error('Failed to load share requests', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSharing();
+  }, [loadSharing]);
+
+  const handleToggle = useCallback(async (enabled: boolean) => {
+    setUpdating(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/teacher/sharing', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ requireShareApproval: enabled }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({ message: 'Unable to update sharing settings.' }));
+        setMessage(error.message ?? 'Unable to update sharing settings.');
+        return;
+      }
+
+      setRequireShareApproval(enabled);
+    } catch (error) {
+      console.error('Failed to update sharing settings', error);
+      setMessage('Something went wrong while saving.');
+    } finally {
+      setUpdating(false);
+    }
+  }, []);
+
+  const handleReview = useCallback(
+    async (submissionId: string, decision: 'approve' | 'reject') => {
+      setReviewingId(submissionId);
+      setMessage(null);
+      try {
+        const res = await fetch(`/api/teacher/sharing/${submissionId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ decision, note: notes[submissionId]?.trim() || undefined }),
+        });
+
+        if (!res.ok) {
+          const error = await res.json().catch(() => ({ message: 'Unable to review this request.' }));
+          setMessage(error.message ?? 'Unable to review this request.');
+          if (res.status === 409) {
+            void loadSharing();
+          }
+          return;
+        }
+
+        setPending((prev) => prev.filter((request) => request.id !== submissionId));
+      } catch (error) {
+        console.error('Failed to review share request', error);
+        setMessage('Something went wrong while saving.');
+      } finally {
+        setReviewingId(null);
+      }
+    },
+    [loadSharing, notes],
+  );
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Sharing review</h2>
+          <p className="text-xs text-slate-400">
+            When review is on, images a student shares wait here until you approve them for the class gallery.
+          </p>
+        </div>
+        <button
+          onClick={() => void loadSharing()}
+          className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg"
+        >
+          Refresh queue
+        </button>
+      </header>
+
+      <label className="flex items-center gap-3 text-sm text-slate-200">
+        <input
+          type="checkbox"
+          checked={requireShareApproval}
+          disabled={updating}
+          onChange={(event) => void handleToggle(event.target.checked)}
+          className="h-4 w-4 accent-emerald-500"
+        />
+        Review images before they appear in the shared gallery
+      </label>
+      {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+
+      {pending.length === 0 ? (
+        <p className="text-xs text-slate-400">No share requests are waiting for review.</p>
+      ) : (
+        <ul className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {pending.map((request) => (
+            <li key={request.id} className="rounded-xl border border-white/10 bg-slate-950/60 p-4 space-y-3">
+              {request.thumbnailUrl ? (
+                <a
+                  href={request.imageUrl ?? request.thumbnailUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="relative block aspect-square overflow-hidden rounded-lg"
+                >
+                  <Image
+                    src={request.thumbnailUrl}
+                    alt={request.prompt}
+                    fill
+                    sizes="(max-width: 768px) 100vw, (max-width: 1280px) 50vw, 33vw"
+                    unoptimized
+                    className="object-cover"
+                  />
+                </a>
+              ) : null}
+              <div className="space-y-1">
+                <p className="text-sm text-slate-100">{request.prompt}</p>
+                <p className="text-xs text-slate-400">
+                  <span>{request.studentUsername ? studentLabel(request.studentUsername, request.studentDisplayName) : 'Unknown'}</span>
+                  {request.revisionIndex > 0 ? ` · Refinement ${request.revisionIndex}` : ''}
+                  {request.shareRequestedAt ? ` · Requested ${formatTimestamp(request.shareRequestedAt)}` : ''}
+                </p>
+              </div>
+              <input
+                value={notes[request.id] ?? ''}
+                onChange={(event) => setNotes((prev) => ({ ...prev, [request.id]: event.target.value }))}
+                maxLength={500}
+                placeholder="Note for the student (optional)"
+                className="w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => void handleReview(request.id, 'approve')}
+                  disabled={reviewingId === request.id}
+                  className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => void handleReview(request.id, 'reject')}
+                  disabled={reviewingId === request.id}
+                  className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+                >
+                  Keep private
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
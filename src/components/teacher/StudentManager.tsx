@@ -0,0 +1,255 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { studentLabel } from '@/lib/studentNames';
+import { formatTimestamp } from './formatTimestamp';
+
+interface ManagedStudent {
+  id: string;
+  username: string;
+  displayName: string | null;
+  lockedAt: string | null;
+  createdAt: string;
+}
+
+export function StudentManager({ refreshKey, onChange }: { refreshKey: unknown; onChange: () => void }) {
+  const [students, setStudents] = useState<ManagedStudent[]>([]);
+  const [editing, setEditing] = useState<{ id: string; username: string; displayName: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [resetCredential, setResetCredential] = useState<{ username: string; displayName: string | null; password: string } | null>(
+    null,
+  );
+
+  const loadStudents = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/students', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: { students: ManagedStudent[] } = await res.json();
+      setStudents(data.students ?? []);
+    } catch (error) {
+      console.error('Failed to load students', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStudents();
+  }, [loadStudents, refreshKey]);
+
+  const runAction = useCallback(
+    async (studentId: string, url: string, init: RequestInit, success: string) => {
+      setBusyId(studentId);
+      setMessage(null);
+      try {
+        const res = await fetch(url, { credentials: 'include', ...init });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setMessage(data.message ?? 'That did not work. Please try again.');
+          return null;
+        }
+        setMessage(success);
+        onChange();
+        return data;
+      } catch (error) {
+        console.error('Student action failed', error);
+        setMessage('Something went wrong. Please try again.');
+        return null;
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [onChange],
+  );
+
+  const saveEdit = useCallback(async () => {
+    if (!editing) return;
+    const data = await runAction(
+      editing.id,
+      `/api/teacher/students/${editing.id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: editing.username, displayName: editing.displayName.trim() || null }),
+      },
+      'Student renamed.',
+    );
+    if (data) setEditing(null);
+  }, [editing, runAction]);
+
+  const resetPassword = useCallback(
+    async (student: ManagedStudent) => {
+      setResetCredential(null);
+      const data = await runAction(
+        student.id,
+        `/api/teacher/students/${student.id}/password`,
+        { method: 'POST' },
+        `New password for ${student.username} is shown below. They have been signed out.`,
+      );
+      if (data?.credential) setResetCredential(data.credential);
+    },
+    [runAction],
+  );
+
+  const deleteStudent = useCallback(
+    async (student: ManagedStudent) => {
+      const confirmed = window.confirm(
+        `Delete ${studentLabel(student.username, student.displayName)}? Their images, chats and moderation history are removed for good.`,
+      );
+      if (!confirmed) return;
+      await runAction(student.id, `/api/teacher/students/${student.id}`, { method: 'DELETE' }, 'Student deleted.');
+    },
+    [runAction],
+  );
+
+  if (students.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Manage students</h2>
+          <p className="text-xs text-slate-400">
+            Reset a forgotten password without losing work, rename, pause generation and chat, or sign a student out.
+          </p>
+        </div>
+        <button onClick={() => void loadStudents()} className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+          Refresh
+        </button>
+      </header>
+      {message ? <p className="text-xs text-slate-300">{message}</p> : null}
+      {resetCredential ? (
+        <p className="rounded-lg border border-emerald-400/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
+          {studentLabel(resetCredential.username, resetCredential.displayName)}: new password{' '}
+          <span className="font-mono">{resetCredential.password}</span>
+        </p>
+      ) : null}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-left text-slate-200">
+          <thead className="text-xs uppercase text-slate-400">
+            <tr>
+              <th className="py-2 pr-4">Student</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {students.map((student) => {
+              const isEditing = editing?.id === student.id;
+              const busy = busyId === student.id;
+              return (
+                <tr key={student.id} className="border-t border-white/10 align-top">
+                  <td className="py-2 pr-4">
+                    {isEditing && editing ? (
+                      <div className="flex flex-wrap gap-2">
+                        <input
+                          value={editing.displayName}
+                          onChange={(event) => setEditing({ ...editing, displayName: event.target.value })}
+                          placeholder="Name"
+                          className="w-40 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                        />
+                        <input
+                          value={editing.username}
+                          onChange={(event) => setEditing({ ...editing, username: event.target.value })}
+                          placeholder="Username"
+                          className="w-32 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 font-mono text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                        />
+                      </div>
+                    ) : (
+                      studentLabel(student.username, student.displayName)
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-xs">
+                    {student.lockedAt ? (
+                      <span className="text-amber-300">Paused since {formatTimestamp(student.lockedAt)}</span>
+                    ) : (
+                      <span className="text-slate-400">Active</span>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {isEditing ? (
+                        <>
+                          <button
+                            onClick={() => void saveEdit()}
+                            disabled={busy}
+                            className="text-xs bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditing(null)}
+                            className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            setEditing({ id: student.id, username: student.username, displayName: student.displayName ?? '' })
+                          }
+                          disabled={busy}
+                          className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                        >
+                          Rename
+                        </button>
+                      )}
+                      <button
+                        onClick={() => void resetPassword(student)}
+                        disabled={busy}
+                        className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                      >
+                        Reset password
+                      </button>
+                      <button
+                        onClick={() =>
+                          void runAction(
+                            student.id,
+                            `/api/teacher/students/${student.id}`,
+                            {
+                              method: 'PATCH',
+                              headers: { 'Content-Type': 'application/json' },
+                              body: JSON.stringify({ locked: !student.lockedAt }),
+                            },
+                            student.lockedAt ? 'Student unlocked.' : 'Student paused.',
+                          )
+                        }
+                        disabled={busy}
+                        className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                      >
+                        {student.lockedAt ? 'Unlock' : 'Pause'}
+                      </button>
+                      <button
+                        onClick={() =>
+                          void runAction(
+                            student.id,
+                            `/api/teacher/students/${student.id}/logout`,
+                            { method: 'POST' },
+                            `${student.username} has been signed out.`,
+                          )
+                        }
+                        disabled={busy}
+                        className="text-xs bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                      >
+                        Sign out
+                      </button>
+                      <button
+                        onClick={() => void deleteStudent(student)}
+                        disabled={busy}
+                        className="text-xs bg-rose-500/20 hover:bg-rose-500/30 text-rose-200 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  STYLE_LABEL_MAX_LENGTH,
+  STYLE_PRESET_LIMIT,
+  STYLE_PROMPT_MAX_LENGTH,
+  StylePreset,
+} from '@/lib/generationOptions';
+
+export interface StylePresetsResponse {
+  presets: StylePreset[];
+  isDefault: boolean;
+}
+
+type StyleDraft = { label: string; prompt: string };
+
+export function StylePresetSettings() {
+  const [drafts, setDrafts] = useState<StyleDraft[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const applyResponse = useCallback((data: StylePresetsResponse) => {
+    setDrafts(data.presets.map(({ label, prompt }) => ({ label, prompt })));
+    setIsDefault(data.isDefault);
+  }, []);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/styles', { credentials: 'include' });
+      if (!res.ok) return;
+      applyResponse(await res.json());
+      setLoaded(true);
+    } catch (error) {
+      console.error('Failed to load style presets', error);
+    }
+  }, [applyResponse]);
+
+  useEffect(() => {
+    void loadPresets();
+  }, [loadPresets]);
+
+  const savePresets = useCallback(
+    async (presets: StyleDraft[] | null) => {
+      setSaving(true);
+      setMessage(null);
+      try {
+        const res = await fetch('/api/teacher/styles', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ presets }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setMessage(data.message ?? 'Unable to save the styles.');
+          return;
+        }
+        applyResponse(data);
+        setMessage(presets === null ? 'Built-in styles restored.' : 'Styles saved.');
+      } catch (error) {
+        console.error('Failed to save style presets', error);
+        setMessage('Something went wrong. Please try again.');
+      } finally {
+        setSaving(false);
+      }
+    },
+    [applyResponse],
+  );
+
+  const updateDraft = (index: number, changes: Partial<StyleDraft>) =>
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  if (!loaded) {
+    return null;
+  }
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">Image styles</h2>
+          <p className="text-xs text-slate-400">
+            Students can pick one of these styles when they generate an image. The description is added to their prompt.
+            {isDefault ? ' You are using the built-in list.' : ''}
+          </p>
+        </div>
+        {!isDefault ? (
+          <button
+            onClick={() => void savePresets(null)}
+            disabled={saving}
+            className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+          >
+            Restore built-in styles
+          </button>
+        ) : null}
+      </header>
+      {drafts.length === 0 ? (
+        <p className="text-xs text-slate-400">No styles. Students will only see the aspect ratio and variant options.</p>
+      ) : (
+        <div className="space-y-2">
+          {drafts.map((draft, index) => (
+            <div key={index} className="flex flex-col gap-2 md:flex-row md:items-center">
+              <input
+                value={draft.label}
+                onChange={(event) => updateDraft(index, { label: event.target.value })}
+                maxLength={STYLE_LABEL_MAX_LENGTH}
+                placeholder="Name, e.g. Watercolor"
+                className="md:w-48 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              />
+              <input
+                value={draft.prompt}
+                onChange={(event) => updateDraft(index, { prompt: event.target.value })}
+                maxLength={STYLE_PROMPT_MAX_LENGTH}
+                placeholder="What it should look like, e.g. soft watercolor painting"
+                className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+              />
+              <button
+                onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                className="text-xs text-slate-400 hover:text-rose-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setDrafts((prev) => [...prev, { label: '', prompt: '' }])}
+          disabled={drafts.length >= STYLE_PRESET_LIMIT}
+          className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+        >
+          Add style
+        </button>
+        <button
+          onClick={() => void savePresets(drafts)}
+          disabled={saving}
+          className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          {saving ? 'Saving...' : 'Save styles'}
+        </button>
+        {message ? <span className="text-xs text-slate-300">{message}</span> : null}
+      </div>
+    </section>
+  );
+}
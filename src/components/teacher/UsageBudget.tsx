@@ -0,0 +1,183 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { studentLabel } from '@/lib/studentNames';
+
+type UsageTotals = { promptTokens: number; completionTokens: number; costUsd: number };
+
+interface UsageResponse {
+  budgetUsd: number | null;
+  spentUsd: number;
+  total: { images: UsageTotals; chat: UsageTotals };
+  students: Array<{ id: string; username: string; displayName: string | null; images: UsageTotals; chat: UsageTotals }>;
+}
+
+const usdFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+const tokenFormatter = new Intl.NumberFormat('en-US');
+
+function formatTokens(totals: UsageTotals) {
+  return tokenFormatter.format(totals.promptTokens + totals.completionTokens);
+}
+
+export function UsageBudget({ refreshKey }: { refreshKey: unknown }) {
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [budgetDraft, setBudgetDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      const res = await fetch('/api/teacher/usage', { credentials: 'include' });
+      if (!res.ok) return;
+      const data: UsageResponse = await res.json();
+      setUsage(data);
+      setBudgetDraft(data.budgetUsd === null ? '' : String(data.budgetUsd));
+    } catch (error) {
+      console.error('Failed to load usage', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadUsage();
+  }, [loadUsage, refreshKey]);
+
+  const saveBudget = useCallback(
+    async (budgetUsd: number | null) => {
+      if (budgetUsd !== null && (!Number.isFinite(budgetUsd) || budgetUsd < 0)) {
+        setMessage('Enter the budget in dollars, for example 5 or 2.50.');
+        return;
+      }
+      setSaving(true);
+      setMessage(null);
+      try {
+        const res = await fetch('/api/teacher/usage', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ budgetUsd }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setMessage(data.message ?? 'Unable to save the budget.');
+          return;
+        }
+        setMessage(budgetUsd === null ? 'Budget removed.' : 'Budget saved.');
+        await loadUsage();
+      } catch (error) {
+        console.error('Failed to save budget', error);
+        setMessage('Something went wrong. Please try again.');
+      } finally {
+        setSaving(false);
+      }
+    },
+    [loadUsage],
+  );
+
+  if (!usage) {
+    return null;
+  }
+
+  const budgetReached = usage.budgetUsd !== null && usage.spentUsd >= usage.budgetUsd;
+  const percent = usage.budgetUsd ? Math.min(100, (usage.spentUsd / usage.budgetUsd) * 100) : 0;
+
+  return (
+    <section className="bg-slate-900/60 rounded-2xl border border-white/10 p-6 space-y-4">
+      <header className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-100">AI spend</h2>
+          <p className="text-xs text-slate-400">
+            Cost as reported by the provider. Once the budget is used up, image generation and chat pause for the whole class.
+          </p>
+        </div>
+        <button onClick={() => void loadUsage()} className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg">
+          Refresh
+        </button>
+      </header>
+      <div className="space-y-2">
+        <p className="text-sm text-slate-200">
+          <span className="text-2xl font-semibold text-slate-100">{usdFormatter.format(usage.spentUsd)}</span>
+          {usage.budgetUsd !== null ? ` of ${usdFormatter.format(usage.budgetUsd)} budget` : ' spent, no budget set'}
+          <span className="ml-2 text-xs text-slate-400">
+            Images {usdFormatter.format(usage.total.images.costUsd)} · Chat {usdFormatter.format(usage.total.chat.costUsd)}
+          </span>
+        </p>
+        {usage.budgetUsd !== null ? (
+          <div className="h-2 w-full rounded-full bg-slate-800">
+            <div
+              className={`h-2 rounded-full ${budgetReached ? 'bg-rose-400' : percent >= 80 ? 'bg-amber-400' : 'bg-emerald-400'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        ) : null}
+        {budgetReached ? (
+          <p className="text-xs text-rose-300">The budget is used up. Students cannot generate images or chat until you raise it.</p>
+        ) : null}
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-xs text-slate-400" htmlFor="session-budget">
+          Budget (USD)
+        </label>
+        <input
+          id="session-budget"
+          type="number"
+          min={0}
+          step="0.5"
+          value={budgetDraft}
+          onChange={(event) => setBudgetDraft(event.target.value)}
+          placeholder="No limit"
+          className="w-28 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-400"
+        />
+        <button
+          onClick={() => void saveBudget(budgetDraft.trim() === '' ? null : Number(budgetDraft))}
+          disabled={saving}
+          className="text-sm bg-emerald-500 hover:bg-emerald-400 text-slate-900 px-4 py-2 rounded-lg disabled:bg-slate-700 disabled:text-slate-400"
+        >
+          Save budget
+        </button>
+        {usage.budgetUsd !== null ? (
+          <button
+            onClick={() => void saveBudget(null)}
+            disabled={saving}
+            className="text-sm bg-slate-800 hover:bg-slate-700 px-4 py-2 rounded-lg disabled:text-slate-500"
+          >
+            Remove budget
+          </button>
+        ) : null}
+        {message ? <span className="text-xs text-slate-300">{message}</span> : null}
+      </div>
+      {usage.students.length > 0 ? (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="min-w-full text-sm text-left text-slate-200">
+            <thead className="text-xs uppercase text-slate-400">
+              <tr>
+                <th className="py-2 pr-4">Student</th>
+                <th className="py-2 pr-4">Images</th>
+                <th className="py-2 pr-4">Chat</th>
+                <th className="py-2 pr-4">Total</th>
+                <th className="py-2">Tokens</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.students.map((student) => (
+                <tr key={student.id} className="border-t border-white/10">
+                  <td className="py-2 pr-4">{studentLabel(student.username, student.displayName)}</td>
+                  <td className="py-2 pr-4">{usdFormatter.format(student.images.costUsd)}</td>
+                  <td className="py-2 pr-4">{usdFormatter.format(student.chat.costUsd)}</td>
+                  <td className="py-2 pr-4 font-medium">{usdFormatter.format(student.images.costUsd + student.chat.costUsd)}</td>
+                  <td className="py-2 text-xs text-slate-400">
+                    {formatTokens(student.images)} image · {formatTokens(student.chat)} chat
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,12 @@
+const timestampFormatter = new Intl.DateTimeFormat('en-US', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export function formatTimestamp(iso: string) {
+  try {
+    return timestampFormatter.format(new Date(iso));
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,20 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Resume queued generations and recover ones interrupted by a restart.
+    const { startGenerationWorker } = await import('@/lib/generationQueue');
+    startGenerationWorker();
+
+    // Older versions kept images as base64 in the database; move any leftovers to the image store.
+    const { migrateInlineImages } = await import('@/lib/images');
+    void migrateInlineImages()
+      .then(({ moved, skipped }) => {
+        if (moved > 0) {
+          console.info(`Moved ${moved} stored images out of the database`);
+        }
+        if (skipped > 0) {
+          console.warn(`Left ${skipped} images in the database because they could not be stored; they are retried on the next start`);
+        }
+      })
+      .catch((error) => console.error('Failed to move inline images to storage', error));
+  }
+}
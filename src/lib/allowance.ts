@@ -0,0 +1,17 @@
+export type Allowance = { limit: number | null; used: number; remaining: number | null };
+
+export function toAllowance(limit: number | null, used: number): Allowance {
+  return { limit, used, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+/** Short label such as "3 of 10 images left", shared by the student and teacher views. */
+export function describeAllowance(allowance: Allowance, noun: string) {
+  if (allowance.limit === null || allowance.remaining === null) {
+    return `Unlimited ${noun}`;
+  }
+  return `${allowance.remaining} of ${allowance.limit} ${noun} left`;
+}
+
+export function isExhausted(allowance: Allowance | null | undefined) {
+  return allowance?.remaining === 0;
+}
@@ -1,15 +1,11 @@
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 
-const SESSION_COOKIE = 'classroom_session_id';
-const ROLE_COOKIE = 'classroom_role';
-const STUDENT_COOKIE = 'classroom_student_id';
+const AUTH_COOKIE = 'classroom_auth';
 
 export type UserRole = 'student' | 'teacher';
 
-export const sessionCookieName = SESSION_COOKIE;
-export const roleCookieName = ROLE_COOKIE;
-export const studentCookieName = STUDENT_COOKIE;
+export const authCookieName = AUTH_COOKIE;
 
 export async function hashPassword(password: string) {
   const salt = await bcrypt.genSalt(10);
@@ -23,3 +19,7 @@ export function verifyPassword(password: string, hash: string) {
 export function generateToken(prefix: string) {
   return `${prefix}_${crypto.randomBytes(24).toString('hex')}`;
 }
+
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
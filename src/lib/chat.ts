@@ -0,0 +1,204 @@
+import { ModelUsage, parseUsage } from './usage';
+
+const CHAT_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
+
+export type ChatHistoryEntry = { sender: 'STUDENT' | 'AI'; content: string };
+
+export type AssistantSettings = {
+  assistantPersona?: string | null;
+  assistantSystemPrompt?: string | null;
+};
+
+export function buildSystemPrompt({ assistantPersona, assistantSystemPrompt }: AssistantSettings) {
+  const parts: string[] = [];
+  const persona = assistantPersona?.trim();
+  const instructions = assistantSystemPrompt?.trim();
+  if (persona) {
+    parts.push(`You are acting as: ${persona}.`);
+  }
+  if (instructions) {
+    parts.push(instructions);
+  }
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+export function toOpenRouterMessages(history: ChatHistoryEntry[], settings: AssistantSettings = {}) {
+  const messages = history.map((entry) => ({
+    role: entry.sender === 'STUDENT' ? 'user' : 'assistant',
+    content: entry.content,
+  }));
+  const systemPrompt = buildSystemPrompt(settings);
+  return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...messages] : messages;
+}
+
+function extractTextFromChoiceMessage(message: unknown) {
+  if (!message || typeof message !== 'object') {
+    return null;
+  }
+
+  // @ts-expect-error -- dynamic structure from OpenRouter
+  const content = message.content;
+  if (typeof content === 'string') {
+    return content.trim();
+  }
+  if (Array.isArray(content)) {
+    const text = content
+      .map((part) => {
+        if (!part) return '';
+        if (typeof part === 'string') return part;
+        if (typeof part.text === 'string') return part.text;
+        if (typeof part.content === 'string') return part.content;
+        if (typeof part.value === 'string') return part.value;
+        return '';
+      })
+      .join(' ')
+      .trim();
+    return text.length > 0 ? text : null;
+  }
+  // Some providers return { text: "..." }
+  // @ts-expect-error dynamic property access
+  if (typeof message.text === 'string') {
+    // @ts-expect-error dynamic property access
+    return message.text.trim();
+  }
+
+  return null;
+}
+
+function requestChatCompletion(history: ChatHistoryEntry[], settings: AssistantSettings, stream: boolean) {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in your environment.');
+  }
+
+  const model = process.env.OPENROUTER_CHAT_MODEL || process.env.OPENROUTER_MODEL || 'google/gemini-2.5-flash-preview-09-2025';
+
+  return fetch(CHAT_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000',
+      'X-Title': 'Classroom Assistant Chat',
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOpenRouterMessages(history, settings),
+      modality: 'text',
+      modalities: ['text'],
+      top_p: 0.9,
+      stream,
+      // Asks OpenRouter to report the cost of the call, in the final chunk when streaming.
+      usage: { include: true },
+    }),
+  });
+}
+
+export type ChatCompletion = { text: string; usage: ModelUsage };
+
+export async function callChatCompletion(history: ChatHistoryEntry[], settings: AssistantSettings = {}): Promise<ChatCompletion> {
+  const response = await requestChatCompletion(history, settings, false);
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error('OpenRouter chat completion error', result);
+    const message = result?.error?.message ?? 'OpenRouter request failed';
+    throw new Error(message);
+  }
+
+  const choice = result?.choices?.[0]?.message;
+  const aiText = extractTextFromChoiceMessage(choice);
+  if (!aiText || aiText.length === 0) {
+    throw new Error('OpenRouter returned an empty response');
+  }
+
+  return { text: aiText, usage: parseUsage(result?.usage) };
+}
+
+export class ChatStreamError extends Error {
+  constructor(message: string, readonly partialText: string, readonly usage: ModelUsage | null = null) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+/**
+ * Streams a completion from OpenRouter's SSE endpoint, calling `onDelta` for every text chunk.
+ * Resolves with the full reply; if the stream breaks, rejects with a ChatStreamError carrying
+ * whatever text had arrived so far, and the usage when OpenRouter had already reported it.
+ */
+export async function streamChatCompletion(
+  history: ChatHistoryEntry[],
+  settings: AssistantSettings,
+  onDelta: (text: string) => void,
+): Promise<ChatCompletion> {
+  const response = await requestChatCompletion(history, settings, true);
+
+  if (!response.ok || !response.body) {
+    const result = await response.json().catch(() => null);
+    console.error('OpenRouter chat stream error', result);
+    throw new ChatStreamError(result?.error?.message ?? 'OpenRouter request failed', '', parseUsage(result?.usage));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: ModelUsage | null = null;
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+
+        // Blank lines separate events and lines starting with ':' are keep-alive comments.
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          finished = true;
+          break;
+        }
+
+        const chunk = JSON.parse(data);
+        if (chunk?.error) {
+          throw new Error(chunk.error.message ?? 'OpenRouter stream failed');
+        }
+        if (chunk?.usage) {
+          usage = parseUsage(chunk.usage);
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta.length > 0) {
+          text += delta;
+          onDelta(delta);
+        }
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'OpenRouter stream failed';
+    throw new ChatStreamError(message, text.trim(), usage);
+  }
+
+  if (!finished) {
+    throw new ChatStreamError('The reply was cut off before it finished', text.trim(), usage);
+  }
+
+  const aiText = text.trim();
+  if (aiText.length === 0) {
+    throw new ChatStreamError('OpenRouter returned an empty response', '', usage);
+  }
+
+  return { text: aiText, usage: usage ?? parseUsage(null) };
+}
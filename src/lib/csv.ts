@@ -0,0 +1,16 @@
+/** Spreadsheets run cells starting with these as formulas, so text that does is prefixed with a quote. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** One CSV cell: quoted when needed, and never read back as a formula. Numbers are left as numbers. */
+export function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][], lineBreak = '\r\n') {
+  return rows.map((row) => row.map(csvCell).join(',')).join(lineBreak);
+}
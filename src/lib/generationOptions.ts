@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+export const aspectRatios = [
+  { id: '1:1', label: 'Square', width: 1024, height: 1024 },
+  { id: '4:3', label: 'Landscape', width: 1152, height: 864 },
+  { id: '3:4', label: 'Portrait', width: 864, height: 1152 },
+  { id: '16:9', label: 'Widescreen', width: 1344, height: 768 },
+  { id: '9:16', label: 'Tall poster', width: 768, height: 1344 },
+] as const;
+
+export type AspectRatio = (typeof aspectRatios)[number]['id'];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = '1:1';
+
+const aspectRatioIds = aspectRatios.map((ratio) => ratio.id) as [AspectRatio, ...AspectRatio[]];
+
+export function getAspectRatio(id: string | null | undefined) {
+  return aspectRatios.find((ratio) => ratio.id === id) ?? null;
+}
+
+/** OpenAI-style image models only accept square, landscape and portrait, so other ratios snap to the closest. */
+export function openAiImageSize(id: AspectRatio) {
+  const { width, height } = getAspectRatio(id) ?? aspectRatios[0];
+  if (width === height) return '1024x1024';
+  return width > height ? '1536x1024' : '1024x1536';
+}
+
+export const MAX_VARIANTS = 4;
+
+export type StylePreset = { id: string; label: string; prompt: string };
+
+export const STYLE_PRESET_LIMIT = 12;
+export const STYLE_LABEL_MAX_LENGTH = 40;
+export const STYLE_PROMPT_MAX_LENGTH = 200;
+
+/** Offered until the teacher edits the list for their session. */
+export const defaultStylePresets: StylePreset[] = [
+  { id: 'watercolor', label: 'Watercolor', prompt: 'soft watercolor painting with visible brush strokes and paper texture' },
+  { id: 'pixel-art', label: 'Pixel art', prompt: '16-bit pixel art with a limited color palette and crisp square pixels' },
+  { id: 'comic', label: 'Comic book', prompt: 'comic book illustration with bold ink outlines, flat colors and halftone shading' },
+  { id: 'pencil-sketch', label: 'Pencil sketch', prompt: 'graphite pencil sketch with cross-hatching on white paper' },
+  { id: 'clay', label: 'Clay model', prompt: '3D claymation style with soft lighting and handmade clay textures' },
+  { id: 'photo', label: 'Photograph', prompt: 'realistic photograph with natural lighting and shallow depth of field' },
+];
+
+export const stylePresetInputSchema = z.object({
+  label: z.string().trim().min(1, 'Give every style a name').max(STYLE_LABEL_MAX_LENGTH, 'Style names are limited to 40 characters'),
+  prompt: z
+    .string()
+    .trim()
+    .min(1, 'Describe what every style should look like')
+    .max(STYLE_PROMPT_MAX_LENGTH, 'Style descriptions are limited to 200 characters'),
+});
+
+const storedPresetsSchema = z.array(z.object({ id: z.string(), label: z.string(), prompt: z.string() }));
+
+/** The session's presets. `null` means the teacher never edited the list; an empty list turns styles off. */
+export function readStylePresets(stored: string | null | undefined): StylePreset[] {
+  if (stored === null || stored === undefined) {
+    return defaultStylePresets;
+  }
+  try {
+    const parsed = storedPresetsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : defaultStylePresets;
+  } catch {
+    return defaultStylePresets;
+  }
+}
+
+/** Gives each preset an ID derived from its name, so students' picks survive edits to the descriptions. */
+export function toStylePresets(entries: Array<z.infer<typeof stylePresetInputSchema>>): StylePreset[] {
+  const used = new Set<string>();
+  return entries.map((entry) => {
+    const base = entry.label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'style';
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    used.add(id);
+    return { id, label: entry.label, prompt: entry.prompt };
+  });
+}
+
+/** The prompt actually sent to the provider: the student's words, then the style they picked. */
+export function applyStylePrompt(prompt: string, stylePrompt: string | null | undefined) {
+  return stylePrompt ? `${prompt}\n\nStyle: ${stylePrompt}` : prompt;
+}
+
+/**
+ * Options accepted by `/api/images/generate`. Refinements inherit the parent's aspect ratio when it is
+ * left out, and its style when `stylePresetId` is left out; `null` asks for no style.
+ */
+export const generationOptionsSchema = z.object({
+  aspectRatio: z.enum(aspectRatioIds).optional(),
+  stylePresetId: z.string().min(1).nullable().optional(),
+  variants: z.number().int().min(1, 'Ask for at least one image').max(MAX_VARIANTS, 'You can ask for up to 4 variants').default(1),
+});
+
+type DescribedOptions = {
+  aspectRatio: string | null;
+  stylePreset: string | null;
+  variantIndex: number;
+  variantCount: number;
+};
+
+/** Short description such as "Portrait · Watercolor · Variant 2 of 4", shared by the galleries and the export. */
+export function describeGenerationOptions({ aspectRatio, stylePreset, variantIndex, variantCount }: DescribedOptions) {
+  const parts = [
+    getAspectRatio(aspectRatio)?.label,
+    stylePreset,
+    variantCount > 1 ? `Variant ${variantIndex + 1} of ${variantCount}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
@@ -0,0 +1,251 @@
+import { GenerationJobStatus, SubmissionStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { getImageProvider, getRequestTimeoutMs, ProviderRequestError } from './imageProviders';
+import { loadSubmissionImageDataUrl, storeSubmissionImage } from './images';
+import { publishLiveEvent } from './liveEvents';
+import { addUsage, BUDGET_MESSAGE, isBudgetReached, ModelUsage, usageFields } from './usage';
+import { applyStylePrompt, getAspectRatio } from './generationOptions';
+
+const POLL_INTERVAL_MS = 3000;
+const MIN_STALE_JOB_MS = 5 * 60 * 1000;
+const STALE_JOB_MARGIN_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 2 * 60 * 1000;
+
+/**
+ * A job still RUNNING after this long belongs to a process that died mid-generation. A live job makes at most two
+ * timed provider requests (the generation and the image download), so the cutoff always stays above both.
+ */
+function getStaleJobMs() {
+  return Math.max(MIN_STALE_JOB_MS, 2 * getRequestTimeoutMs() + STALE_JOB_MARGIN_MS);
+}
+
+function getConcurrency() {
+  const value = Number(process.env.GENERATION_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : 2;
+}
+
+type WorkerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  active: number;
+  ticking: boolean;
+};
+
+const globalForQueue = globalThis as unknown as {
+  generationWorker: WorkerState | undefined;
+};
+
+const worker: WorkerState = globalForQueue.generationWorker ?? { timer: null, active: 0, ticking: false };
+globalForQueue.generationWorker = worker;
+
+function publishSubmissionUpdate(submission: { id: string; sessionId: string; studentId: string | null; isShared: boolean }) {
+  publishLiveEvent(submission.sessionId, {
+    type: 'submission',
+    submissionId: submission.id,
+    studentId: submission.studentId,
+    visibleToClass: submission.isShared,
+  });
+}
+
+async function failSubmission(submissionId: string, message: string) {
+  const [submission] = await prisma.$transaction([
+    prisma.promptSubmission.update({
+      where: { id: submissionId },
+      data: { status: SubmissionStatus.ERROR, errorMessage: message },
+      select: { id: true, sessionId: true, studentId: true, isShared: true },
+    }),
+    prisma.generationJob.updateMany({
+      where: { submissionId },
+      data: { status: GenerationJobStatus.FAILED, finishedAt: new Date(), lastError: message },
+    }),
+  ]);
+  publishSubmissionUpdate(submission);
+}
+
+/** Requeues or fails jobs abandoned by a crashed process, and fails PENDING submissions that never got a job. */
+export async function recoverInterruptedGenerations() {
+  const staleBefore = new Date(Date.now() - getStaleJobMs());
+
+  const staleJobs = await prisma.generationJob.findMany({
+    where: { status: GenerationJobStatus.RUNNING, startedAt: { lt: staleBefore } },
+    select: { id: true, submissionId: true, attempts: true },
+  });
+
+  for (const job of staleJobs) {
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await failSubmission(job.submissionId, 'Image generation was interrupted. Please try again.');
+    } else {
+      await prisma.generationJob.updateMany({
+        where: { id: job.id, status: GenerationJobStatus.RUNNING },
+        data: { status: GenerationJobStatus.QUEUED, runAfter: new Date() },
+      });
+    }
+  }
+
+  await prisma.promptSubmission.updateMany({
+    where: {
+      status: SubmissionStatus.PENDING,
+      generationJob: { is: null },
+      createdAt: { lt: staleBefore },
+    },
+    data: {
+      status: SubmissionStatus.ERROR,
+      errorMessage: 'Image generation was interrupted. Please try again.',
+    },
+  });
+}
+
+/** Exponential backoff with jitter, stretched to the provider's Retry-After when it asks for longer. */
+function retryDelayMs(attempts: number, retryAfterMs: number | null) {
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.min(RETRY_MAX_DELAY_MS, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+async function claimNextJob() {
+  const candidate = await prisma.generationJob.findFirst({
+    where: { status: GenerationJobStatus.QUEUED, runAfter: { lte: new Date() } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, submissionId: true, attempts: true },
+  });
+
+  if (!candidate) {
+    return null;
+  }
+
+  // The status guard makes the claim atomic when several processes poll the same table.
+  const claimed = await prisma.generationJob.updateMany({
+    where: { id: candidate.id, status: GenerationJobStatus.QUEUED },
+    data: { status: GenerationJobStatus.RUNNING, startedAt: new Date(), attempts: { increment: 1 } },
+  });
+
+  return claimed.count === 1 ? { ...candidate, attempts: candidate.attempts + 1 } : null;
+}
+
+async function runJob(job: { id: string; submissionId: string; attempts: number }) {
+  const submission = await prisma.promptSubmission.findUnique({
+    where: { id: job.submissionId },
+    select: {
+      id: true,
+      sessionId: true,
+      prompt: true,
+      aspectRatio: true,
+      stylePrompt: true,
+      variantIndex: true,
+      promptTokens: true,
+      completionTokens: true,
+      costUsd: true,
+      parentSubmission: {
+        select: { id: true, imageKey: true, thumbnailKey: true, imageData: true, imageMimeType: true },
+      },
+    },
+  });
+
+  if (!submission) {
+    await prisma.generationJob.updateMany({
+      where: { id: job.id },
+      data: { status: GenerationJobStatus.FAILED, finishedAt: new Date(), lastError: 'Submission no longer exists' },
+    });
+    return;
+  }
+
+  // Jobs queued before the budget ran out are failed rather than run, so spend stops at the cap.
+  if (await isBudgetReached(submission.sessionId)) {
+    await failSubmission(submission.id, BUDGET_MESSAGE);
+    return;
+  }
+
+  // Set once the provider has answered, so the cost is kept even if storing the image fails.
+  let billed: ModelUsage | null = null;
+  try {
+    const parent = submission.parentSubmission;
+    const baseImageDataUrl = parent ? await loadSubmissionImageDataUrl(parent) : undefined;
+    const { imageData, mimeType, usage } = await getImageProvider().generate({
+      prompt: applyStylePrompt(submission.prompt, submission.stylePrompt),
+      baseImageDataUrl,
+      aspectRatio: getAspectRatio(submission.aspectRatio)?.id,
+      variantIndex: submission.variantIndex,
+    });
+    billed = usage ?? null;
+    const stored = await storeSubmissionImage(submission, imageData, mimeType);
+    const [updated] = await prisma.$transaction([
+      prisma.promptSubmission.update({
+        where: { id: submission.id },
+        data: {
+          status: SubmissionStatus.SUCCESS,
+          ...stored,
+          ...usageFields(addUsage(submission, usage)),
+        },
+        select: { id: true, sessionId: true, studentId: true, isShared: true },
+      }),
+      prisma.generationJob.update({
+        where: { id: job.id },
+        data: { status: GenerationJobStatus.COMPLETED, finishedAt: new Date(), lastError: null },
+      }),
+    ]);
+    publishSubmissionUpdate(updated);
+  } catch (generationError) {
+    console.error('Image generation job failed', generationError);
+    const message = generationError instanceof Error ? generationError.message : 'Image generation failed';
+
+    // Failed attempts the provider billed for still count, so retries add up on the submission.
+    const failedUsage = generationError instanceof ProviderRequestError ? generationError.usage : billed;
+    if (failedUsage) {
+      await prisma.promptSubmission.update({
+        where: { id: submission.id },
+        data: usageFields(addUsage(submission, failedUsage)),
+      });
+    }
+
+    // Rate limits, server errors and timeouts go back on the queue; the submission stays PENDING meanwhile.
+    if (generationError instanceof ProviderRequestError && generationError.transient && job.attempts < MAX_ATTEMPTS) {
+      await prisma.generationJob.update({
+        where: { id: job.id },
+        data: {
+          status: GenerationJobStatus.QUEUED,
+          runAfter: new Date(Date.now() + retryDelayMs(job.attempts, generationError.retryAfterMs)),
+          lastError: message,
+        },
+      });
+      return;
+    }
+
+    await failSubmission(submission.id, message);
+  }
+}
+
+async function tick() {
+  if (worker.ticking) {
+    return;
+  }
+  worker.ticking = true;
+  try {
+    await recoverInterruptedGenerations();
+    while (worker.active < getConcurrency()) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+      worker.active += 1;
+      void runJob(job)
+        .catch((error) => console.error('Generation worker error', error))
+        .finally(() => {
+          worker.active -= 1;
+          void tick();
+        });
+    }
+  } catch (error) {
+    console.error('Generation worker tick failed', error);
+  } finally {
+    worker.ticking = false;
+  }
+}
+
+/** Starts the polling worker once per process and checks the queue immediately. */
+export function startGenerationWorker() {
+  if (!worker.timer) {
+    worker.timer = setInterval(() => void tick(), POLL_INTERVAL_MS);
+  }
+  void tick();
+}
@@ -0,0 +1,39 @@
+import { mockImageProvider } from './mock';
+import { openAiCompatibleProvider } from './openAiCompatible';
+import { openRouterChatProvider } from './openRouterChat';
+import { openRouterImagesProvider } from './openRouterImages';
+import { getOpenRouterImageModel } from './shared';
+import type { ImageProvider } from './types';
+
+export type { GeneratedImage, ImageGenerationRequest, ImageProvider } from './types';
+export { getRequestTimeoutMs, ProviderRequestError } from './shared';
+
+const providers: Record<string, ImageProvider> = {
+  [openRouterChatProvider.name]: openRouterChatProvider,
+  [openRouterImagesProvider.name]: openRouterImagesProvider,
+  [openAiCompatibleProvider.name]: openAiCompatibleProvider,
+  [mockImageProvider.name]: mockImageProvider,
+};
+
+function isChatModel(model: string) {
+  const normalized = model.toLowerCase();
+  return normalized.includes('gemini') || normalized.includes('chat') || normalized.startsWith('google/');
+}
+
+/**
+ * Picks the provider named by IMAGE_PROVIDER. When unset, falls back to the previous
+ * behaviour of choosing between the two OpenRouter request shapes from the model name.
+ */
+export function getImageProvider(): ImageProvider {
+  const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+
+  if (configured) {
+    const provider = providers[configured];
+    if (!provider) {
+      throw new Error(`Unknown IMAGE_PROVIDER "${configured}". Use one of: ${Object.keys(providers).join(', ')}.`);
+    }
+    return provider;
+  }
+
+  return isChatModel(getOpenRouterImageModel()) ? openRouterChatProvider : openRouterImagesProvider;
+}
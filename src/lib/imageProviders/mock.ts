@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { Buffer } from 'node:buffer';
+import zlib from 'node:zlib';
+import { getAspectRatio } from '../generationOptions';
+import { crc32 } from '../zip';
+import type { ImageGenerationRequest, ImageProvider } from './types';
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/** Encodes an RGB pixel callback as a PNG without any image libraries. */
+export function encodePng(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]) {
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  let offset = 0;
+  for (let y = 0; y < height; y += 1) {
+    raw[offset] = 0;
+    offset += 1;
+    for (let x = 0; x < width; x += 1) {
+      const [r, g, b] = pixel(x, y);
+      raw[offset] = r;
+      raw[offset + 1] = g;
+      raw[offset + 2] = b;
+      offset += 3;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 2;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Offline provider for demos and automated tests. The same prompt (and source image)
+ * always yields the same gradient-and-stripes placeholder, so results are reproducible.
+ */
+export const mockImageProvider: ImageProvider = {
+  name: 'mock',
+
+  async generate({ prompt, baseImageDataUrl, aspectRatio, variantIndex }: ImageGenerationRequest) {
+    const hash = crypto.createHash('sha256').update(prompt).update(baseImageDataUrl ?? '');
+    if (variantIndex) {
+      hash.update(`variant-${variantIndex}`);
+    }
+    const seed = hash.digest();
+
+    // The longer side stays at WIDTH so placeholders remain small whatever the ratio.
+    const ratio = getAspectRatio(aspectRatio);
+    const width = ratio ? Math.round(WIDTH * Math.min(1, ratio.width / ratio.height)) : WIDTH;
+    const height = ratio ? Math.round(WIDTH * Math.min(1, ratio.height / ratio.width)) : HEIGHT;
+
+    const from = [seed[0], seed[1], seed[2]];
+    const to = [seed[3], seed[4], seed[5]];
+    const stripe = 12 + (seed[6] % 24);
+    const angle = seed[7] % 2 === 0;
+
+    const png = encodePng(width, height, (x, y) => {
+      const t = (x + y) / (width + height);
+      const band = Math.floor((angle ? x + y : x - y + height) / stripe) % 2 === 0 ? 1 : 0.85;
+      return [0, 1, 2].map((channel) =>
+        Math.round((from[channel] * (1 - t) + to[channel] * t) * band),
+      ) as [number, number, number];
+    });
+
+    return { imageData: png.toString('base64'), mimeType: 'image/png' };
+  },
+};
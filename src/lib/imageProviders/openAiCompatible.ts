@@ -0,0 +1,75 @@
+import { Buffer } from 'node:buffer';
+import { billedImage, extractImageFromDataPayload, fetchWithTimeout, readJson, responseError } from './shared';
+import { parseUsage } from '../usage';
+import { getAspectRatio } from '../generationOptions';
+import type { ImageGenerationRequest, ImageProvider } from './types';
+
+function getBaseUrl() {
+  const baseUrl = process.env.LOCAL_IMAGE_API_URL?.trim();
+  if (!baseUrl) {
+    throw new Error('Missing local image server URL. Set LOCAL_IMAGE_API_URL (for example http://localhost:7860/v1).');
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function authHeaders(): Record<string, string> {
+  const apiKey = process.env.LOCAL_IMAGE_API_KEY?.trim();
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function dataUrlToBlob(dataUrl: string) {
+  const [, mimeType, data] = dataUrl.match(/^data:([^;,]+)?;base64,(.+)$/) ?? [];
+  if (!data) {
+    throw new Error('Refinement source image must be a base64 data URL');
+  }
+  return new Blob([Buffer.from(data, 'base64')], { type: mimeType || 'image/png' });
+}
+
+/**
+ * Any server that speaks the OpenAI images API (`/images/generations`, `/images/edits`),
+ * such as an Automatic1111 or ComfyUI bridge running on the school network.
+ */
+export const openAiCompatibleProvider: ImageProvider = {
+  name: 'openai-compatible',
+
+  async generate({ prompt, baseImageDataUrl, aspectRatio }: ImageGenerationRequest) {
+    const baseUrl = getBaseUrl();
+    const model = process.env.LOCAL_IMAGE_MODEL?.trim() || undefined;
+    // Local models take any size, so the exact dimensions are sent rather than the OpenAI presets.
+    const ratio = getAspectRatio(aspectRatio);
+    const size = ratio ? `${ratio.width}x${ratio.height}` : undefined;
+
+    let endpoint: string;
+    let init: RequestInit;
+    if (baseImageDataUrl) {
+      const form = new FormData();
+      form.append('prompt', prompt);
+      form.append('response_format', 'b64_json');
+      form.append('image', dataUrlToBlob(baseImageDataUrl), 'source.png');
+      if (model) {
+        form.append('model', model);
+      }
+      if (size) {
+        form.append('size', size);
+      }
+      endpoint = `${baseUrl}/images/edits`;
+      init = { method: 'POST', headers: authHeaders(), body: form };
+    } else {
+      endpoint = `${baseUrl}/images/generations`;
+      init = {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, prompt, size, n: 1, response_format: 'b64_json' }),
+      };
+    }
+
+    const { response, body: result } = await fetchWithTimeout(endpoint, init, 'The local image server', readJson);
+
+    if (!response.ok) {
+      console.error('Local image server error', result);
+      throw responseError(response, result, `Local image server request failed (${response.status})`);
+    }
+
+    return billedImage(parseUsage(result?.usage), () => extractImageFromDataPayload(result, 'Local image server'));
+  },
+};
@@ -0,0 +1,60 @@
+import {
+  billedImage,
+  extractDataUrlFromMessage,
+  fetchImageAsBase64,
+  fetchWithTimeout,
+  getOpenRouterApiKey,
+  getOpenRouterImageModel,
+  openRouterHeaders,
+  readJson,
+  responseError,
+} from './shared';
+import { parseUsage } from '../usage';
+import type { ImageGenerationRequest, ImageProvider } from './types';
+
+const CHAT_ENDPOINT = 'https://openrouter.ai/api/v1/chat/completions';
+
+/** OpenRouter models that return images through chat completions with the image modality (e.g. Gemini). */
+export const openRouterChatProvider: ImageProvider = {
+  name: 'openrouter-chat',
+
+  async generate({ prompt, baseImageDataUrl, aspectRatio }: ImageGenerationRequest) {
+    const apiKey = getOpenRouterApiKey();
+    const model = getOpenRouterImageModel();
+
+    const messages = baseImageDataUrl
+      ? [{
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: baseImageDataUrl } },
+          ],
+        }]
+      : [{ role: 'user', content: prompt }];
+
+    const { response, body: result } = await fetchWithTimeout(CHAT_ENDPOINT, {
+      method: 'POST',
+      headers: openRouterHeaders(apiKey),
+      body: JSON.stringify({
+        model,
+        messages,
+        modalities: ['image', 'text'],
+        ...(aspectRatio ? { image_config: { aspect_ratio: aspectRatio } } : {}),
+        usage: { include: true },
+      }),
+    }, 'OpenRouter', readJson);
+
+    if (!response.ok) {
+      console.error('OpenRouter chat error', result);
+      throw responseError(response, result, 'OpenRouter chat request failed');
+    }
+
+    return billedImage(parseUsage(result?.usage), async () => {
+      const dataUrl = extractDataUrlFromMessage(result?.choices?.[0]?.message);
+      if (!dataUrl) {
+        throw new Error('OpenRouter did not return an image link');
+      }
+      return fetchImageAsBase64(dataUrl);
+    });
+  },
+};
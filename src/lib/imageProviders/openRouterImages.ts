@@ -0,0 +1,38 @@
+import {
+  billedImage,
+  extractImageFromDataPayload,
+  fetchWithTimeout,
+  getOpenRouterApiKey,
+  getOpenRouterImageModel,
+  openRouterHeaders,
+  readJson,
+  responseError,
+} from './shared';
+import { parseUsage } from '../usage';
+import { openAiImageSize } from '../generationOptions';
+import type { ImageGenerationRequest, ImageProvider } from './types';
+
+const IMAGE_ENDPOINT = 'https://openrouter.ai/api/v1/images';
+
+/** OpenRouter's dedicated images endpoint. It has no image input, so refinements are prompt-only. */
+export const openRouterImagesProvider: ImageProvider = {
+  name: 'openrouter-images',
+
+  async generate({ prompt, aspectRatio }: ImageGenerationRequest) {
+    const apiKey = getOpenRouterApiKey();
+    const model = getOpenRouterImageModel();
+
+    const { response, body: result } = await fetchWithTimeout(IMAGE_ENDPOINT, {
+      method: 'POST',
+      headers: openRouterHeaders(apiKey),
+      body: JSON.stringify({ model, prompt, ...(aspectRatio ? { size: openAiImageSize(aspectRatio) } : {}) }),
+    }, 'OpenRouter', readJson);
+
+    if (!response.ok) {
+      console.error('OpenRouter image error', result);
+      throw responseError(response, result, 'OpenRouter request failed');
+    }
+
+    return billedImage(parseUsage(result?.usage), () => extractImageFromDataPayload(result, 'OpenRouter'));
+  },
+};
@@ -0,0 +1,251 @@
+import { Buffer } from 'node:buffer';
+import { parseUsage } from '../usage';
+import type { ModelUsage } from '../usage';
+import type { GeneratedImage } from './types';
+
+type OpenRouterImage = string | { url?: string; data_url?: string };
+
+type OpenRouterContentItem =
+  | { type?: 'image_url'; image_url?: OpenRouterImage }
+  | { type?: 'output_image'; image_url?: string; data?: string }
+  | { type?: string; url?: string; data?: string };
+
+type OpenRouterMessage = {
+  images?: Array<{ image_url?: OpenRouterImage }>;
+  content?: OpenRouterContentItem[];
+};
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 120_000;
+
+/**
+ * A failed provider call. `transient` marks failures worth retrying later: rate limits, server
+ * errors and timeouts. `retryAfterMs` carries the provider's Retry-After hint when it sent one,
+ * and `usage` what the provider billed for the call anyway.
+ */
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly transient: boolean,
+    readonly retryAfterMs: number | null = null,
+    readonly usage: ModelUsage | null = null,
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+export function getRequestTimeoutMs() {
+  const value = Number(process.env.IMAGE_PROVIDER_TIMEOUT_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_REQUEST_TIMEOUT_MS;
+}
+
+function parseRetryAfter(header: string | null) {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function isTransientStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * `fetch` that gives up after IMAGE_PROVIDER_TIMEOUT_MS and reports timeouts and network errors as transient.
+ * The time limit covers reading the body with `readBody` too, since a stalled download hangs just as long.
+ */
+export async function fetchWithTimeout<T>(
+  url: string,
+  init: RequestInit,
+  providerLabel: string,
+  readBody: (response: Response) => Promise<T>,
+) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), getRequestTimeoutMs());
+  const timedOut = () => new ProviderRequestError(`${providerLabel} did not respond in time`, true);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const body = await readBody(response);
+    // Readers that swallow errors, such as `readJson`, return normally after an abort.
+    if (controller.signal.aborted) {
+      throw timedOut();
+    }
+    return { response, body };
+  } catch (error) {
+    if (error instanceof ProviderRequestError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw timedOut();
+    }
+    console.error(`${providerLabel} request failed`, error);
+    throw new ProviderRequestError(`Could not reach ${providerLabel}`, true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Body reader for `fetchWithTimeout` that resolves to null when the body is not JSON. */
+export function readJson(response: Response) {
+  return response.json().catch(() => null);
+}
+
+/** Builds the error for a non-OK response, using the provider's message when the body has one. */
+export function responseError(response: Response, result: unknown, fallbackMessage: string) {
+  const message = (result as { error?: { message?: unknown } } | null)?.error?.message;
+  return new ProviderRequestError(
+    typeof message === 'string' && message.length > 0 ? message : fallbackMessage,
+    isTransientStatus(response.status),
+    parseRetryAfter(response.headers.get('retry-after')),
+    parseUsage((result as { usage?: unknown } | null)?.usage),
+  );
+}
+
+/**
+ * Finishes a call the provider has already billed for. If reading the image fails, the error still
+ * carries the call's usage so its cost is recorded.
+ */
+export async function billedImage(
+  usage: ModelUsage,
+  readImage: () => Promise<{ imageData: string; mimeType: string }>,
+): Promise<GeneratedImage> {
+  try {
+    return { ...(await readImage()), usage };
+  } catch (error) {
+    const providerError = error instanceof ProviderRequestError ? error : null;
+    throw new ProviderRequestError(
+      error instanceof Error ? error.message : 'The provider response could not be read',
+      providerError?.transient ?? false,
+      providerError?.retryAfterMs ?? null,
+      usage,
+    );
+  }
+}
+
+export function getOpenRouterApiKey() {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in your environment.');
+  }
+  return apiKey;
+}
+
+export function getOpenRouterImageModel() {
+  return process.env.OPENROUTER_IMAGE_MODEL || process.env.OPENROUTER_MODEL || 'openai/gpt-image-1';
+}
+
+export function openRouterHeaders(apiKey: string) {
+  return {
+    Authorization: `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+    'HTTP-Referer': process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000',
+    'X-Title': 'Classroom Image Generator',
+  };
+}
+
+export function extractDataUrlFromMessage(message: unknown) {
+  const msg = (message ?? {}) as OpenRouterMessage;
+  const directImage = msg.images?.[0]?.image_url;
+
+  if (typeof directImage === 'string') {
+    return directImage;
+  }
+
+  if (directImage && typeof directImage === 'object') {
+    const nested = directImage.url ?? directImage.data_url;
+    if (typeof nested === 'string') {
+      return nested;
+    }
+  }
+
+  const content = Array.isArray(msg.content) ? msg.content : [];
+  for (const item of content) {
+    if (item?.type === 'image_url' && 'image_url' in item) {
+      const imageUrl = item.image_url;
+      if (typeof imageUrl === 'string') {
+        return imageUrl;
+      }
+      if (imageUrl && typeof imageUrl === 'object') {
+        const url = imageUrl.url ?? (imageUrl as { data_url?: string }).data_url;
+        if (typeof url === 'string') {
+          return url;
+        }
+      }
+    }
+
+    if (item?.type === 'output_image') {
+      if ('image_url' in item && typeof item.image_url === 'string') {
+        return item.image_url;
+      }
+      if ('data' in item && typeof item.data === 'string') {
+        return item.data.startsWith('data:') ? item.data : `data:image/png;base64,${item.data}`;
+      }
+    }
+
+    if ('url' in item && typeof item.url === 'string') {
+      return item.url;
+    }
+
+    if ('data' in item && typeof item.data === 'string') {
+      if (item.data.startsWith('data:')) {
+        return item.data;
+      }
+      if (/^[A-Za-z0-9+/=]+$/.test(item.data)) {
+        return `data:image/png;base64,${item.data}`;
+      }
+    }
+
+    if (item && typeof item === 'object' && 'image_url' in item) {
+      const urlValue = (item as { image_url?: string }).image_url;
+      if (typeof urlValue === 'string') {
+        return urlValue;
+      }
+    }
+  }
+  return null;
+}
+
+export async function fetchImageAsBase64(urlOrDataUrl: string) {
+  if (urlOrDataUrl.startsWith('data:')) {
+    const [, meta, data] = urlOrDataUrl.match(/^data:([^;,]+)?(?:;base64)?,(.+)$/) ?? [];
+    if (!data) {
+      throw new Error('Invalid data URL in provider response');
+    }
+    const mimeType = meta || 'image/png';
+    const imageData = urlOrDataUrl.includes(';base64,') ? data : Buffer.from(decodeURIComponent(data)).toString('base64');
+    return { imageData, mimeType };
+  }
+
+  const { response, body } = await fetchWithTimeout(urlOrDataUrl, {}, 'The image host', (res) => res.arrayBuffer());
+  if (!response.ok) {
+    throw new ProviderRequestError('Failed to download image from provider response', isTransientStatus(response.status));
+  }
+  const buffer = Buffer.from(body).toString('base64');
+  const mimeType = response.headers.get('content-type') ?? 'image/png';
+  return { imageData: buffer, mimeType };
+}
+
+/** Reads the `data[0]` entry used by OpenAI-style image endpoints. */
+export async function extractImageFromDataPayload(result: unknown, providerLabel: string) {
+  const imagePayload = (result as { data?: Array<Record<string, unknown>> } | null)?.data?.[0];
+  if (!imagePayload) {
+    throw new Error(`${providerLabel} did not return image data`);
+  }
+
+  const base64 = imagePayload.b64_json ?? imagePayload.b64 ?? imagePayload.image_base64;
+  const url = imagePayload.url;
+
+  if (typeof base64 === 'string') {
+    const mimeType = typeof imagePayload.mime_type === 'string' ? imagePayload.mime_type : 'image/png';
+    return { imageData: base64, mimeType };
+  }
+
+  if (typeof url === 'string') {
+    return fetchImageAsBase64(url);
+  }
+
+  throw new Error(`${providerLabel} response missing base64 or URL data`);
+}
@@ -0,0 +1,24 @@
+import type { AspectRatio } from '../generationOptions';
+import type { ModelUsage } from '../usage';
+
+export type ImageGenerationRequest = {
+  prompt: string;
+  /** Data URL of the image being refined, when this is a refinement. */
+  baseImageDataUrl?: string;
+  /** Unset for submissions made before aspect ratios existed; providers then use their default size. */
+  aspectRatio?: AspectRatio;
+  /** Position among variants requested together, so deterministic providers still return different images. */
+  variantIndex?: number;
+};
+
+export type GeneratedImage = {
+  imageData: string;
+  mimeType: string;
+  /** What the call cost, when the provider reports it. */
+  usage?: ModelUsage;
+};
+
+export interface ImageProvider {
+  readonly name: string;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage>;
+}
@@ -0,0 +1,20 @@
+import { localImageStore } from './local';
+import { s3ImageStore } from './s3';
+import type { ImageStore } from './types';
+
+export type { ImageStore, StoredImage } from './types';
+
+const stores: Record<string, ImageStore> = {
+  [localImageStore.name]: localImageStore,
+  [s3ImageStore.name]: s3ImageStore,
+};
+
+/** Picks the store named by IMAGE_STORAGE, defaulting to the local disk. */
+export function getImageStore(): ImageStore {
+  const configured = process.env.IMAGE_STORAGE?.trim().toLowerCase() || localImageStore.name;
+  const store = stores[configured];
+  if (!store) {
+    throw new Error(`Unknown IMAGE_STORAGE "${configured}". Use one of: ${Object.keys(stores).join(', ')}.`);
+  }
+  return store;
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { ImageStore } from './types';
+
+const contentTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+function getRootDir() {
+  return path.resolve(process.env.IMAGE_STORAGE_DIR?.trim() || 'storage/images');
+}
+
+function resolveKey(key: string) {
+  const root = getRootDir();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid image key "${key}"`);
+  }
+  return filePath;
+}
+
+/** Writes images below IMAGE_STORAGE_DIR (default `storage/images`) on the app server's disk. */
+export const localImageStore: ImageStore = {
+  name: 'local',
+
+  async put(key, data) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  },
+
+  async get(key) {
+    const filePath = resolveKey(key);
+    try {
+      const data = await fs.readFile(filePath);
+      return { data, contentType: contentTypes[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+};
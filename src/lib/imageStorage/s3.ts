@@ -0,0 +1,108 @@
+import crypto from 'node:crypto';
+import type { ImageStore } from './types';
+
+type S3Config = {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+function getConfig(): S3Config {
+  const endpoint = process.env.S3_ENDPOINT?.trim();
+  const bucket = process.env.S3_BUCKET?.trim();
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY?.trim();
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 image storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.');
+  }
+  return {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    bucket,
+    region: process.env.S3_REGION?.trim() || 'us-east-1',
+    accessKeyId,
+    secretAccessKey,
+  };
+}
+
+function sha256Hex(data: string | Buffer) {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/** Sends a path-style request signed with AWS Signature Version 4. */
+async function s3Request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+  const config = getConfig();
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  const url = new URL(`${config.endpoint}/${encodeURIComponent(config.bucket)}/${encodedKey}`);
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body ?? '');
+
+  const headers: Record<string, string> = {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (contentType) {
+    headers['content-type'] = contentType;
+  }
+
+  // fetch sends the Host header itself, but it still has to be part of the signature.
+  const signed: Record<string, string> = { host: url.host, ...headers };
+  const headerNames = Object.keys(signed).sort();
+  const signedHeaders = headerNames.join(';');
+  const canonicalHeaders = headerNames.map((name) => `${name}:${signed[name]}\n`).join('');
+  const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  });
+}
+
+/** Any S3-compatible bucket, e.g. AWS S3, or MinIO running locally as a stand-in. */
+export const s3ImageStore: ImageStore = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const response = await s3Request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  },
+
+  async get(key) {
+    const response = await s3Request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    };
+  },
+
+  async delete(key) {
+    const response = await s3Request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  },
+};
@@ -0,0 +1,12 @@
+export type StoredImage = {
+  data: Buffer;
+  contentType: string;
+};
+
+export interface ImageStore {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Resolves to null when nothing is stored under the key. */
+  get(key: string): Promise<StoredImage | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,141 @@
+import sharp from 'sharp';
+import { prisma } from './prisma';
+import { getImageStore } from './imageStorage';
+
+const THUMBNAIL_WIDTH = 512;
+const THUMBNAIL_MIME_TYPE = 'image/webp';
+const MIGRATION_BATCH_SIZE = 10;
+
+export type ImageVariant = 'original' | 'thumbnail';
+
+type StoredSubmissionImage = {
+  id: string;
+  imageKey: string | null;
+  thumbnailKey: string | null;
+  imageMimeType: string | null;
+  /** Legacy inline base64 from before images moved to the store. */
+  imageData?: string | null;
+};
+
+const extensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export function hasStoredImage(submission: { imageKey: string | null; imageData?: string | null }) {
+  return Boolean(submission.imageKey || submission.imageData);
+}
+
+/** URLs for the image-serving route; null until the submission has an image. */
+export function getSubmissionImageUrls(submission: StoredSubmissionImage) {
+  if (!hasStoredImage(submission)) {
+    return { imageUrl: null, thumbnailUrl: null };
+  }
+  return {
+    imageUrl: `/api/images/${submission.id}/file`,
+    thumbnailUrl: `/api/images/${submission.id}/file?size=thumbnail`,
+  };
+}
+
+/** Writes the original and a WebP thumbnail to the image store and returns the keys to save on the row. */
+export async function storeSubmissionImage(
+  submission: { id: string; sessionId: string },
+  imageData: string,
+  mimeType: string,
+) {
+  const store = getImageStore();
+  const original = Buffer.from(imageData, 'base64');
+  const thumbnail = await sharp(original)
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer();
+
+  const prefix = `${submission.sessionId}/${submission.id}`;
+  const imageKey = `${prefix}/original.${extensions[mimeType] ?? 'bin'}`;
+  const thumbnailKey = `${prefix}/thumbnail.webp`;
+
+  await store.put(imageKey, original, mimeType);
+  await store.put(thumbnailKey, thumbnail, THUMBNAIL_MIME_TYPE);
+
+  return { imageKey, thumbnailKey, imageMimeType: mimeType };
+}
+
+export async function loadSubmissionImage(submission: StoredSubmissionImage, variant: ImageVariant) {
+  // Rows without a thumbnail fall back to the original.
+  const useThumbnail = variant === 'thumbnail' && submission.thumbnailKey !== null;
+  const key = useThumbnail ? submission.thumbnailKey : submission.imageKey;
+  if (key) {
+    const stored = await getImageStore().get(key);
+    if (stored) {
+      const contentType = useThumbnail ? THUMBNAIL_MIME_TYPE : submission.imageMimeType ?? stored.contentType;
+      return { data: stored.data, contentType };
+    }
+  }
+
+  if (submission.imageData) {
+    return { data: Buffer.from(submission.imageData, 'base64'), contentType: submission.imageMimeType ?? 'image/png' };
+  }
+
+  return null;
+}
+
+/** Providers take refinement sources as data URLs. */
+export async function loadSubmissionImageDataUrl(submission: StoredSubmissionImage) {
+  const image = await loadSubmissionImage(submission, 'original');
+  return image ? `data:${image.contentType};base64,${image.data.toString('base64')}` : undefined;
+}
+
+/** The original converted to PNG, for exports that promise one predictable format. */
+export async function loadSubmissionImagePng(submission: StoredSubmissionImage) {
+  const image = await loadSubmissionImage(submission, 'original');
+  if (!image) {
+    return null;
+  }
+  return image.contentType === 'image/png' ? image.data : sharp(image.data).png().toBuffer();
+}
+
+export async function deleteSubmissionImages(submission: { imageKey: string | null; thumbnailKey: string | null }) {
+  const store = getImageStore();
+  for (const key of [submission.imageKey, submission.thumbnailKey]) {
+    if (key) {
+      await store.delete(key);
+    }
+  }
+}
+
+/**
+ * Moves base64 images left in the database by earlier versions into the image store, a batch at a time.
+ * A row that fails is logged and left inline, where it still displays, and is tried again on the next start.
+ */
+export async function migrateInlineImages() {
+  let moved = 0;
+  const skipped: string[] = [];
+  for (;;) {
+    const batch = await prisma.promptSubmission.findMany({
+      where: { imageData: { not: null }, imageKey: null, id: { notIn: skipped } },
+      select: { id: true, sessionId: true, imageData: true, imageMimeType: true },
+      take: MIGRATION_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      return { moved, skipped: skipped.length };
+    }
+
+    for (const submission of batch) {
+      if (!submission.imageData) continue;
+      try {
+        const keys = await storeSubmissionImage(submission, submission.imageData, submission.imageMimeType ?? 'image/png');
+        await prisma.promptSubmission.update({
+          where: { id: submission.id },
+          data: { ...keys, imageData: null },
+        });
+        moved += 1;
+      } catch (error) {
+        console.error(`Failed to move the image of submission ${submission.id} to storage`, error);
+        skipped.push(submission.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Events carry IDs only; dashboards refetch the records through the normal APIs so the usual
+ * visibility rules apply.
+ */
+export type LiveEvent =
+  | {
+      type: 'submission';
+      submissionId: string;
+      studentId: string | null;
+      /** Whether classmates' galleries could change, i.e. the image is or just was shared. */
+      visibleToClass: boolean;
+    }
+  | {
+      type: 'chat';
+      threadId: string;
+      studentId: string;
+    };
+
+const globalForLiveEvents = globalThis as unknown as {
+  liveEvents: EventEmitter | undefined;
+};
+
+// Kept on globalThis so route handlers and the generation worker share one emitter across hot reloads.
+const emitter = globalForLiveEvents.liveEvents ?? new EventEmitter();
+emitter.setMaxListeners(0);
+globalForLiveEvents.liveEvents = emitter;
+
+/** Publishes to dashboards connected to this process. Never throws, so callers can fire and forget. */
+export function publishLiveEvent(sessionId: string, event: LiveEvent) {
+  try {
+    emitter.emit(sessionId, event);
+  } catch (error) {
+    console.error('Failed to publish live event', error);
+  }
+}
+
+export function subscribeLiveEvents(sessionId: string, listener: (event: LiveEvent) => void) {
+  emitter.on(sessionId, listener);
+  return () => {
+    emitter.off(sessionId, listener);
+  };
+}
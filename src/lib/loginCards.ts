@@ -0,0 +1,98 @@
+import { toQrSvg } from './qrCode';
+import { escapeHtml } from './sessionExport';
+import { studentLabel } from './studentNames';
+
+export type LoginCard = {
+  username: string;
+  displayName: string | null;
+  password: string | null;
+  link: string;
+};
+
+/** The address a printed card points at; scanning it signs the student in once. */
+export function quickLoginLink(baseUrl: string, token: string) {
+  const url = new URL('/api/student/quick-login', baseUrl);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/** One cut-out card per student, two to a row, with the QR code inlined as SVG so the page prints offline. */
+export function toLoginCardsHtml(session: { joinCode: string }, cards: LoginCard[]) {
+  const items = cards.map(
+    (card) => `<article class="card">
+<div class="details">
+<h2>${escapeHtml(studentLabel(card.username, card.displayName))}</h2>
+<dl>
+<dt>Join code</dt><dd>${escapeHtml(session.joinCode)}</dd>
+<dt>Username</dt><dd>${escapeHtml(card.username)}</dd>
+<dt>Password</dt><dd>${card.password ? escapeHtml(card.password) : '<span class="blank">ask your teacher</span>'}</dd>
+</dl>
+<p>Scan the code to sign in straight away. It works once; after that, use your username and password.</p>
+</div>
+<div class="qr">${toQrSvg(card.link, { size: 132 })}</div>
+</article>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Login cards · ${escapeHtml(session.joinCode)}</title>
+<style>
+@page { margin: 10mm; }
+body { font-family: system-ui, sans-serif; color: #0f172a; margin: 1.5rem; }
+.toolbar { margin-bottom: 1rem; }
+.cards { display: grid; grid-template-columns: repeat(2, 1fr); gap: 6mm; }
+.card { display: flex; gap: 4mm; justify-content: space-between; border: 1px dashed #94a3b8; border-radius: 3mm; padding: 5mm; break-inside: avoid; min-height: 55mm; box-sizing: border-box; }
+h2 { font-size: 1.05rem; margin: 0 0 .5rem; }
+dl { display: grid; grid-template-columns: auto 1fr; gap: .2rem .75rem; margin: 0 0 .5rem; }
+dt { color: #64748b; font-size: .8rem; }
+dd { margin: 0; font-family: ui-monospace, monospace; font-size: 1rem; }
+.blank { font-family: system-ui, sans-serif; color: #94a3b8; font-size: .8rem; }
+p { margin: 0; font-size: .7rem; color: #64748b; }
+.qr svg { display: block; }
+@media print { body { margin: 0; } .toolbar { display: none; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print cards</button></div>
+<div class="cards">
+${items.join('\n')}
+</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * The page a scanned card opens. Signing in takes a press of the button, because link previews and
+ * scanners that fetch the address first would otherwise use up the single-use token.
+ */
+export function toQuickLoginConfirmHtml(student: { username: string; displayName: string | null }, token: string) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Sign in</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #0f172a; background: #f0f9ff; margin: 0; min-height: 100vh; display: grid; place-items: center; }
+form { background: #fff; border: 1px solid #bae6fd; border-radius: 1rem; padding: 2rem; max-width: 22rem; text-align: center; }
+h1 { font-size: 1.25rem; margin: 0 0 .5rem; }
+p { margin: 0 0 1.5rem; color: #475569; font-size: .9rem; }
+button { background: #0284c7; color: #fff; border: 0; border-radius: .5rem; padding: .75rem 1.5rem; font-size: 1rem; cursor: pointer; }
+button:hover { background: #0369a1; }
+</style>
+</head>
+<body>
+<form method="post" action="/api/student/quick-login">
+<input type="hidden" name="token" value="${escapeHtml(token)}">
+<h1>Sign in as ${escapeHtml(studentLabel(student.username, student.displayName))}?</h1>
+<p>This card works once. After that, sign in with your username and password.</p>
+<button type="submit">Sign in</button>
+</form>
+</body>
+</html>
+`;
+}
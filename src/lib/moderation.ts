@@ -0,0 +1,171 @@
+import { ModerationDecision, ModerationSource } from '@prisma/client';
+import { prisma } from './prisma';
+import { ModerationAction, moderationCategories } from './moderationCategories';
+
+const CLASSIFIER_TIMEOUT_MS = 5000;
+
+export type ModerationResult = {
+  decision: ModerationDecision;
+  category: string | null;
+  /** Explanation kept for the teacher. */
+  reason: string | null;
+  /** Student-facing explanation, set when the prompt is blocked. */
+  studentMessage: string | null;
+};
+
+const allowed: ModerationResult = { decision: ModerationDecision.ALLOWED, category: null, reason: null, studentMessage: null };
+
+const severity: Record<ModerationDecision, number> = {
+  [ModerationDecision.ALLOWED]: 0,
+  [ModerationDecision.FLAGGED]: 1,
+  [ModerationDecision.BLOCKED]: 2,
+};
+
+function actionToDecision(action: ModerationAction) {
+  if (action === 'block') return ModerationDecision.BLOCKED;
+  if (action === 'flag') return ModerationDecision.FLAGGED;
+  return ModerationDecision.ALLOWED;
+}
+
+/** Lowercases and turns punctuation into spaces so "b.a.d" and "bad!" match a "bad" entry. */
+function normalizeForBlocklist(text: string) {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+export function parseBlocklist(blocklist: string | null | undefined) {
+  return (blocklist ?? '')
+    .split(/[\n,]/)
+    .map((term) => normalizeForBlocklist(term).trim())
+    .filter((term) => term.length > 0);
+}
+
+export async function getModerationSettings(sessionId: string) {
+  const [session, rules] = await Promise.all([
+    prisma.session.findUnique({ where: { id: sessionId }, select: { moderationBlocklist: true } }),
+    prisma.moderationRule.findMany({ where: { sessionId }, select: { category: true, action: true } }),
+  ]);
+
+  const configured = new Map(rules.map((rule) => [rule.category, rule.action as ModerationAction]));
+  return {
+    blocklist: session?.moderationBlocklist ?? '',
+    rules: moderationCategories.map((category) => ({
+      category: category.id,
+      action: configured.get(category.id) ?? category.defaultAction,
+    })),
+  };
+}
+
+/**
+ * Optional hook for a classifier running on the school network. MODERATION_CLASSIFIER_URL receives
+ * `{ text, source }` and answers `{ decision: "allow" | "flag" | "block", category?, reason? }`.
+ * Failures are logged and ignored so an outage does not stop the class.
+ */
+async function runClassifier(text: string, source: ModerationSource): Promise<ModerationResult | null> {
+  const url = process.env.MODERATION_CLASSIFIER_URL?.trim();
+  if (!url) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, source }),
+      signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Classifier responded with status ${response.status}`);
+    }
+    const result = (await response.json()) as { decision?: string; category?: string; reason?: string };
+    const decision = result.decision === 'block' || result.decision === 'flag' ? result.decision : 'off';
+    if (decision === 'off') {
+      return allowed;
+    }
+    const category = moderationCategories.find((entry) => entry.id === result.category);
+    return {
+      decision: actionToDecision(decision),
+      category: result.category ?? null,
+      reason: result.reason ?? 'Flagged by the content classifier',
+      studentMessage:
+        decision === 'block'
+          ? category?.studentMessage ?? 'This prompt can\'t be sent in class. Try a different idea.'
+          : null,
+    };
+  } catch (error) {
+    console.error('Moderation classifier failed', error);
+    return null;
+  }
+}
+
+/** Checks text against the session blocklist, category rules and the optional classifier; the strictest result wins. */
+export async function moderateText(sessionId: string, text: string, source: ModerationSource): Promise<ModerationResult> {
+  const settings = await getModerationSettings(sessionId);
+  const results: ModerationResult[] = [];
+
+  const normalized = normalizeForBlocklist(text);
+  const blockedTerm = parseBlocklist(settings.blocklist).find((term) => normalized.includes(` ${term} `));
+  if (blockedTerm) {
+    results.push({
+      decision: ModerationDecision.BLOCKED,
+      category: 'blocklist',
+      reason: `Matched blocklist term "${blockedTerm}"`,
+      studentMessage: 'This prompt uses a word your teacher has blocked for this class. Try rewording it.',
+    });
+  }
+
+  const lowered = text.toLowerCase();
+  for (const rule of settings.rules) {
+    const category = moderationCategories.find((entry) => entry.id === rule.category);
+    if (!category || rule.action === 'off') continue;
+    const match = category.patterns.map((pattern) => lowered.match(pattern)).find(Boolean);
+    if (match) {
+      const decision = actionToDecision(rule.action);
+      results.push({
+        decision,
+        category: category.id,
+        reason: `${category.label}: "${match[0]}"`,
+        studentMessage: decision === ModerationDecision.BLOCKED ? category.studentMessage : null,
+      });
+    }
+  }
+
+  const classified = await runClassifier(text, source);
+  if (classified) {
+    results.push(classified);
+  }
+
+  return results.reduce((strictest, result) => (severity[result.decision] > severity[strictest.decision] ? result : strictest), allowed);
+}
+
+/** Records blocked and flagged prompts for the teacher's moderation log. */
+export async function logModeration(entry: {
+  sessionId: string;
+  studentId: string | null;
+  source: ModerationSource;
+  content: string;
+  result: ModerationResult;
+}) {
+  if (entry.result.decision === ModerationDecision.ALLOWED) {
+    return;
+  }
+  await prisma.moderationLog.create({
+    data: {
+      sessionId: entry.sessionId,
+      studentId: entry.studentId,
+      source: entry.source,
+      decision: entry.result.decision,
+      category: entry.result.category,
+      reason: entry.result.reason ?? 'Flagged by moderation',
+      content: entry.content,
+    },
+  });
+}
+
+/** Columns stored on the PromptSubmission or ChatMessage that passed moderation. */
+export function moderationFields(result: ModerationResult) {
+  return {
+    moderationDecision: result.decision,
+    moderationCategory: result.category,
+    moderationReason: result.reason,
+  };
+}
@@ -0,0 +1,84 @@
+export type ModerationAction = 'block' | 'flag' | 'off';
+
+export type ModerationCategory = {
+  id: string;
+  label: string;
+  description: string;
+  defaultAction: ModerationAction;
+  /** Matched against the lowercased prompt. */
+  patterns: RegExp[];
+  /** Shown to the student when a prompt is blocked. */
+  studentMessage: string;
+};
+
+export const BLOCKLIST_MAX_LENGTH = 4000;
+
+export const moderationActions: Array<{ value: ModerationAction; label: string }> = [
+  { value: 'block', label: 'Block' },
+  { value: 'flag', label: 'Allow and flag' },
+  { value: 'off', label: 'Off' },
+];
+
+export const moderationCategories: ModerationCategory[] = [
+  {
+    id: 'violence',
+    label: 'Graphic violence',
+    description: 'Killing, gore, torture and similar imagery.',
+    defaultAction: 'block',
+    patterns: [/\b(kill(s|ed|ing)?|murder\w*|gore|gory|bloody|behead\w*|tortur\w*|massacre\w*|stab(s|bed|bing)?|decapitat\w*)\b/],
+    studentMessage: 'This prompt describes graphic violence, which isn\'t allowed in class. Try a different idea.',
+  },
+  {
+    id: 'weapons',
+    label: 'Weapons',
+    description: 'Guns, bombs and other weapons. Flag instead of block for history lessons.',
+    defaultAction: 'flag',
+    patterns: [/\b(guns?|rifles?|pistols?|shotguns?|bombs?|explosives?|grenades?|ammo|ammunition)\b/],
+    studentMessage: 'This prompt mentions weapons, which your teacher has turned off for this class.',
+  },
+  {
+    id: 'self-harm',
+    label: 'Self-harm',
+    description: 'Suicide and self-injury. Blocked prompts are always logged for the teacher.',
+    defaultAction: 'block',
+    patterns: [/\b(suicid\w*|self[- ]?harm\w*|kill myself|hurt myself|cut myself|want to die|end my life)\b/],
+    studentMessage:
+      'This prompt can\'t be sent. If you are going through something hard, please talk to your teacher or another adult you trust.',
+  },
+  {
+    id: 'sexual',
+    label: 'Sexual content',
+    description: 'Nudity and sexual content.',
+    defaultAction: 'block',
+    patterns: [/\b(sex|sexy|sexual\w*|nude\w*|naked|porn\w*|nsfw|lingerie|erotic\w*)\b/],
+    studentMessage: 'This prompt includes content that isn\'t appropriate for school. Try a different idea.',
+  },
+  {
+    id: 'drugs',
+    label: 'Drugs and alcohol',
+    description: 'Illegal drugs, vaping and alcohol.',
+    defaultAction: 'flag',
+    patterns: [/\b(drugs?|cocaine|heroin|meth|weed|marijuana|vap(e|es|ing)|alcohol|beer|vodka|whiskey|drunk)\b/],
+    studentMessage: 'This prompt mentions drugs or alcohol, which your teacher has turned off for this class.',
+  },
+  {
+    id: 'hate',
+    label: 'Hate and harassment',
+    description: 'Hate symbols and insults aimed at people or groups.',
+    defaultAction: 'block',
+    patterns: [/\b(nazis?|swastikas?|kkk|white power|racist|you are (stupid|ugly|worthless)|kill yourself)\b/],
+    studentMessage: 'This prompt could be hurtful to others, so it can\'t be sent. Try a different idea.',
+  },
+  {
+    id: 'personal-info',
+    label: 'Personal information',
+    description: 'Email addresses, phone numbers and home addresses.',
+    defaultAction: 'block',
+    patterns: [
+      /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/,
+      /\b\d{3}[-. )]*\d{3}[-. ]?\d{4}\b/,
+      /\b(my address is|i live at|my phone number)\b/,
+    ],
+    studentMessage: 'Please don\'t share personal information like emails, phone numbers or addresses.',
+  },
+];
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQr, QrErrorCorrection, toQrSvg } from './qrCode';
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+function bch(data: number) {
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+/** Both copies of the 15 format bits, read from the positions the standard puts them. */
+function readFormatBits(modules: boolean[][]) {
+  const size = modules.length;
+  const bit = (dark: boolean, i: number) => (dark ? 1 << i : 0);
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i <= 5; i += 1) first |= bit(modules[i][8], i);
+  first |= bit(modules[7][8], 6) | bit(modules[8][8], 7) | bit(modules[8][7], 8);
+  for (let i = 9; i < 15; i += 1) first |= bit(modules[8][14 - i], i);
+  for (let i = 0; i < 8; i += 1) second |= bit(modules[8][size - 1 - i], i);
+  for (let i = 8; i < 15; i += 1) second |= bit(modules[size - 15 + i][8], i);
+  return { first, second };
+}
+
+function hasFinderAt(modules: boolean[][], top: number, left: number) {
+  for (let y = 0; y < 7; y += 1) {
+    for (let x = 0; x < 7; x += 1) {
+      const ring = Math.max(Math.abs(y - 3), Math.abs(x - 3));
+      if (modules[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe('encodeQr', () => {
+  it('uses the smallest version the text fits in', () => {
+    expect(encodeQr('HELLO').length).toBe(21);
+    // Version 5 at level M holds 84 bytes; one more needs version 6.
+    expect(encodeQr('a'.repeat(84)).length).toBe(37);
+    expect(encodeQr('a'.repeat(85)).length).toBe(41);
+    expect(encodeQr('a'.repeat(85), 'L').length).toBe(37);
+  });
+
+  it('fits a login card link in a symbol small enough to print on a card', () => {
+    const link = `https://classroom.example.org/api/student/quick-login?token=ql_${'0f'.repeat(24)}`;
+    expect(encodeQr(link).length).toBe(45);
+  });
+
+  it('draws the finder, timing and dark modules', () => {
+    const modules = encodeQr('https://example.org');
+    const size = modules.length;
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    for (let i = 8; i < size - 8; i += 1) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it.each(['L', 'M', 'Q', 'H'] as const)('writes valid format bits for level %s', (level) => {
+    const { first, second } = readFormatBits(encodeQr('https://example.org/login', level));
+    expect(second).toBe(first);
+    const data = (first ^ 0x5412) >>> 10;
+    expect(data >>> 3).toBe(FORMAT_BITS[level]);
+    expect(bch(data)).toBe(first);
+  });
+
+  it('refuses text longer than the largest version holds', () => {
+    expect(() => encodeQr('a'.repeat(3000), 'H')).toThrow('Text is too long for a QR code.');
+  });
+});
+
+describe('toQrSvg', () => {
+  it('adds a four-module quiet zone and the requested size', () => {
+    const svg = toQrSvg('HELLO', { size: 120 });
+    expect(svg).toContain('width="120" height="120"');
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg.startsWith('<svg')).toBe(true);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * A small QR Code encoder (ISO/IEC 18004) for the printed login cards. It only needs byte mode,
+ * which covers any URL, and picks the smallest version that fits at the requested error correction.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+const ECC_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [error correction][version]; version 0 does not exist.
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+function getBit(value: number, index: number) {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function rawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function dataCodewords(version: number, ecc: number) {
+  return (
+    Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecc][version] * ERROR_CORRECTION_BLOCKS[ecc][version]
+  );
+}
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** Splits the data into blocks, appends each block's error correction and interleaves them. */
+function addErrorCorrection(data: number[], version: number, ecc: number) {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecc][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i += 1) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const errorCorrection = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push(block.concat(errorCorrection));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder byte that is not transmitted.
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number) {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns(ecc: QrErrorCorrection) {
+    const { size } = this;
+    for (let i = 0; i < size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy += 1) {
+        for (let dx = -4; dx <= 4; dx += 1) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        // Alignment patterns never overlap the finder patterns in three corners.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserved now and written for real once the mask is chosen.
+    this.drawFormatBits(ecc, 0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i += 1) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i += 1) {
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, getBit(bits, i));
+        this.setFunction(b, a, getBit(bits, i));
+      }
+    }
+  }
+
+  drawFormatBits(ecc: QrErrorCorrection, mask: number) {
+    const { size } = this;
+    const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  /** Places the codewords in the zigzag order, two columns at a time from the bottom right. */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < size; vertical += 1) {
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && bit < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+            bit += 1;
+          }
+        }
+      }
+    }
+  }
+
+  /** XORs the mask over the data area; applying the same mask twice undoes it. */
+  applyMask(mask: number) {
+    const test = MASKS[mask];
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && test(x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /** The standard's four penalty rules; the mask with the lowest score is the easiest to scan. */
+  penalty() {
+    const { size, modules } = this;
+    let score = 0;
+
+    const lines: boolean[][] = [];
+    for (let i = 0; i < size; i += 1) {
+      lines.push(modules[i]);
+      lines.push(modules.map((row) => row[i]));
+    }
+
+    const finderLike = [true, false, true, true, true, false, true];
+    for (const line of lines) {
+      let runLength = 1;
+      for (let i = 1; i <= size; i += 1) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength += 1;
+        } else {
+          if (runLength >= 5) score += runLength - 2;
+          runLength = 1;
+        }
+      }
+
+      for (let i = 0; i + 7 <= size; i += 1) {
+        if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+        const lightBefore = [1, 2, 3, 4].every((k) => i - k < 0 || !line[i - k]);
+        const lightAfter = [0, 1, 2, 3].every((k) => i + 7 + k >= size || !line[i + 7 + k]);
+        if (lightBefore || lightAfter) score += 40;
+      }
+    }
+
+    for (let y = 0; y + 1 < size; y += 1) {
+      for (let x = 0; x + 1 < size; x += 1) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+
+    return score;
+  }
+}
+
+/** The module grid for `text`, `true` meaning dark, without the quiet zone. */
+export function encodeQr(text: string, errorCorrection: QrErrorCorrection = 'M') {
+  const bytes = Buffer.from(text, 'utf8');
+  const ecc = ECC_INDEX[errorCorrection];
+
+  let version = 1;
+  for (; version <= 40; version += 1) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= dataCodewords(version, ecc) * 8) {
+      break;
+    }
+  }
+  if (version > 40) {
+    throw new Error('Text is too long for a QR code.');
+  }
+
+  const capacity = dataCodewords(version, ecc);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version <= 9 ? 8 : 16);
+  for (const byte of bytes) push(byte, 8);
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawFunctionPatterns(errorCorrection);
+  matrix.drawCodewords(addErrorCorrection(codewords, version, ecc));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(errorCorrection, mask);
+    const score = matrix.penalty();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(errorCorrection, bestMask);
+
+  return matrix.modules;
+}
+
+/** A standalone SVG with the four-module quiet zone scanners expect. */
+export function toQrSvg(text: string, options: { size?: number; errorCorrection?: QrErrorCorrection } = {}) {
+  const modules = encodeQr(text, options.errorCorrection);
+  const quietZone = 4;
+  const dimension = modules.length + quietZone * 2;
+  const path: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + quietZone} ${y + quietZone}h1v1h-1z`);
+    });
+  });
+  const size = options.size ?? 160;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path fill="#000" d="${path.join('')}"/></svg>`;
+}
@@ -0,0 +1,174 @@
+import { SubmissionStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { toAllowance } from './allowance';
+import { isBudgetReached } from './usage';
+
+export type QuotaLimits = {
+  /** Total images a student may create, refinements included. `null` means unlimited. */
+  imageLimit: number | null;
+  /** Refinements allowed on top of each original image. */
+  refinementLimit: number;
+  threadLimit: number;
+  /** Chat messages a student may send across all threads. `null` means unlimited. */
+  messageLimit: number | null;
+};
+
+/** Per-student values; `null` falls back to the session setting. */
+export type QuotaOverrides = { [Key in keyof QuotaLimits]: number | null };
+
+export const QUOTA_MAX_VALUE = 1000;
+
+export const quotaSelect = {
+  imageLimit: true,
+  refinementLimit: true,
+  threadLimit: true,
+  messageLimit: true,
+} as const;
+
+// Failed generations don't use up the allowance, so students can retry them.
+const countedStatuses = [SubmissionStatus.PENDING, SubmissionStatus.SUCCESS];
+
+export function resolveQuotaLimits(session: QuotaLimits, overrides?: QuotaOverrides | null): QuotaLimits {
+  return {
+    imageLimit: overrides?.imageLimit ?? session.imageLimit,
+    refinementLimit: overrides?.refinementLimit ?? session.refinementLimit,
+    threadLimit: overrides?.threadLimit ?? session.threadLimit,
+    messageLimit: overrides?.messageLimit ?? session.messageLimit,
+  };
+}
+
+/** The chain holds the original plus its refinements, so it may reach `refinementLimit + 1` images. */
+export function remainingRefinements(refinementLimit: number, chainCount: number) {
+  return Math.max(0, refinementLimit + 1 - chainCount);
+}
+
+export async function getStudentQuotaLimits(sessionId: string, studentId: string) {
+  const [session, student] = await Promise.all([
+    prisma.session.findUnique({ where: { id: sessionId }, select: quotaSelect }),
+    prisma.student.findFirst({ where: { id: studentId, sessionId }, select: quotaSelect }),
+  ]);
+
+  if (!session) {
+    return null;
+  }
+
+  return resolveQuotaLimits(session, student);
+}
+
+export function countChainImages(rootId: string) {
+  return prisma.promptSubmission.count({
+    where: {
+      OR: [{ id: rootId }, { rootSubmissionId: rootId }],
+      status: { in: countedStatuses },
+    },
+  });
+}
+
+/** Image counts for several chains at once, keyed by root submission ID. */
+export async function countChainImagesByRoot(rootIds: string[]) {
+  const [roots, refinements] = await Promise.all([
+    prisma.promptSubmission.findMany({
+      where: { id: { in: rootIds }, status: { in: countedStatuses } },
+      select: { id: true },
+    }),
+    prisma.promptSubmission.groupBy({
+      by: ['rootSubmissionId'],
+      where: { rootSubmissionId: { in: rootIds }, status: { in: countedStatuses } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const root of roots) {
+    counts.set(root.id, 1);
+  }
+  for (const row of refinements) {
+    if (row.rootSubmissionId) {
+      counts.set(row.rootSubmissionId, (counts.get(row.rootSubmissionId) ?? 0) + row._count._all);
+    }
+  }
+  return counts;
+}
+
+export async function getStudentUsage(sessionId: string, studentId: string) {
+  const [images, threads, messages] = await Promise.all([
+    prisma.promptSubmission.count({
+      where: { sessionId, studentId, status: { in: countedStatuses } },
+    }),
+    prisma.chatThread.count({ where: { sessionId, studentId } }),
+    prisma.chatMessage.count({
+      where: { studentId, sender: 'STUDENT', thread: { sessionId } },
+    }),
+  ]);
+
+  return { images, threads, messages };
+}
+
+export async function getStudentAllowance(sessionId: string, studentId: string) {
+  const [limits, usage, student, budgetReached] = await Promise.all([
+    getStudentQuotaLimits(sessionId, studentId),
+    getStudentUsage(sessionId, studentId),
+    prisma.student.findFirst({ where: { id: studentId, sessionId }, select: { lockedAt: true } }),
+    isBudgetReached(sessionId),
+  ]);
+
+  if (!limits || !student) {
+    return null;
+  }
+
+  return {
+    images: toAllowance(limits.imageLimit, usage.images),
+    threads: toAllowance(limits.threadLimit, usage.threads),
+    messages: toAllowance(limits.messageLimit, usage.messages),
+    refinementLimit: limits.refinementLimit,
+    /** Set by the teacher; a locked student can still browse but cannot generate or chat. */
+    locked: student.lockedAt !== null,
+    /** The session's AI budget is spent, which pauses generation and chat for the whole class. */
+    budgetReached,
+  };
+}
+
+export const LOCKED_MESSAGE = 'Your teacher has paused your account. Ask them to unlock it.';
+
+/** Usage for every student in the session, keyed by student ID, for the teacher's quota table. */
+export async function getSessionUsage(sessionId: string) {
+  const [images, threads, messages] = await Promise.all([
+    prisma.promptSubmission.groupBy({
+      by: ['studentId'],
+      where: { sessionId, status: { in: countedStatuses } },
+      _count: { _all: true },
+    }),
+    prisma.chatThread.groupBy({
+      by: ['studentId'],
+      where: { sessionId },
+      _count: { _all: true },
+    }),
+    prisma.chatMessage.groupBy({
+      by: ['studentId'],
+      where: { sender: 'STUDENT', thread: { sessionId } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const usage = new Map<string, { images: number; threads: number; messages: number }>();
+  const entryFor = (studentId: string) => {
+    let entry = usage.get(studentId);
+    if (!entry) {
+      entry = { images: 0, threads: 0, messages: 0 };
+      usage.set(studentId, entry);
+    }
+    return entry;
+  };
+
+  for (const row of images) {
+    if (row.studentId) entryFor(row.studentId).images = row._count._all;
+  }
+  for (const row of threads) {
+    entryFor(row.studentId).threads = row._count._all;
+  }
+  for (const row of messages) {
+    if (row.studentId) entryFor(row.studentId).messages = row._count._all;
+  }
+
+  return usage;
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  addressLimit,
+  clientAddress,
+  getRetryAfter,
+  recordFailedLogin,
+  sessionPasswordLimit,
+  studentLoginLimit,
+  UNKNOWN_ADDRESS,
+} from '.';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+
+function request(headers: Record<string, string>) {
+  return new Request('http://localhost/api/student/login', { method: 'POST', headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('clientAddress', () => {
+  it('ignores forwarded headers unless a trusted proxy is configured', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '');
+    expect(clientAddress(request({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' }))).toBe(UNKNOWN_ADDRESS);
+  });
+
+  it('takes the hop the outermost trusted proxy recorded', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+    expect(clientAddress(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }))).toBe('203.0.113.7');
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+    expect(clientAddress(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(clientAddress(request({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+  });
+});
+
+describe('limits by default', () => {
+  it('has no address or session password limit while addresses are unknown', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '');
+    const ipAddress = clientAddress(request({ 'x-forwarded-for': '203.0.113.7' }));
+    expect(addressLimit(ipAddress, 'student-login')).toBeNull();
+    expect(sessionPasswordLimit('session-1', ipAddress)).toBeNull();
+    expect(addressLimit('203.0.113.7', 'student-login')).not.toBeNull();
+  });
+
+  it('keeps other students signing in when one client fails again and again', async () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '');
+    const ipAddress = clientAddress(request({}));
+    const address = addressLimit(ipAddress, 'student-login');
+    const guessed = studentLoginLimit('session-1', 'ada');
+
+    for (let attempt = 0; attempt < 40; attempt += 1) {
+      await recordFailedLogin([address, guessed], { ipAddress, reason: 'wrong-password' });
+    }
+
+    expect(await getRetryAfter([guessed])).toBeGreaterThan(0);
+    expect(await getRetryAfter([address, studentLoginLimit('session-1', 'grace')])).toBeNull();
+    expect(await getRetryAfter([sessionPasswordLimit('session-1', ipAddress)])).toBeNull();
+  });
+});
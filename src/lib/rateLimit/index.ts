@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '../prisma';
+import { memoryRateLimitStore } from './memory';
+import { prismaRateLimitStore } from './prisma';
+import type { RateLimitStore } from './types';
+
+export type { AttemptRecord, RateLimitStore } from './types';
+
+const stores: Record<string, RateLimitStore> = {
+  [memoryRateLimitStore.name]: memoryRateLimitStore,
+  [prismaRateLimitStore.name]: prismaRateLimitStore,
+};
+
+/** Picks the store named by RATE_LIMIT_STORE, defaulting to this process's memory. */
+export function getRateLimitStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase() || memoryRateLimitStore.name;
+  const store = stores[configured];
+  if (!store) {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${configured}". Use one of: ${Object.keys(stores).join(', ')}.`);
+  }
+  return store;
+}
+
+const WINDOW_MS = 15 * 60 * 1000;
+const FIRST_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+/** A counter that locks once `maxFailures` failures fall within one window. */
+export type RateLimit = { key: string; maxFailures: number };
+
+/** Stands for every client when no trusted proxy reports addresses. */
+export const UNKNOWN_ADDRESS = 'unknown';
+
+/**
+ * A whole class usually signs in from one school address, so the per-address limit leaves room for typos.
+ * Null when the address is unknown: one bucket for every client would let anyone lock the whole server out.
+ */
+export function addressLimit(ipAddress: string, scope: string): RateLimit | null {
+  return ipAddress === UNKNOWN_ADDRESS ? null : { key: `ip:${scope}:${ipAddress}`, maxFailures: 30 };
+}
+
+/** One username in one session, whether or not such a student exists. */
+export function studentLoginLimit(sessionId: string, username: string): RateLimit {
+  return { key: `student:${sessionId}:${username.toLowerCase()}`, maxFailures: 5 };
+}
+
+/**
+ * A session's password tried from one address, so a guesser cannot lock the whole class out. Null when
+ * the address is unknown, for the same reason.
+ */
+export function sessionPasswordLimit(sessionId: string, ipAddress: string): RateLimit | null {
+  return ipAddress === UNKNOWN_ADDRESS ? null : { key: `session:${sessionId}:${ipAddress}`, maxFailures: 5 };
+}
+
+/** How many proxies in front of the app append to `X-Forwarded-For`, from TRUSTED_PROXY_COUNT. */
+function trustedProxyCount() {
+  const configured = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : 0;
+}
+
+/**
+ * The address the request came from. Route handlers do not see the connection itself, so without a
+ * trusted proxy every request counts as UNKNOWN_ADDRESS. Behind one, the client is the hop the outermost
+ * trusted proxy recorded; anything to its left was sent by the client and could be made up.
+ */
+export function clientAddress(request: Request) {
+  const proxies = trustedProxyCount();
+  if (proxies === 0) {
+    return UNKNOWN_ADDRESS;
+  }
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    return hops[Math.max(hops.length - proxies, 0)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || UNKNOWN_ADDRESS;
+}
+
+/** Seconds until every one of the limits is unlocked, or null when none is locked. Null limits are skipped. */
+export async function getRetryAfter(limits: Array<RateLimit | null>) {
+  const store = getRateLimitStore();
+  const now = Date.now();
+  let latest = 0;
+  for (const limit of limits) {
+    if (!limit) continue;
+    const record = await store.get(limit.key);
+    if (record?.lockedUntil && record.lockedUntil.getTime() > now) {
+      latest = Math.max(latest, record.lockedUntil.getTime());
+    }
+  }
+  return latest > 0 ? Math.ceil((latest - now) / 1000) : null;
+}
+
+export type FailedLoginReason = 'wrong-password' | 'unknown-username' | 'unknown-session' | 'locked';
+
+/**
+ * Counts a failed attempt against every limit and locks the ones that reach their maximum. Each
+ * lockout doubles the one before, from a minute up to an hour. Attempts on a known session are
+ * also logged for its teacher. Resolves to the seconds until the caller may try again when this
+ * attempt caused a lockout.
+ */
+export async function recordFailedLogin(
+  limits: Array<RateLimit | null>,
+  attempt: { ipAddress: string; sessionId?: string | null; username?: string | null; reason: FailedLoginReason },
+) {
+  if (attempt.sessionId) {
+    await prisma.failedLogin.create({
+      data: {
+        sessionId: attempt.sessionId,
+        username: attempt.username ?? null,
+        ipAddress: attempt.ipAddress,
+        reason: attempt.reason,
+      },
+    });
+  }
+
+  // Attempts made while locked are logged, but do not extend the lockout.
+  if (attempt.reason === 'locked') {
+    return null;
+  }
+
+  const store = getRateLimitStore();
+  let retryAfter: number | null = null;
+  for (const limit of limits) {
+    if (!limit) continue;
+    const record = await store.recordFailure(limit.key, WINDOW_MS);
+    if (record.failures >= limit.maxFailures) {
+      const duration = Math.min(FIRST_LOCKOUT_MS * 2 ** record.lockouts, MAX_LOCKOUT_MS);
+      await store.lock(limit.key, new Date(Date.now() + duration));
+      retryAfter = Math.max(retryAfter ?? 0, Math.ceil(duration / 1000));
+    }
+  }
+  return retryAfter;
+}
+
+/** Forgets the failures and lockouts of a limit, after a successful sign-in or when a teacher unlocks it. */
+export async function clearRateLimit(limit: RateLimit | null) {
+  if (limit) {
+    await getRateLimitStore().reset(limit.key);
+  }
+}
+
+export function tooManyAttempts(retryAfterSeconds: number) {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return NextResponse.json(
+    {
+      message: `Too many sign-in attempts. Try again in ${minutes === 1 ? 'a minute' : `${minutes} minutes`}.`,
+      retryAfter: retryAfterSeconds,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } },
+  );
+}
@@ -0,0 +1,62 @@
+import type { AttemptRecord, RateLimitStore } from './types';
+import { FORGET_AFTER_MS } from './types';
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitRecords: Map<string, AttemptRecord> | undefined;
+};
+
+// Kept on globalThis so every route handler in the process shares one table across hot reloads.
+const records = globalForRateLimit.rateLimitRecords ?? new Map<string, AttemptRecord>();
+globalForRateLimit.rateLimitRecords = records;
+
+function prune(now: number) {
+  for (const [key, record] of records) {
+    if (now - record.updatedAt.getTime() > FORGET_AFTER_MS) {
+      records.delete(key);
+    }
+  }
+}
+
+/** Counts attempts in this process only. Fine for a single server; use `prisma` when there are several. */
+export const memoryRateLimitStore: RateLimitStore = {
+  name: 'memory',
+
+  async get(key) {
+    const record = records.get(key);
+    return record && Date.now() - record.updatedAt.getTime() <= FORGET_AFTER_MS ? { ...record } : null;
+  },
+
+  async recordFailure(key, windowMs) {
+    const now = new Date();
+    if (records.size > 10_000) {
+      prune(now.getTime());
+    }
+    const current = await this.get(key);
+    const windowExpired = !current || now.getTime() - current.windowStartedAt.getTime() > windowMs;
+    const record: AttemptRecord = {
+      failures: windowExpired ? 1 : current.failures + 1,
+      windowStartedAt: windowExpired ? now : current.windowStartedAt,
+      lockedUntil: current?.lockedUntil ?? null,
+      lockouts: current?.lockouts ?? 0,
+      updatedAt: now,
+    };
+    records.set(key, record);
+    return { ...record };
+  },
+
+  async lock(key, until) {
+    const now = new Date();
+    const current = records.get(key);
+    records.set(key, {
+      failures: 0,
+      windowStartedAt: now,
+      lockedUntil: until,
+      lockouts: (current?.lockouts ?? 0) + 1,
+      updatedAt: now,
+    });
+  },
+
+  async reset(key) {
+    records.delete(key);
+  },
+};
@@ -0,0 +1,62 @@
+import { prisma } from '../prisma';
+import type { AttemptRecord, RateLimitStore } from './types';
+import { FORGET_AFTER_MS } from './types';
+
+function toRecord(entry: { failures: number; windowStartedAt: Date; lockedUntil: Date | null; lockouts: number; updatedAt: Date }) {
+  const record: AttemptRecord = {
+    failures: entry.failures,
+    windowStartedAt: entry.windowStartedAt,
+    lockedUntil: entry.lockedUntil,
+    lockouts: entry.lockouts,
+    updatedAt: entry.updatedAt,
+  };
+  return record;
+}
+
+/** Keeps counts in the database so every server process sees the same failures and lockouts. */
+export const prismaRateLimitStore: RateLimitStore = {
+  name: 'prisma',
+
+  async get(key) {
+    const entry = await prisma.rateLimitEntry.findUnique({ where: { key } });
+    return entry && Date.now() - entry.updatedAt.getTime() <= FORGET_AFTER_MS ? toRecord(entry) : null;
+  },
+
+  async recordFailure(key, windowMs) {
+    const now = new Date();
+    // SQLite runs one write transaction at a time, so concurrent failures cannot overwrite each other's count.
+    const entry = await prisma.$transaction(async (tx) => {
+      const current = await tx.rateLimitEntry.findUnique({ where: { key } });
+      const forgotten = !current || now.getTime() - current.updatedAt.getTime() > FORGET_AFTER_MS;
+      const windowExpired = forgotten || now.getTime() - current.windowStartedAt.getTime() > windowMs;
+      return tx.rateLimitEntry.upsert({
+        where: { key },
+        create: { key, failures: 1, windowStartedAt: now },
+        update: {
+          failures: windowExpired ? 1 : { increment: 1 },
+          windowStartedAt: windowExpired ? now : undefined,
+          lockedUntil: forgotten ? null : undefined,
+          lockouts: forgotten ? 0 : undefined,
+        },
+      });
+    });
+
+    if (Math.random() < 0.01) {
+      await prisma.rateLimitEntry.deleteMany({ where: { updatedAt: { lt: new Date(now.getTime() - FORGET_AFTER_MS) } } });
+    }
+
+    return toRecord(entry);
+  },
+
+  async lock(key, until) {
+    await prisma.rateLimitEntry.upsert({
+      where: { key },
+      create: { key, failures: 0, windowStartedAt: new Date(), lockedUntil: until, lockouts: 1 },
+      update: { failures: 0, windowStartedAt: new Date(), lockedUntil: until, lockouts: { increment: 1 } },
+    });
+  },
+
+  async reset(key) {
+    await prisma.rateLimitEntry.deleteMany({ where: { key } });
+  },
+};
@@ -0,0 +1,23 @@
+export type AttemptRecord = {
+  /** Failures counted since `windowStartedAt`. */
+  failures: number;
+  windowStartedAt: Date;
+  lockedUntil: Date | null;
+  /** Lockouts since the key was last quiet for a day; each one lasts twice as long as the one before. */
+  lockouts: number;
+  updatedAt: Date;
+};
+
+export interface RateLimitStore {
+  readonly name: string;
+  /** Resolves to null when nothing is recorded under the key. */
+  get(key: string): Promise<AttemptRecord | null>;
+  /** Counts one failure, starting a fresh window when the current one is older than `windowMs`. */
+  recordFailure(key: string, windowMs: number): Promise<AttemptRecord>;
+  /** Locks the key until `until`, adds one to its lockouts and clears the failure count. */
+  lock(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/** Records untouched for this long are forgotten, lockout history included. */
+export const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
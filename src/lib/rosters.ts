@@ -0,0 +1,136 @@
+import { prisma } from './prisma';
+import { getSessionFromCookies } from './session';
+
+/** The signed-in teacher's roster, or null when it belongs to someone else. */
+export async function getTeacherRoster(rosterId: string) {
+  const { role, teacherId } = await getSessionFromCookies();
+  if (role !== 'teacher' || !teacherId) {
+    return null;
+  }
+
+  return prisma.classRoster.findFirst({
+    where: { id: rosterId, teacherId },
+  });
+}
+
+/**
+ * Lowercase usernames a student created in the session may not take: the session's students and, in a
+ * session started for a roster, the roster's accounts. Sign-in matches session students first, so one
+ * named like an account would lock the account's owner out. `except` leaves out a student being renamed.
+ */
+export async function sessionUsernamesInUse(
+  session: { id: string; rosterId: string | null },
+  except?: { id: string; accountId: string | null },
+) {
+  const [students, accounts] = await Promise.all([
+    prisma.student.findMany({
+      where: { sessionId: session.id, ...(except ? { id: { not: except.id } } : {}) },
+      select: { username: true },
+    }),
+    session.rosterId
+      ? prisma.studentAccount.findMany({
+          where: { rosterId: session.rosterId, ...(except?.accountId ? { id: { not: except.accountId } } : {}) },
+          select: { username: true },
+        })
+      : [],
+  ]);
+  return new Set([...students, ...accounts].map((entry) => entry.username.toLowerCase()));
+}
+
+/** Lowercase usernames a new account in the roster may not take: its accounts, and the session-only students of its running sessions. */
+export async function rosterUsernamesInUse(rosterId: string) {
+  const [accounts, students] = await Promise.all([
+    prisma.studentAccount.findMany({ where: { rosterId }, select: { username: true } }),
+    prisma.student.findMany({
+      where: { accountId: null, session: { rosterId, isActive: true } },
+      select: { username: true },
+    }),
+  ]);
+  return new Set([...accounts, ...students].map((entry) => entry.username.toLowerCase()));
+}
+
+/**
+ * Finds who is signing in to a session. Students created for the session are matched first; in a
+ * session started for a roster, the roster account is matched next, along with the `Student` row
+ * it already has here. The creation routes keep session students from taking an account's username,
+ * so the order only matters for students created before that check. The returned hash is the one to
+ * check the password against.
+ */
+export async function findSessionLogin(session: { id: string; rosterId: string | null }, username: string) {
+  const student = await prisma.student.findFirst({
+    where: { username, sessionId: session.id },
+    select: { id: true, username: true, displayName: true, passwordHash: true, accountId: true },
+  });
+
+  if (student?.accountId) {
+    const account = await prisma.studentAccount.findUnique({
+      where: { id: student.accountId },
+      select: { id: true, username: true, displayName: true, passwordHash: true },
+    });
+    return { student, account, passwordHash: account?.passwordHash ?? student.passwordHash };
+  }
+
+  if (student || !session.rosterId) {
+    return student ? { student, account: null, passwordHash: student.passwordHash } : null;
+  }
+
+  const account = await prisma.studentAccount.findUnique({
+    where: { rosterId_username: { rosterId: session.rosterId, username } },
+    select: { id: true, username: true, displayName: true, passwordHash: true },
+  });
+
+  if (!account) {
+    return null;
+  }
+
+  // The teacher may have renamed the student inside this session.
+  const membership = await prisma.student.findFirst({
+    where: { sessionId: session.id, accountId: account.id },
+    select: { id: true, username: true, displayName: true, passwordHash: true, accountId: true },
+  });
+
+  return { student: membership, account, passwordHash: account.passwordHash };
+}
+
+/** Adds a roster account to a session on first sign-in, picking a free username if needed. */
+export async function joinSessionWithAccount(
+  sessionId: string,
+  account: { id: string; username: string; displayName: string | null; passwordHash: string },
+) {
+  let username = account.username;
+  for (let suffix = 2; await prisma.student.findFirst({ where: { sessionId, username }, select: { id: true } }); suffix += 1) {
+    username = `${account.username}-${suffix}`;
+  }
+
+  return prisma.student.create({
+    data: {
+      sessionId,
+      username,
+      displayName: account.displayName,
+      passwordHash: account.passwordHash,
+      accountId: account.id,
+    },
+    select: { id: true, username: true, displayName: true },
+  });
+}
+
+/** Every `Student` row that belongs to the same person: all sessions of a roster account, or just this one. */
+export async function getPortfolioStudentIds(studentId: string) {
+  const student = await prisma.student.findUnique({
+    where: { id: studentId },
+    select: { id: true, accountId: true },
+  });
+
+  if (!student) {
+    return [];
+  }
+  if (!student.accountId) {
+    return [student.id];
+  }
+
+  const memberships = await prisma.student.findMany({
+    where: { accountId: student.accountId },
+    select: { id: true },
+  });
+  return memberships.map((membership) => membership.id);
+}
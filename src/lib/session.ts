@@ -1,28 +1,92 @@
+import crypto from 'crypto';
 import { cookies } from 'next/headers';
-import { SubmissionStatus } from '@prisma/client';
 import { prisma } from './prisma';
-import { roleCookieName, sessionCookieName, studentCookieName, UserRole } from './auth';
+import { authCookieName } from './auth';
+import { countChainImages, getStudentQuotaLimits, quotaSelect, remainingRefinements } from './quotas';
+import { resolveAuthToken, revokeSessionTokens } from './tokens';
 
-export async function getActiveSession() {
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+export function normalizeJoinCode(code: string) {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export async function generateJoinCode() {
+  for (;;) {
+    const bytes = crypto.randomBytes(JOIN_CODE_LENGTH);
+    let code = '';
+    for (let i = 0; i < JOIN_CODE_LENGTH; i += 1) {
+      code += JOIN_CODE_ALPHABET[bytes[i] % JOIN_CODE_ALPHABET.length];
+    }
+    const existing = await prisma.session.findUnique({
+      where: { joinCode: code },
+      select: { id: true },
+    });
+    if (!existing) {
+      return code;
+    }
+  }
+}
+
+export async function getActiveSessionByJoinCode(joinCode: string) {
+  const code = normalizeJoinCode(joinCode);
+  if (!code) {
+    return null;
+  }
   return prisma.session.findFirst({
-    where: { isActive: true },
-    orderBy: { createdAt: 'desc' },
+    where: { joinCode: code, isActive: true },
   });
 }
 
-export async function endExistingSessions() {
+export async function endExistingSessions(teacherId: string) {
+  const running = await prisma.session.findMany({
+    where: { teacherId, isActive: true },
+    select: { id: true },
+  });
   await prisma.session.updateMany({
-    where: { isActive: true },
+    where: { id: { in: running.map((entry) => entry.id) } },
     data: { isActive: false, endedAt: new Date() },
   });
+  for (const entry of running) {
+    await revokeSessionTokens(entry.id);
+  }
 }
 
 export async function getSessionFromCookies() {
   const cookieStore = await cookies();
-  const sessionId = cookieStore.get(sessionCookieName)?.value;
-  const role = cookieStore.get(roleCookieName)?.value as UserRole | undefined;
-  const studentId = cookieStore.get(studentCookieName)?.value;
-  return { sessionId, role, studentId };
+  const token = cookieStore.get(authCookieName)?.value;
+  // Identity comes only from the server-side token record, never from client-supplied IDs.
+  const record = await resolveAuthToken(token);
+  return {
+    token: record ? token : undefined,
+    sessionId: record?.sessionId ?? undefined,
+    role: record?.role,
+    studentId: record?.studentId ?? undefined,
+    teacherId: record?.teacherId ?? undefined,
+  };
+}
+
+/**
+ * The signed-in teacher's current session. Read-only views pass `archivedSessionId` to open any
+ * session the teacher owns, including ended ones.
+ */
+export async function getTeacherSession(archivedSessionId?: string | null) {
+  const { sessionId, role, teacherId } = await getSessionFromCookies();
+  const targetId = archivedSessionId || sessionId;
+  if (!targetId || role !== 'teacher' || !teacherId) {
+    return null;
+  }
+
+  const session = await prisma.session.findFirst({
+    where: { id: targetId, teacherId },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  return { session, teacherId };
 }
 
 export async function getSubmissionWithRemainingEdits(submissionId: string) {
@@ -35,17 +99,14 @@ export async function getSubmissionWithRemainingEdits(submissionId: string) {
   }
 
   const rootId = submission.rootSubmissionId ?? submission.id;
-  const chainCount = await prisma.promptSubmission.count({
-    where: {
-      OR: [
-        { id: rootId },
-        { rootSubmissionId: rootId },
-      ],
-      status: SubmissionStatus.SUCCESS,
-    },
-  });
+  const [chainCount, limits] = await Promise.all([
+    countChainImages(rootId),
+    submission.studentId
+      ? getStudentQuotaLimits(submission.sessionId, submission.studentId)
+      : prisma.session.findUnique({ where: { id: submission.sessionId }, select: quotaSelect }),
+  ]);
 
-  const remaining = Math.max(0, 3 - chainCount);
+  const remaining = limits ? remainingRefinements(limits.refinementLimit, chainCount) : 0;
 
   return { submission, remaining };
 }
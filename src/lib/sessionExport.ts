@@ -0,0 +1,345 @@
+import { prisma } from './prisma';
+import { hasStoredImage, loadSubmissionImage, loadSubmissionImagePng } from './images';
+import { quotaSelect } from './quotas';
+import { studentLabel } from './studentNames';
+import { toCsv } from './csv';
+import { createZipStream, ZipEntry } from './zip';
+import { describeGenerationOptions, getAspectRatio } from './generationOptions';
+
+export const exportFormats = ['json', 'zip', 'csv', 'html'] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const EXPORT_VERSION = 1;
+
+export async function loadSessionExport(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      joinCode: true,
+      createdAt: true,
+      endedAt: true,
+      isActive: true,
+      assistantPersona: true,
+      assistantSystemPrompt: true,
+      moderationBlocklist: true,
+      requireShareApproval: true,
+      stylePresets: true,
+      ...quotaSelect,
+      teacher: { select: { displayName: true } },
+      students: {
+        orderBy: { username: 'asc' },
+        select: { id: true, username: true, displayName: true, createdAt: true, ...quotaSelect },
+      },
+      promptEntries: {
+        orderBy: { createdAt: 'asc' },
+        omit: { imageData: true },
+      },
+      chatThreads: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          updatedAt: true,
+          studentId: true,
+          messages: {
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, content: true, sender: true, isComplete: true, moderationDecision: true, createdAt: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const usernames = new Map(session.students.map((student) => [student.id, student.username]));
+  const displayNames = new Map(session.students.map((student) => [student.id, student.displayName]));
+  return {
+    session,
+    submissions: session.promptEntries.map((submission) => ({
+      ...submission,
+      studentUsername: submission.studentId ? usernames.get(submission.studentId) ?? null : null,
+      studentDisplayName: submission.studentId ? displayNames.get(submission.studentId) ?? null : null,
+      imageFile: hasStoredImage(submission) ? imageFileName(submission, usernames) : null,
+    })),
+    threads: session.chatThreads.map((thread) => ({
+      ...thread,
+      studentUsername: usernames.get(thread.studentId) ?? null,
+      studentDisplayName: displayNames.get(thread.studentId) ?? null,
+    })),
+  };
+}
+
+export type SessionExport = NonNullable<Awaited<ReturnType<typeof loadSessionExport>>>;
+
+function safeFileName(value: string) {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'untitled';
+}
+
+function imageFileName(
+  submission: { id: string; studentId: string | null; revisionIndex: number; role: string },
+  usernames: Map<string, string>,
+) {
+  const owner = submission.studentId ? usernames.get(submission.studentId) ?? 'unknown' : submission.role.toLowerCase();
+  return `images/${safeFileName(owner)}/${submission.id}-r${submission.revisionIndex}.png`;
+}
+
+/** The `manifest.json` of the ZIP and the body of the JSON export. */
+export function toManifest(data: SessionExport) {
+  const { session } = data;
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      joinCode: session.joinCode,
+      createdAt: session.createdAt,
+      endedAt: session.endedAt,
+      isActive: session.isActive,
+      teacher: session.teacher?.displayName ?? null,
+    },
+    settings: {
+      assistantPersona: session.assistantPersona,
+      assistantSystemPrompt: session.assistantSystemPrompt,
+      moderationBlocklist: session.moderationBlocklist,
+      requireShareApproval: session.requireShareApproval,
+      stylePresets: session.stylePresets,
+      imageLimit: session.imageLimit,
+      refinementLimit: session.refinementLimit,
+      threadLimit: session.threadLimit,
+      messageLimit: session.messageLimit,
+    },
+    students: session.students.map((student) => ({
+      id: student.id,
+      username: student.username,
+      displayName: student.displayName,
+      createdAt: student.createdAt,
+      imageLimit: student.imageLimit,
+      refinementLimit: student.refinementLimit,
+      threadLimit: student.threadLimit,
+      messageLimit: student.messageLimit,
+    })),
+    entries: data.submissions.map((submission) => ({
+      id: submission.id,
+      prompt: submission.prompt,
+      role: submission.role,
+      createdAt: submission.createdAt,
+      status: submission.status,
+      revisionIndex: submission.revisionIndex,
+      parentSubmissionId: submission.parentSubmissionId,
+      rootSubmissionId: submission.rootSubmissionId,
+      aspectRatio: submission.aspectRatio,
+      stylePreset: submission.stylePreset,
+      stylePrompt: submission.stylePrompt,
+      variantIndex: submission.variantIndex,
+      variantCount: submission.variantCount,
+      hasImage: submission.imageFile !== null,
+      imageFile: submission.imageFile,
+      errorMessage: submission.errorMessage,
+      isShared: submission.isShared,
+      shareStatus: submission.shareStatus,
+      shareReviewNote: submission.shareReviewNote,
+      moderationDecision: submission.moderationDecision,
+      moderationCategory: submission.moderationCategory,
+      moderationReason: submission.moderationReason,
+      studentId: submission.studentId,
+      studentUsername: submission.studentUsername,
+      studentDisplayName: submission.studentDisplayName,
+    })),
+    chats: data.threads.map((thread) => ({
+      id: thread.id,
+      title: thread.title,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt,
+      studentId: thread.studentId,
+      studentUsername: thread.studentUsername,
+      studentDisplayName: thread.studentDisplayName,
+      messages: thread.messages,
+    })),
+  };
+}
+
+/** One row per prompt, grouped by student, for grading spreadsheets. */
+export function toPromptCsv(data: SessionExport) {
+  const header = [
+    'Student',
+    'Name',
+    'Created at',
+    'Prompt',
+    'Status',
+    'Revision',
+    'Shape',
+    'Style',
+    'Variant',
+    'Shared',
+    'Moderation',
+    'Image file',
+    'Submission ID',
+  ];
+  const rows = [...data.submissions]
+    .sort((a, b) => (a.studentUsername ?? '').localeCompare(b.studentUsername ?? '') || a.createdAt.getTime() - b.createdAt.getTime())
+    .map((submission) => [
+      submission.studentUsername ?? (submission.role === 'TEACHER' ? 'Teacher' : ''),
+      submission.studentDisplayName,
+      submission.createdAt,
+      submission.prompt,
+      submission.status,
+      submission.revisionIndex,
+      getAspectRatio(submission.aspectRatio)?.id,
+      submission.stylePreset,
+      submission.variantCount > 1 ? `${submission.variantIndex + 1} of ${submission.variantCount}` : null,
+      submission.isShared ? 'yes' : 'no',
+      submission.moderationDecision,
+      submission.imageFile,
+      submission.id,
+    ]);
+  return toCsv([header, ...rows]);
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const reportDate = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+/** A single HTML file with thumbnails inlined as data URLs, so it opens offline and prints one student per page. */
+export async function toHtmlReport(data: SessionExport) {
+  const { session } = data;
+  const sections: string[] = [];
+  const owners = [
+    ...session.students.map((student) => ({ id: student.id as string | null, name: studentLabel(student.username, student.displayName) })),
+    { id: null, name: 'Teacher' },
+  ];
+
+  for (const owner of owners) {
+    const submissions = data.submissions.filter((submission) => submission.studentId === owner.id);
+    const threads = data.threads.filter((thread) => thread.studentId === owner.id);
+    if (submissions.length === 0 && threads.length === 0) continue;
+
+    const cards: string[] = [];
+    for (const submission of submissions) {
+      const options = describeGenerationOptions(submission);
+      const thumbnail = submission.imageFile ? await loadSubmissionImage(submission, 'thumbnail') : null;
+      const image = thumbnail
+        ? `<img src="data:${thumbnail.contentType};base64,${thumbnail.data.toString('base64')}" alt="">`
+        : `<div class="missing">${submission.status === 'ERROR' ? 'Generation failed' : 'No image'}</div>`;
+      cards.push(`<figure>${image}<figcaption><p>${escapeHtml(submission.prompt)}</p><small>${escapeHtml(
+        reportDate.format(submission.createdAt),
+      )}${submission.revisionIndex > 0 ? ` · refinement ${submission.revisionIndex}` : ''}${
+        options ? ` · ${escapeHtml(options)}` : ''
+      }${
+        submission.isShared ? ' · shared' : ''
+      }</small></figcaption></figure>`);
+    }
+
+    const chats = threads.map((thread) => {
+      const messages = thread.messages
+        .map(
+          (message) =>
+            `<div class="message ${message.sender === 'STUDENT' ? 'student' : 'ai'}"><strong>${
+              message.sender === 'STUDENT' ? escapeHtml(owner.name) : 'Assistant'
+            }</strong><p>${escapeHtml(message.content)}</p></div>`,
+        )
+        .join('');
+      return `<details open><summary>${escapeHtml(thread.title)}</summary>${messages}</details>`;
+    });
+
+    sections.push(`<section><h2>${escapeHtml(owner.name)}</h2>${
+      cards.length > 0 ? `<h3>Images (${cards.length})</h3><div class="grid">${cards.join('')}</div>` : ''
+    }${chats.length > 0 ? `<h3>Chats (${chats.length})</h3>${chats.join('')}` : ''}</section>`);
+  }
+
+  const title = `Class session ${session.joinCode} · ${reportDate.format(session.createdAt)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+header { margin-bottom: 2rem; }
+section { margin-bottom: 3rem; page-break-after: always; }
+h2 { border-bottom: 2px solid #e2e8f0; padding-bottom: .25rem; }
+.grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 1rem; }
+figure { margin: 0; border: 1px solid #e2e8f0; border-radius: .5rem; overflow: hidden; break-inside: avoid; }
+figure img { width: 100%; display: block; }
+figcaption { padding: .5rem .75rem; }
+figcaption p { margin: 0 0 .25rem; }
+small { color: #64748b; }
+.missing { aspect-ratio: 1; display: flex; align-items: center; justify-content: center; background: #f1f5f9; color: #64748b; }
+details { border: 1px solid #e2e8f0; border-radius: .5rem; padding: .5rem .75rem; margin-bottom: .75rem; }
+summary { font-weight: 600; cursor: pointer; }
+.message { margin: .5rem 0; }
+.message p { margin: .25rem 0 0; white-space: pre-wrap; }
+.message.ai { padding-left: 1rem; border-left: 3px solid #cbd5e1; }
+</style>
+</head>
+<body>
+<header><h1>${escapeHtml(title)}</h1><p>${session.students.length} students · ${data.submissions.length} prompts · ${
+    data.threads.length
+  } chats${session.teacher ? ` · ${escapeHtml(session.teacher.displayName)}` : ''}</p></header>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+function toChatMarkdown(thread: SessionExport['threads'][number]) {
+  const lines = [`# ${thread.title}`, '', `Student: ${thread.studentUsername ? studentLabel(thread.studentUsername, thread.studentDisplayName) : 'unknown'}`, ''];
+  for (const message of thread.messages) {
+    lines.push(`## ${message.sender === 'STUDENT' ? 'Student' : 'Assistant'} · ${message.createdAt.toISOString()}`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
+
+async function* zipEntries(data: SessionExport): AsyncGenerator<ZipEntry> {
+  const manifest = toManifest(data);
+  yield { name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) };
+  yield { name: 'prompts.csv', data: Buffer.from(toPromptCsv(data)) };
+  yield { name: 'report.html', data: Buffer.from(await toHtmlReport(data)) };
+
+  for (const thread of data.threads) {
+    const owner = safeFileName(thread.studentUsername ?? 'unknown');
+    yield { name: `chats/${owner}/${thread.id}-${safeFileName(thread.title)}.md`, data: Buffer.from(toChatMarkdown(thread)) };
+  }
+
+  // Images go last and one at a time, so only a single original is in memory while the ZIP streams out.
+  for (const submission of data.submissions) {
+    if (!submission.imageFile) continue;
+    const png = await loadSubmissionImagePng(submission);
+    if (png) {
+      yield { name: submission.imageFile, data: png, compress: false, modifiedAt: submission.createdAt };
+    }
+  }
+}
+
+export function createSessionZipStream(data: SessionExport) {
+  const chunks = createZipStream(zipEntries(data));
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(new Uint8Array(value));
+        }
+      } catch (error) {
+        console.error('Session ZIP export failed', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { PromptRole } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { ImportedSubmission, remapChainLinks } from './sessionImport';
+
+vi.mock('./prisma', () => ({ prisma: {} }));
+
+const { STUDENT, TEACHER } = PromptRole;
+
+function imported(entries: Record<string, ImportedSubmission>) {
+  return new Map(Object.entries(entries));
+}
+
+describe('remapChainLinks', () => {
+  const chain = imported({
+    'old-root': { id: 'new-root', role: STUDENT, rootId: null },
+    'old-first': { id: 'new-first', role: STUDENT, rootId: 'new-root' },
+    'old-demo': { id: 'new-demo', role: TEACHER, rootId: null },
+  });
+
+  it('leaves originals without links', () => {
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: null, rootSubmissionId: null }, chain)).toEqual({
+      parentId: null,
+      rootId: null,
+    });
+  });
+
+  it('maps the archived parent and root to the new rows', () => {
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'old-first', rootSubmissionId: 'old-root' }, chain)).toEqual({
+      parentId: 'new-first',
+      rootId: 'new-root',
+    });
+  });
+
+  it('keeps chains started from a teacher demo rootless', () => {
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'old-demo', rootSubmissionId: null }, chain)).toEqual({
+      parentId: 'new-demo',
+      rootId: null,
+    });
+  });
+
+  it('keeps a teacher refining their own demo in the demo chain', () => {
+    expect(remapChainLinks({ role: TEACHER, parentSubmissionId: 'old-demo', rootSubmissionId: 'old-demo' }, chain)).toEqual({
+      parentId: 'new-demo',
+      rootId: 'new-demo',
+    });
+  });
+
+  it('falls back to the parent chain when the archived root is missing', () => {
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'old-first', rootSubmissionId: 'gone' }, chain)).toEqual({
+      parentId: 'new-first',
+      rootId: 'new-root',
+    });
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'old-root', rootSubmissionId: 'gone' }, chain)).toEqual({
+      parentId: 'new-root',
+      rootId: 'new-root',
+    });
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'old-demo', rootSubmissionId: 'gone' }, chain)).toEqual({
+      parentId: 'new-demo',
+      rootId: null,
+    });
+  });
+
+  it('imports an entry whose parent is missing as an original', () => {
+    expect(remapChainLinks({ role: STUDENT, parentSubmissionId: 'gone', rootSubmissionId: 'old-root' }, chain)).toEqual({
+      parentId: null,
+      rootId: null,
+    });
+  });
+});
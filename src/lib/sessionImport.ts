@@ -0,0 +1,412 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import {
+  ChatSender,
+  ModerationDecision,
+  PromptRole,
+  ShareReviewStatus,
+  SubmissionStatus,
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { hashPassword } from './auth';
+import { generateJoinCode } from './session';
+import { storeSubmissionImage } from './images';
+import { EXPORT_VERSION } from './sessionExport';
+import { readZip } from './zip';
+
+export const IMPORT_MAX_BYTES = 512 * 1024 * 1024;
+/** Exported images are stored rather than deflated, so a genuine archive barely grows when it is unpacked. */
+const IMPORT_MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+const limit = z.number().int().nullable().optional();
+
+const manifestSchema = z.object({
+  version: z.number().int().max(EXPORT_VERSION, 'This archive was made by a newer version of the app.'),
+  session: z.object({
+    id: z.string(),
+    joinCode: z.string().optional(),
+    createdAt: z.coerce.date(),
+    endedAt: z.coerce.date().nullable().optional(),
+  }),
+  settings: z
+    .object({
+      assistantPersona: z.string().nullable().optional(),
+      assistantSystemPrompt: z.string().nullable().optional(),
+      moderationBlocklist: z.string().nullable().optional(),
+      requireShareApproval: z.boolean().optional(),
+      stylePresets: z.string().nullable().optional(),
+      imageLimit: limit,
+      refinementLimit: limit,
+      threadLimit: limit,
+      messageLimit: limit,
+    })
+    .optional(),
+  students: z
+    .array(
+      z.object({
+        id: z.string(),
+        username: z.string().min(1),
+        displayName: z.string().nullable().optional(),
+        createdAt: z.coerce.date().optional(),
+        imageLimit: limit,
+        refinementLimit: limit,
+        threadLimit: limit,
+        messageLimit: limit,
+      }),
+    )
+    .default([]),
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      prompt: z.string(),
+      role: z.enum(PromptRole),
+      createdAt: z.coerce.date(),
+      status: z.enum(SubmissionStatus),
+      revisionIndex: z.number().int().min(0).default(0),
+      parentSubmissionId: z.string().nullable().optional(),
+      rootSubmissionId: z.string().nullable().optional(),
+      aspectRatio: z.string().nullable().optional(),
+      stylePreset: z.string().nullable().optional(),
+      stylePrompt: z.string().nullable().optional(),
+      variantIndex: z.number().int().min(0).default(0),
+      variantCount: z.number().int().min(1).default(1),
+      imageFile: z.string().nullable().optional(),
+      errorMessage: z.string().nullable().optional(),
+      isShared: z.boolean().default(false),
+      shareStatus: z.enum(ShareReviewStatus).nullable().optional(),
+      shareReviewNote: z.string().nullable().optional(),
+      moderationDecision: z.enum(ModerationDecision).default(ModerationDecision.ALLOWED),
+      moderationCategory: z.string().nullable().optional(),
+      moderationReason: z.string().nullable().optional(),
+      studentId: z.string().nullable().optional(),
+      studentUsername: z.string().nullable().optional(),
+    }),
+  ),
+  chats: z
+    .array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        createdAt: z.coerce.date(),
+        updatedAt: z.coerce.date().optional(),
+        studentId: z.string(),
+        messages: z.array(
+          z.object({
+            id: z.string(),
+            content: z.string(),
+            sender: z.enum(ChatSender),
+            isComplete: z.boolean().default(true),
+            moderationDecision: z.enum(ModerationDecision).default(ModerationDecision.ALLOWED),
+            createdAt: z.coerce.date(),
+          }),
+        ),
+      }),
+    )
+    .default([]),
+});
+
+type Manifest = z.infer<typeof manifestSchema>;
+
+export type ImportReport = {
+  sessionId: string;
+  joinCode: string;
+  students: number;
+  submissions: number;
+  images: number;
+  chats: number;
+  messages: number;
+  /** Problems found in the archive and how each was resolved. */
+  conflicts: string[];
+};
+
+/** Accepts the ZIP export or its `manifest.json` on its own (the JSON export), which restores everything but images. */
+function readArchive(upload: Buffer) {
+  const isJson = upload.subarray(0, 64).toString('utf8').trimStart().startsWith('{');
+  const files = isJson
+    ? new Map([['manifest.json', upload]])
+    : readZip(upload, { maxEntrySize: IMPORT_MAX_ENTRY_BYTES, maxTotalSize: IMPORT_MAX_BYTES });
+  const manifestFile = files.get('manifest.json');
+  if (!manifestFile) {
+    throw new ArchiveImportError('The archive has no manifest.json.');
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(manifestFile.toString('utf8'));
+  } catch {
+    throw new ArchiveImportError('manifest.json is not valid JSON.');
+  }
+
+  const parsed = manifestSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ArchiveImportError(`manifest.json is invalid at ${issue?.path.join('.') || 'the top level'}: ${issue?.message}`);
+  }
+  return { manifest: parsed.data, files, hasImages: !isJson };
+}
+
+/** Parents before children, so every remapped parent and root ID exists by the time it is referenced. */
+function orderEntries(entries: Manifest['entries']) {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const ordered: Manifest['entries'] = [];
+  const visited = new Set<string>();
+  const visit = (entry: Manifest['entries'][number], trail: Set<string>) => {
+    if (visited.has(entry.id) || trail.has(entry.id)) return;
+    trail.add(entry.id);
+    for (const dependency of [entry.rootSubmissionId, entry.parentSubmissionId]) {
+      const target = dependency ? byId.get(dependency) : undefined;
+      if (target) visit(target, trail);
+    }
+    visited.add(entry.id);
+    ordered.push(entry);
+  };
+  for (const entry of entries) {
+    visit(entry, new Set());
+  }
+  return ordered;
+}
+
+/** A submission already recreated by the import, keyed by its ID in the archive. */
+export type ImportedSubmission = { id: string; role: PromptRole; rootId: string | null };
+
+/**
+ * Maps an entry's parent and root to the rows created for them. The archived root is kept as it was:
+ * a student who started from a teacher demo has the demo as parent but no root, because their chain
+ * is new. Only when the archived root did not come along is the root taken from the parent's chain.
+ */
+export function remapChainLinks(
+  entry: Pick<Manifest['entries'][number], 'role' | 'parentSubmissionId' | 'rootSubmissionId'>,
+  imported: ReadonlyMap<string, ImportedSubmission>,
+): { parentId: string | null; rootId: string | null } {
+  const parent = entry.parentSubmissionId ? imported.get(entry.parentSubmissionId) : undefined;
+  if (!parent || !entry.rootSubmissionId) {
+    return { parentId: parent?.id ?? null, rootId: null };
+  }
+
+  const root = imported.get(entry.rootSubmissionId);
+  if (root) {
+    return { parentId: parent.id, rootId: root.id };
+  }
+  const fromTeacherDemo = entry.role === PromptRole.STUDENT && parent.role === PromptRole.TEACHER;
+  return { parentId: parent.id, rootId: fromTeacherDemo ? null : parent.rootId ?? parent.id };
+}
+
+/**
+ * Recreates an exported session as a new, ended session owned by `teacherId`. Every row gets a fresh ID,
+ * so an archive can be imported next to its original or more than once. Students get random passwords
+ * because exports never contain password hashes.
+ */
+export async function importSessionArchive(upload: Buffer, teacherId: string): Promise<ImportReport> {
+  const { manifest, files, hasImages } = readArchive(upload);
+  const conflicts: string[] = [];
+  if (!hasImages && manifest.entries.some((entry) => entry.imageFile)) {
+    conflicts.push('Only the manifest was uploaded, so images were not restored. Import the ZIP export to bring them back.');
+  }
+
+  const existing = await prisma.session.findUnique({ where: { id: manifest.session.id }, select: { id: true } });
+  if (existing) {
+    conflicts.push(`Session ${manifest.session.id} already exists on this server, so it was imported as a separate copy.`);
+  }
+
+  const lockedPassword = () => hashPassword(crypto.randomBytes(24).toString('hex'));
+  const joinCode = await generateJoinCode();
+  const settings = manifest.settings ?? {};
+
+  const students: Array<Manifest['students'][number] & { passwordHash: string }> = [];
+  const usernames = new Set<string>();
+  for (const student of manifest.students) {
+    let username = student.username;
+    for (let suffix = 2; usernames.has(username.toLowerCase()); suffix += 1) {
+      username = `${student.username}-${suffix}`;
+    }
+    if (username !== student.username) {
+      conflicts.push(`Username "${student.username}" appears more than once; the duplicate was renamed to "${username}".`);
+    }
+    usernames.add(username.toLowerCase());
+    students.push({ ...student, username, passwordHash: await lockedPassword() });
+  }
+
+  const pendingImages: Array<{ submissionId: string; file: string; isShared: boolean }> = [];
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const session = await tx.session.create({
+        data: {
+          joinCode,
+          passwordHash: await lockedPassword(),
+          isActive: false,
+          createdAt: manifest.session.createdAt,
+          endedAt: manifest.session.endedAt ?? new Date(),
+          teacherId,
+          assistantPersona: settings.assistantPersona ?? null,
+          assistantSystemPrompt: settings.assistantSystemPrompt ?? null,
+          moderationBlocklist: settings.moderationBlocklist ?? null,
+          requireShareApproval: settings.requireShareApproval ?? false,
+          stylePresets: settings.stylePresets ?? null,
+          imageLimit: settings.imageLimit ?? null,
+          refinementLimit: settings.refinementLimit ?? undefined,
+          threadLimit: settings.threadLimit ?? undefined,
+          messageLimit: settings.messageLimit ?? null,
+        },
+      });
+
+      const studentIds = new Map<string, string>();
+      for (const student of students) {
+        const created = await tx.student.create({
+          data: {
+            sessionId: session.id,
+            username: student.username,
+            displayName: student.displayName ?? null,
+            passwordHash: student.passwordHash,
+            createdAt: student.createdAt,
+            imageLimit: student.imageLimit ?? null,
+            refinementLimit: student.refinementLimit ?? null,
+            threadLimit: student.threadLimit ?? null,
+            messageLimit: student.messageLimit ?? null,
+          },
+        });
+        studentIds.set(student.id, created.id);
+      }
+
+      const submissions = new Map<string, ImportedSubmission>();
+      for (const entry of orderEntries(manifest.entries)) {
+        const studentId = entry.studentId ? studentIds.get(entry.studentId) ?? null : null;
+        if (entry.studentId && !studentId) {
+          conflicts.push(`Prompt ${entry.id} belongs to a student missing from the archive; it was kept without an owner.`);
+        }
+
+        const { parentId, rootId } = remapChainLinks(entry, submissions);
+        if (entry.parentSubmissionId && !parentId) {
+          conflicts.push(`Prompt ${entry.id} refines ${entry.parentSubmissionId}, which is missing; it was imported as an original.`);
+        }
+
+        const imageFile = entry.imageFile && files.has(entry.imageFile) ? entry.imageFile : null;
+        if (entry.imageFile && !imageFile && hasImages) {
+          conflicts.push(`The image for prompt ${entry.id} (${entry.imageFile}) is missing from the archive.`);
+        }
+
+        // Generations that never finished cannot resume, and images that did not come along cannot be shown.
+        let status = entry.status;
+        let errorMessage = entry.errorMessage ?? null;
+        if (status === SubmissionStatus.PENDING) {
+          status = SubmissionStatus.ERROR;
+          errorMessage = 'Generation had not finished when the session was exported.';
+        } else if (status === SubmissionStatus.SUCCESS && !imageFile) {
+          status = SubmissionStatus.ERROR;
+          errorMessage = 'The image was not included in the imported archive.';
+        }
+        // Reads as failed until its image is stored after the commit, so an import cut short shows no blank successes.
+        const restoresImage = status === SubmissionStatus.SUCCESS && imageFile !== null;
+        if (restoresImage) {
+          status = SubmissionStatus.ERROR;
+          errorMessage = 'The image was still being restored when the import stopped.';
+        }
+
+        const created = await tx.promptSubmission.create({
+          data: {
+            sessionId: session.id,
+            prompt: entry.prompt,
+            role: entry.role,
+            createdAt: entry.createdAt,
+            studentId,
+            parentSubmissionId: parentId,
+            rootSubmissionId: rootId,
+            revisionIndex: parentId ? entry.revisionIndex : 0,
+            aspectRatio: entry.aspectRatio ?? null,
+            stylePreset: entry.stylePreset ?? null,
+            stylePrompt: entry.stylePrompt ?? null,
+            variantIndex: entry.variantIndex,
+            variantCount: entry.variantCount,
+            status,
+            errorMessage,
+            isShared: status === SubmissionStatus.SUCCESS && entry.isShared,
+            shareStatus: entry.shareStatus ?? null,
+            shareReviewNote: entry.shareReviewNote ?? null,
+            moderationDecision: entry.moderationDecision,
+            moderationCategory: entry.moderationCategory ?? null,
+            moderationReason: entry.moderationReason ?? null,
+          },
+        });
+        submissions.set(entry.id, { id: created.id, role: created.role, rootId });
+        if (restoresImage) {
+          pendingImages.push({ submissionId: created.id, file: imageFile, isShared: entry.isShared });
+        }
+      }
+
+      let chats = 0;
+      let messages = 0;
+      for (const thread of manifest.chats) {
+        const studentId = studentIds.get(thread.studentId);
+        if (!studentId) {
+          conflicts.push(`Chat "${thread.title}" belongs to a student missing from the archive and was skipped.`);
+          continue;
+        }
+        await tx.chatThread.create({
+          data: {
+            sessionId: session.id,
+            studentId,
+            title: thread.title,
+            createdAt: thread.createdAt,
+            updatedAt: thread.updatedAt ?? thread.createdAt,
+            messages: {
+              create: thread.messages.map((message) => ({
+                content: message.content,
+                sender: message.sender,
+                isComplete: message.isComplete,
+                moderationDecision: message.moderationDecision,
+                createdAt: message.createdAt,
+                studentId: message.sender === ChatSender.STUDENT ? studentId : null,
+              })),
+            },
+          },
+        });
+        chats += 1;
+        messages += thread.messages.length;
+      }
+
+      return { session, chats, messages, submissions: submissions.size, students: studentIds.size };
+    },
+    { timeout: 60000 },
+  );
+
+  // Writing images inside the transaction would hold the database lock for the whole upload, so they follow
+  // it. A row only becomes a success once its image is stored; one that fails keeps an explanation instead.
+  let images = 0;
+  for (const image of pendingImages) {
+    const data = files.get(image.file);
+    try {
+      if (!data) throw new Error('missing');
+      const keys = await storeSubmissionImage({ id: image.submissionId, sessionId: result.session.id }, data.toString('base64'), 'image/png');
+      await prisma.promptSubmission.update({
+        where: { id: image.submissionId },
+        data: { ...keys, status: SubmissionStatus.SUCCESS, errorMessage: null, isShared: image.isShared },
+      });
+      images += 1;
+    } catch (error) {
+      console.error('Failed to store imported image', error);
+      conflicts.push(`The image ${image.file} could not be stored.`);
+      await prisma.promptSubmission.update({
+        where: { id: image.submissionId },
+        data: { errorMessage: 'The image could not be restored from the archive.' },
+      });
+    }
+  }
+
+  return {
+    sessionId: result.session.id,
+    joinCode: result.session.joinCode,
+    students: result.students,
+    submissions: result.submissions,
+    images,
+    chats: result.chats,
+    messages: result.messages,
+    conflicts,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { planRoster, ROSTER_MAX_ROWS } from './studentCredentials';
+
+describe('planRoster', () => {
+  it('reads names and usernames under a header row', () => {
+    const plan = planRoster('Name,Username\r\nAda Lovelace,adal\r\n"Hopper, Grace",grace\r\n', new Set(), 'in this session');
+    expect(plan).toEqual({
+      ok: true,
+      entries: [
+        { displayName: 'Ada Lovelace', username: 'adal' },
+        { displayName: 'Hopper, Grace', username: 'grace' },
+      ],
+    });
+  });
+
+  it('splits on the separator the first line uses and leaves the others in names', () => {
+    const plan = planRoster('Name;Username\nSmith, Ada;adas\nJo\tBrien;jo_b\n', new Set(), 'in this session');
+    expect(plan.ok && plan.entries).toEqual([
+      { displayName: 'Smith, Ada', username: 'adas' },
+      { displayName: 'Jo\tBrien', username: 'jo_b' },
+    ]);
+    const tabs = planRoster('name\tusername\nLee; Kim\tleek', new Set(), 'in this session');
+    expect(tabs.ok && tabs.entries).toEqual([{ displayName: 'Lee; Kim', username: 'leek' }]);
+  });
+
+  it('generates usernames from names, avoiding taken ones', () => {
+    const plan = planRoster('María José Núñez\nAlan Turing\nAlan Tate', new Set(['alant']), 'in this session');
+    expect(plan.ok && plan.entries.map((entry) => entry.username)).toEqual(['mariajosen', 'alant2', 'alant3']);
+  });
+
+  it('never gives a chosen username to a generated one', () => {
+    const plan = planRoster('name,username\nAlan Turing,\nAlan Kay,alank\nAlan Kirby,', new Set(), 'in this session');
+    expect(plan.ok && plan.entries.map((entry) => entry.username)).toEqual(['alant', 'alank', 'alank2']);
+  });
+
+  it('reports every problem with its line and creates nothing', () => {
+    const plan = planRoster('name,username\n,someone\nAda,a!\nGrace,Taken\nLinus,linus\nLinus T,LINUS', new Set(['taken']), 'in this class');
+    expect(plan).toEqual({
+      ok: false,
+      message: 'The roster has problems. Nothing was imported.',
+      errors: [
+        'Line 2: the name is missing.',
+        'Line 3: "a!" must be 3-32 letters, numbers, dots, dashes or underscores.',
+        'Line 4: the username "Taken" is already taken in this class.',
+        'Line 6: the username "LINUS" is already taken in this class.',
+      ],
+    });
+  });
+
+  it('rejects empty and oversized rosters', () => {
+    expect(planRoster('\n\n', new Set(), 'in this session')).toMatchObject({ ok: false, message: 'No students were found in the roster.' });
+    const tooMany = Array.from({ length: ROSTER_MAX_ROWS + 1 }, (_, index) => `Student ${index}`).join('\n');
+    expect(planRoster(tooMany, new Set(), 'in this session')).toMatchObject({ ok: false, errors: [] });
+  });
+
+  it('leaves the caller’s set of taken usernames alone', () => {
+    const taken = new Set(['adal']);
+    planRoster('Ada Lovelace', taken, 'in this session');
+    expect([...taken]).toEqual(['adal']);
+  });
+});
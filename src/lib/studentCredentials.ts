@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+
+export const ROSTER_MAX_ROWS = 200;
+export const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,32}$/;
+
+/** Body of the class list uploads: the CSV file read as text in the browser. */
+export const rosterUploadSchema = z.object({
+  csv: z.string().min(1, 'The roster file is empty').max(200_000, 'The roster file is too large'),
+});
+
+export function randomCode(length = 8) {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+  const bytes = crypto.randomBytes(length);
+  let result = '';
+  for (let i = 0; i < length; i += 1) {
+    result += chars[bytes[i] % chars.length];
+  }
+  return result;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/** The separator used most often outside quotes on the first line, so one file never mixes them; commas by default. */
+function sniffDelimiter(text: string) {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!quoted && counts.has(char)) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+  }
+  return DELIMITERS.reduce((best, delimiter) => ((counts.get(delimiter) ?? 0) > (counts.get(best) ?? 0) ? delimiter : best));
+}
+
+/** Minimal RFC 4180 reader: quoted fields, doubled quotes and CRLF line endings. */
+export function parseCsv(text: string, delimiter = sniffDelimiter(text)) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.map((cells) => cells.map((cell) => cell.trim())).filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+export type RosterRow = {
+  /** 1-based line in the uploaded file, for error messages. */
+  line: number;
+  displayName: string;
+  username: string | null;
+};
+
+/**
+ * Reads "name" and optional "username" columns. A header row is recognised by those words;
+ * without one, the first column is the name and the second the username.
+ */
+export function parseRoster(text: string): RosterRow[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const hasHeader = header.some((cell) => cell.includes('name'));
+  const nameColumn = hasHeader
+    ? Math.max(0, header.findIndex((cell) => cell.includes('name') && !cell.includes('user')))
+    : 0;
+  const usernameColumn = hasHeader ? header.findIndex((cell) => cell.includes('user') || cell === 'login') : 1;
+
+  return rows.slice(hasHeader ? 1 : 0).map((cells, index) => ({
+    line: index + (hasHeader ? 2 : 1),
+    displayName: cells[nameColumn] ?? '',
+    username: usernameColumn >= 0 && cells[usernameColumn] ? cells[usernameColumn] : null,
+  }));
+}
+
+/** "María José Núñez" becomes "mariajosen": first names plus the last initial, ASCII only. */
+export function usernameFromName(displayName: string) {
+  const parts = displayName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return 'student';
+  }
+  const base = parts.length > 1 ? `${parts.slice(0, -1).join('')}${parts[parts.length - 1][0]}` : parts[0];
+  return base.slice(0, 24).padEnd(3, '0');
+}
+
+/** Adds 2, 3, ... until the name is free; `taken` holds lowercase usernames and is updated. */
+export function claimUsername(base: string, taken: Set<string>) {
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix += 1) {
+    candidate = `${base}${suffix}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export type RosterPlan =
+  | { ok: true; entries: Array<{ displayName: string; username: string }> }
+  | { ok: false; message: string; errors: string[] };
+
+/**
+ * Validates an uploaded class list and picks a username for every row. `taken` holds the lowercase
+ * usernames already in use where the students will be created, and `scope` names that place in errors.
+ */
+export function planRoster(text: string, taken: Set<string>, scope: string): RosterPlan {
+  const rows = parseRoster(text);
+
+  if (rows.length === 0) {
+    return { ok: false, message: 'No students were found in the roster.', errors: [] };
+  }
+  if (rows.length > ROSTER_MAX_ROWS) {
+    return { ok: false, message: `A roster can list at most ${ROSTER_MAX_ROWS} students.`, errors: [] };
+  }
+
+  const used = new Set(taken);
+  // Chosen usernames are checked first so generated ones can never take them.
+  const errors: string[] = [];
+  for (const row of rows) {
+    if (row.displayName.length === 0) {
+      errors.push(`Line ${row.line}: the name is missing.`);
+    } else if (row.displayName.length > 80) {
+      errors.push(`Line ${row.line}: the name is longer than 80 characters.`);
+    }
+    if (row.username) {
+      if (!USERNAME_PATTERN.test(row.username)) {
+        errors.push(`Line ${row.line}: "${row.username}" must be 3-32 letters, numbers, dots, dashes or underscores.`);
+      } else if (used.has(row.username.toLowerCase())) {
+        errors.push(`Line ${row.line}: the username "${row.username}" is already taken ${scope}.`);
+      } else {
+        used.add(row.username.toLowerCase());
+      }
+    }
+  }
+
+  // Nothing is created unless the whole file is valid, so the teacher can fix it and upload again.
+  if (errors.length > 0) {
+    return { ok: false, message: 'The roster has problems. Nothing was imported.', errors };
+  }
+
+  return {
+    ok: true,
+    entries: rows.map((row) => ({
+      displayName: row.displayName,
+      username: row.username ?? claimUsername(usernameFromName(row.displayName), used),
+    })),
+  };
+}
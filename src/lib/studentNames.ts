@@ -0,0 +1,15 @@
+import { toCsv } from './csv';
+
+/** "Ada Lovelace (adal)" when the teacher imported a real name, otherwise just the username. */
+export function studentLabel(username: string, displayName?: string | null) {
+  return displayName ? `${displayName} (${username})` : username;
+}
+
+/** The CSV teachers download after creating logins: real name, username and password per row. */
+export function toCredentialsCsv(credentials: Array<{ username: string; displayName: string | null; password: string }>) {
+  const rows = [
+    ['Name', 'Username', 'Password'],
+    ...credentials.map(({ displayName, username, password }) => [displayName ?? '', username, password]),
+  ];
+  return toCsv(rows);
+}
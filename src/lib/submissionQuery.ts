@@ -0,0 +1,67 @@
+import { Prisma, PromptRole, SubmissionStatus } from '@prisma/client';
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+const querySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  studentId: z.string().min(1).optional(),
+  status: z.enum(SubmissionStatus).optional(),
+  role: z.enum(PromptRole).optional(),
+  shared: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  /** Comma-separated IDs, used by clients to refresh specific entries without reloading the list. */
+  ids: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.string()).max(MAX_PAGE_SIZE))
+    .optional(),
+});
+
+export type SubmissionListQuery = z.infer<typeof querySchema>;
+
+/** Reads the shared list parameters used by `/api/images` and `/api/teacher/activity`. Throws a ZodError on bad input. */
+export function parseSubmissionListQuery(url: string): SubmissionListQuery {
+  return querySchema.parse(Object.fromEntries(new URL(url).searchParams));
+}
+
+export function submissionFilterWhere(query: SubmissionListQuery): Prisma.PromptSubmissionWhereInput {
+  const where: Prisma.PromptSubmissionWhereInput = {};
+  if (query.studentId) {
+    where.studentId = query.studentId;
+  }
+  if (query.status) {
+    where.status = query.status;
+  }
+  if (query.role) {
+    where.role = query.role;
+  }
+  if (query.shared !== undefined) {
+    where.isShared = query.shared;
+  }
+  if (query.from || query.to) {
+    where.createdAt = { gte: query.from, lte: query.to };
+  }
+  if (query.ids) {
+    where.id = { in: query.ids };
+  }
+  return where;
+}
+
+/** Newest first; one extra row is fetched to tell whether another page exists. */
+export function submissionPageArgs(query: SubmissionListQuery) {
+  return {
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }] satisfies Prisma.PromptSubmissionOrderByWithRelationInput[],
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  };
+}
+
+export function toPage<T extends { id: string }>(rows: T[], limit: number) {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return { items, nextCursor: hasMore ? items[items.length - 1].id : null };
+}
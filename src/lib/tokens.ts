@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { authCookieName, generateToken, hashToken, UserRole } from './auth';
+
+const TEACHER_TOKEN_TTL_SECONDS = 60 * 60 * 12;
+const SESSION_TOKEN_TTL_SECONDS = 60 * 60 * 6;
+const QUICK_LOGIN_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+export type AuthTokenClaims = {
+  role: UserRole;
+  teacherId?: string | null;
+  sessionId?: string | null;
+  studentId?: string | null;
+};
+
+export type IssuedAuthToken = {
+  token: string;
+  expiresAt: Date;
+};
+
+export async function issueAuthToken(claims: AuthTokenClaims): Promise<IssuedAuthToken> {
+  // Teacher tokens without a classroom attached live longer than anything tied to a running session.
+  const ttl = claims.role === 'teacher' && !claims.sessionId ? TEACHER_TOKEN_TTL_SECONDS : SESSION_TOKEN_TTL_SECONDS;
+  const token = generateToken('ct');
+  const expiresAt = new Date(Date.now() + ttl * 1000);
+
+  await prisma.authToken.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  await prisma.authToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      role: claims.role,
+      teacherId: claims.teacherId ?? null,
+      sessionId: claims.sessionId ?? null,
+      studentId: claims.studentId ?? null,
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+}
+
+export async function resolveAuthToken(token: string | undefined) {
+  if (!token) {
+    return null;
+  }
+
+  const record = await prisma.authToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!record || record.revokedAt || record.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  if (record.role !== 'student' && record.role !== 'teacher') {
+    return null;
+  }
+
+  return { ...record, role: record.role as UserRole };
+}
+
+export async function revokeAuthToken(token: string | undefined) {
+  if (!token) {
+    return;
+  }
+  await prisma.authToken.updateMany({
+    where: { tokenHash: hashToken(token), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+export async function revokeSessionTokens(sessionId: string) {
+  await prisma.authToken.updateMany({
+    where: { sessionId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await prisma.quickLoginToken.deleteMany({
+    where: { student: { sessionId } },
+  });
+}
+
+export async function revokeStudentTokens(studentId: string) {
+  await prisma.authToken.updateMany({
+    where: { studentId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  await prisma.quickLoginToken.deleteMany({
+    where: { studentId },
+  });
+}
+
+/** A single-use sign-in token for a printed card. Printing a new card replaces the student's unused ones. */
+export async function issueQuickLoginToken(studentId: string) {
+  const token = generateToken('ql');
+
+  await prisma.quickLoginToken.deleteMany({
+    where: { OR: [{ studentId, usedAt: null }, { expiresAt: { lt: new Date() } }] },
+  });
+
+  await prisma.quickLoginToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      studentId,
+      expiresAt: new Date(Date.now() + QUICK_LOGIN_TTL_SECONDS * 1000),
+    },
+  });
+
+  return token;
+}
+
+/** Whose card a token belongs to, without using it up, or null when it is unknown, used or expired. */
+export async function findQuickLoginToken(token: string) {
+  const record = await prisma.quickLoginToken.findFirst({
+    where: { tokenHash: hashToken(token), usedAt: null, expiresAt: { gt: new Date() } },
+    select: { student: { select: { id: true, username: true, displayName: true, sessionId: true } } },
+  });
+  return record?.student ?? null;
+}
+
+/** Uses up a card token and returns whose it was, or null when it is unknown, used or expired. */
+export async function redeemQuickLoginToken(token: string) {
+  const tokenHash = hashToken(token);
+  // Claiming the token in one conditional update keeps two scans of the same card from both signing in.
+  const { count } = await prisma.quickLoginToken.updateMany({
+    where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const record = await prisma.quickLoginToken.findUnique({
+    where: { tokenHash },
+    select: { student: { select: { id: true, sessionId: true } } },
+  });
+
+  return record?.student ?? null;
+}
+
+export function setAuthCookie(response: NextResponse, issued: IssuedAuthToken) {
+  response.cookies.set(authCookieName, issued.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    expires: issued.expiresAt,
+  });
+}
+
+export function clearAuthCookie(response: NextResponse) {
+  response.cookies.delete(authCookieName);
+}
@@ -0,0 +1,161 @@
+import { UsageKind } from '@prisma/client';
+import { prisma } from './prisma';
+
+/** Tokens and cost reported by one model call. Providers that do not report a value leave it null. */
+export type ModelUsage = {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  costUsd: number | null;
+};
+
+export type UsageTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+
+export const BUDGET_MAX_USD = 10_000;
+
+export const BUDGET_MESSAGE = "Your class has used this session's AI budget. Ask your teacher to raise it.";
+
+export const TEACHER_BUDGET_MESSAGE = "This session's AI budget is used up. Raise it on the dashboard to generate more images.";
+
+function nonNegative(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Reads the `usage` object of a response. OpenRouter uses the chat field names and adds `cost` in
+ * USD; OpenAI-style image endpoints report `input_tokens` and `output_tokens`.
+ */
+export function parseUsage(raw: unknown): ModelUsage {
+  const usage = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const promptTokens = nonNegative(usage.prompt_tokens ?? usage.input_tokens);
+  const completionTokens = nonNegative(usage.completion_tokens ?? usage.output_tokens);
+  return {
+    promptTokens: promptTokens === null ? null : Math.round(promptTokens),
+    completionTokens: completionTokens === null ? null : Math.round(completionTokens),
+    costUsd: nonNegative(usage.cost),
+  };
+}
+
+/** The columns to store a call's usage on `PromptSubmission` or `ChatMessage`. */
+export function usageFields(usage: ModelUsage | null | undefined) {
+  return {
+    promptTokens: usage?.promptTokens ?? null,
+    completionTokens: usage?.completionTokens ?? null,
+    costUsd: usage?.costUsd ?? null,
+  };
+}
+
+function sum(a: number | null, b: number | null | undefined) {
+  return a === null && (b ?? null) === null ? null : (a ?? 0) + (b ?? 0);
+}
+
+/** Usage of two calls together, such as a failed attempt and its retry. Values neither call reported stay null. */
+export function addUsage(first: ModelUsage, second: ModelUsage | null | undefined): ModelUsage {
+  return {
+    promptTokens: sum(first.promptTokens, second?.promptTokens),
+    completionTokens: sum(first.completionTokens, second?.completionTokens),
+    costUsd: sum(first.costUsd, second?.costUsd),
+  };
+}
+
+const usageSum = { promptTokens: true, completionTokens: true, costUsd: true } as const;
+
+function toTotals(sum: { promptTokens: number | null; completionTokens: number | null; costUsd: number | null }): UsageTotals {
+  return {
+    promptTokens: sum.promptTokens ?? 0,
+    completionTokens: sum.completionTokens ?? 0,
+    costUsd: sum.costUsd ?? 0,
+  };
+}
+
+/**
+ * The session's cost so far, images and chat replies together, including what deleted students spent.
+ * Calls without a reported cost count as free.
+ */
+export async function getSessionCost(sessionId: string) {
+  const [images, chats, removed] = await Promise.all([
+    prisma.promptSubmission.aggregate({ where: { sessionId }, _sum: { costUsd: true } }),
+    prisma.chatMessage.aggregate({ where: { thread: { sessionId } }, _sum: { costUsd: true } }),
+    prisma.removedUsage.aggregate({ where: { sessionId }, _sum: { costUsd: true } }),
+  ]);
+  return (images._sum.costUsd ?? 0) + (chats._sum.costUsd ?? 0) + (removed._sum.costUsd ?? 0);
+}
+
+/**
+ * What a student's images and chats cost, as rows to keep once they are deleted. Without them, deleting
+ * a student would lower the session's spend and free up budget that was already used.
+ */
+export async function removedUsageRows(sessionId: string, studentId: string) {
+  const [images, chats] = await Promise.all([
+    prisma.promptSubmission.aggregate({ where: { studentId }, _sum: usageSum }),
+    prisma.chatMessage.aggregate({ where: { OR: [{ studentId }, { thread: { studentId } }] }, _sum: usageSum }),
+  ]);
+  return [
+    { sessionId, kind: UsageKind.IMAGE, ...toTotals(images._sum) },
+    { sessionId, kind: UsageKind.CHAT, ...toTotals(chats._sum) },
+  ].filter((row) => row.promptTokens > 0 || row.completionTokens > 0 || row.costUsd > 0);
+}
+
+/** Whether the teacher's budget for the session is used up. Sessions without a budget never are. */
+export async function isBudgetReached(sessionId: string) {
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { budgetUsd: true } });
+  if (session?.budgetUsd === null || session?.budgetUsd === undefined) {
+    return false;
+  }
+  return (await getSessionCost(sessionId)) >= session.budgetUsd;
+}
+
+/**
+ * Usage for the whole session and per student, split into images and chat. Chat replies are
+ * attributed to the student who owns the thread; the teacher's own images and deleted students'
+ * usage are left out of `byStudent` but counted in the total.
+ */
+export async function getSessionSpend(sessionId: string) {
+  const [images, chatByThread, threads, removed] = await Promise.all([
+    prisma.promptSubmission.groupBy({ by: ['studentId'], where: { sessionId }, _sum: usageSum }),
+    prisma.chatMessage.groupBy({ by: ['threadId'], where: { thread: { sessionId } }, _sum: usageSum }),
+    prisma.chatThread.findMany({ where: { sessionId }, select: { id: true, studentId: true } }),
+    prisma.removedUsage.groupBy({ by: ['kind'], where: { sessionId }, _sum: usageSum }),
+  ]);
+
+  const empty = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, costUsd: 0 });
+  const add = (target: UsageTotals, value: UsageTotals) => {
+    target.promptTokens += value.promptTokens;
+    target.completionTokens += value.completionTokens;
+    target.costUsd += value.costUsd;
+  };
+
+  const total = { images: empty(), chat: empty() };
+  const byStudent = new Map<string, { images: UsageTotals; chat: UsageTotals }>();
+  const entryFor = (studentId: string) => {
+    let entry = byStudent.get(studentId);
+    if (!entry) {
+      entry = { images: empty(), chat: empty() };
+      byStudent.set(studentId, entry);
+    }
+    return entry;
+  };
+
+  for (const row of images) {
+    const totals = toTotals(row._sum);
+    add(total.images, totals);
+    if (row.studentId) add(entryFor(row.studentId).images, totals);
+  }
+
+  const threadOwners = new Map(threads.map((thread) => [thread.id, thread.studentId]));
+  for (const row of chatByThread) {
+    const totals = toTotals(row._sum);
+    add(total.chat, totals);
+    const studentId = threadOwners.get(row.threadId);
+    if (studentId) add(entryFor(studentId).chat, totals);
+  }
+
+  for (const row of removed) {
+    add(row.kind === UsageKind.IMAGE ? total.images : total.chat, toTotals(row._sum));
+  }
+
+  return { total, byStudent };
+}
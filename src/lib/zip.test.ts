@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZipStream, readZip, ZipEntry, ZipFormatError } from './zip';
+
+async function zip(entries: ZipEntry[]) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createZipStream(entries)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Offset of the first central directory header, where the sizes `readZip` trusts are kept. */
+function centralDirectory(archive: Buffer) {
+  return archive.readUInt32LE(archive.length - 22 + 16);
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('createZipStream', () => {
+  it('writes local headers and an end of directory that counts every entry', async () => {
+    const archive = await zip([
+      { name: 'manifest.json', data: Buffer.from('{}') },
+      { name: 'images/a.png', data: Buffer.from([1, 2, 3]), compress: false },
+    ]);
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+    expect(archive.readUInt16LE(end + 10)).toBe(2);
+    expect(archive.readUInt32LE(centralDirectory(archive))).toBe(0x02014b50);
+  });
+});
+
+describe('readZip', () => {
+  it('reads back what createZipStream wrote, deflated or stored', async () => {
+    const manifest = Buffer.from(JSON.stringify({ hello: 'world'.repeat(200) }));
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+    const archive = await zip([
+      { name: 'manifest.json', data: manifest },
+      { name: 'images/ä.png', data: image, compress: false },
+      { name: 'empty.txt', data: Buffer.alloc(0) },
+    ]);
+
+    const files = readZip(archive);
+    expect([...files.keys()]).toEqual(['manifest.json', 'images/ä.png', 'empty.txt']);
+    expect(files.get('manifest.json')).toEqual(manifest);
+    expect(files.get('images/ä.png')).toEqual(image);
+    expect(files.get('empty.txt')?.length).toBe(0);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'))).toThrow(ZipFormatError);
+  });
+
+  it('rejects an entry larger than the per-entry limit', async () => {
+    const archive = await zip([{ name: 'big.bin', data: Buffer.alloc(2048) }]);
+    expect(() => readZip(archive, { maxEntrySize: 1024 })).toThrow('The ZIP entry big.bin is too large to import.');
+    expect(readZip(archive, { maxEntrySize: 2048 }).get('big.bin')?.length).toBe(2048);
+  });
+
+  it('rejects archives whose entries together exceed the total limit', async () => {
+    const archive = await zip([
+      { name: 'a.bin', data: Buffer.alloc(600) },
+      { name: 'b.bin', data: Buffer.alloc(600) },
+    ]);
+    expect(() => readZip(archive, { maxTotalSize: 1000 })).toThrow('The archive is too large to import.');
+    expect(readZip(archive, { maxTotalSize: 1200 }).size).toBe(2);
+  });
+
+  it('stops inflating an entry that is larger than its declared size', async () => {
+    const archive = await zip([{ name: 'bomb.bin', data: Buffer.alloc(1024 * 1024) }]);
+    archive.writeUInt32LE(100, centralDirectory(archive) + 24);
+    expect(() => readZip(archive, { maxEntrySize: 1000 })).toThrow('The ZIP entry bomb.bin is larger than it claims.');
+  });
+
+  it('rejects entries whose checksum does not match', async () => {
+    const archive = await zip([{ name: 'note.txt', data: Buffer.from('hello'), compress: false }]);
+    archive.writeUInt32LE(0, centralDirectory(archive) + 16);
+    expect(() => readZip(archive)).toThrow('The ZIP entry note.txt is corrupt.');
+  });
+});
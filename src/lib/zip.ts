@@ -0,0 +1,202 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export type ZipEntry = {
+  /** Path inside the archive, using forward slashes. */
+  name: string;
+  data: Buffer;
+  /** Already-compressed formats such as PNG gain nothing from deflate, so they are stored as-is. */
+  compress?: boolean;
+  modifiedAt?: Date;
+};
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Writes a ZIP archive one entry at a time, so large exports never hold every file in memory.
+ * Only the central directory is kept until the end. Archives must stay under 4 GB (no ZIP64).
+ */
+export async function* createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const central: Buffer[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const method = entry.compress === false ? METHOD_STORE : METHOD_DEFLATE;
+    const body = method === METHOD_DEFLATE ? deflateRawSync(entry.data) : entry.data;
+    const crc = crc32(entry.data);
+    const { time, day } = dosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(UTF8_FLAG, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(day, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    yield Buffer.concat([local, name]);
+    yield body;
+    offset += local.length + name.length + body.length;
+    count += 1;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  yield directory;
+  yield end;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+export type ReadZipLimits = {
+  /** Largest unpacked size of a single file. */
+  maxEntrySize?: number;
+  /** Largest unpacked size of all files together. */
+  maxTotalSize?: number;
+};
+
+/**
+ * Reads every file of a ZIP held in memory, keyed by path. Supports stored and deflated entries without
+ * ZIP64. The limits are enforced while inflating, not just against the sizes the archive claims, so a
+ * small upload cannot expand into gigabytes.
+ */
+export function readZip(archive: Buffer, limits: ReadZipLimits = {}) {
+  const maxEntrySize = limits.maxEntrySize ?? Number.MAX_SAFE_INTEGER;
+  const maxTotalSize = limits.maxTotalSize ?? Number.MAX_SAFE_INTEGER;
+  const searchFrom = Math.max(0, archive.length - END_OF_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  let end = -1;
+  for (let i = archive.length - END_OF_DIRECTORY_SIZE; i >= searchFrom; i -= 1) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new ZipFormatError('This file is not a ZIP archive.');
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    if (cursor + 46 > archive.length || archive.readUInt32LE(cursor) !== 0x02014b50) {
+      throw new ZipFormatError('The ZIP directory is damaged.');
+    }
+    const method = archive.readUInt16LE(cursor + 10);
+    const crc = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const size = archive.readUInt32LE(cursor + 24);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const extraLength = archive.readUInt16LE(cursor + 30);
+    const commentLength = archive.readUInt16LE(cursor + 32);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new ZipFormatError('ZIP64 archives are not supported.');
+    }
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (size > maxEntrySize) {
+      throw new ZipFormatError(`The ZIP entry ${name} is too large to import.`);
+    }
+    if (totalSize + size > maxTotalSize) {
+      throw new ZipFormatError('The archive is too large to import.');
+    }
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new ZipFormatError(`The ZIP entry ${name} is damaged.`);
+    }
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === METHOD_STORE) {
+      data = raw;
+    } else if (method === METHOD_DEFLATE) {
+      // Inflating stops as soon as the output outgrows the declared size, which the limits already allow.
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } catch (error) {
+        throw new ZipFormatError(
+          error instanceof RangeError ? `The ZIP entry ${name} is larger than it claims.` : `The ZIP entry ${name} is corrupt.`,
+        );
+      }
+    } else {
+      throw new ZipFormatError(`The ZIP entry ${name} uses an unsupported compression method.`);
+    }
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new ZipFormatError(`The ZIP entry ${name} is corrupt.`);
+    }
+    totalSize += data.length;
+    files.set(name, data);
+  }
+
+  return files;
+}